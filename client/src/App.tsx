@@ -6,6 +6,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "@/components/theme-provider";
 import Welcome from "@/pages/welcome";
 import Chat from "@/pages/chat";
+import JoinChat from "@/pages/join";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -13,6 +14,8 @@ function Router() {
     <Switch>
       <Route path="/" component={Welcome} />
       <Route path="/chat" component={Chat} />
+      <Route path="/join/:token" component={JoinChat} />
+      <Route path="/rooms/:chatId" component={JoinChat} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,74 @@
+import { Button } from "@/components/ui/button";
+import { Download, FileText, X } from "lucide-react";
+import type { Attachment } from "@shared/schema";
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+const attachmentUrl = (attachment: Attachment, download = false) =>
+  `/api/attachments/${attachment.id}${download ? "?download" : ""}`;
+
+// Files on a sent message: images preview inline, everything else is a chip
+export function AttachmentList({ attachments }: { attachments: Attachment[] }) {
+  if (attachments.length === 0) return null;
+
+  const images = attachments.filter(attachment => attachment.mimeType.startsWith("image/"));
+  const files = attachments.filter(attachment => !attachment.mimeType.startsWith("image/"));
+
+  return (
+    <div className="space-y-2 mb-2">
+      {images.map(image => (
+        <a key={image.id} href={attachmentUrl(image)} target="_blank" rel="noreferrer" className="block">
+          <img
+            src={attachmentUrl(image)}
+            alt={image.fileName}
+            loading="lazy"
+            className="rounded-lg max-h-64 max-w-full object-contain"
+          />
+        </a>
+      ))}
+      {files.map(file => (
+        <a
+          key={file.id}
+          href={attachmentUrl(file, true)}
+          className="flex items-center space-x-2 rounded-lg bg-black/5 dark:bg-white/10 px-3 py-2 hover:bg-black/10 dark:hover:bg-white/20"
+        >
+          <FileText className="w-4 h-4 shrink-0" />
+          <span className="text-sm truncate flex-1">{file.fileName}</span>
+          <span className="text-xs opacity-70 shrink-0">{formatFileSize(file.size)}</span>
+          <Download className="w-3 h-3 shrink-0" />
+        </a>
+      ))}
+    </div>
+  );
+}
+
+interface PendingAttachmentsProps {
+  attachments: Attachment[];
+  onRemove: (id: number) => void;
+}
+
+// Uploaded files waiting above the composer until the message is sent
+export function PendingAttachments({ attachments, onRemove }: PendingAttachmentsProps) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2 mb-2 px-2">
+      {attachments.map(attachment => (
+        <div
+          key={attachment.id}
+          className="flex items-center space-x-1 rounded-full bg-gray-100 dark:bg-slate-700 pl-3 pr-1 py-1 text-xs"
+        >
+          <span className="max-w-[10rem] truncate">{attachment.fileName}</span>
+          <span className="opacity-60">{formatFileSize(attachment.size)}</span>
+          <Button variant="ghost" size="icon" className="w-5 h-5" onClick={() => onRemove(attachment.id)}>
+            <X className="w-3 h-3" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,53 +1,141 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useLayoutEffect, useRef } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { MessageActions } from "@/components/message-actions";
+import { ReactionBar } from "@/components/reaction-bar";
+import { EmojiPicker } from "@/components/emoji-picker";
+import { QuotedMessage, toQuote } from "@/components/quoted-message";
+import { ThreadPanel } from "@/components/thread-panel";
+import { AttachmentList, PendingAttachments } from "@/components/attachment-list";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { displayName } from "@/lib/utils";
 import { usePolling } from "@/hooks/use-polling";
-import { Search, MoreVertical, Paperclip, Smile, Send, Users } from "lucide-react";
-import type { User, ChatWithMembers, MessageWithSender } from "@shared/schema";
+import { useMarkChatRead } from "@/hooks/use-mark-read";
+import { useChatMessages } from "@/hooks/use-chat-messages";
+import { useAttachmentUpload } from "@/hooks/use-attachment-upload";
+import { useTypingSignal, useTypingUsers } from "@/hooks/use-typing";
+import { presenceLabel, useNow } from "@/hooks/use-presence";
+import { CustomStatus, PresenceDot } from "@/components/presence-indicator";
+import { UserAvatar } from "@/components/user-avatar";
+import { UserProfileCard } from "@/components/user-profile-card";
+import { GroupSettingsSheet } from "@/components/group-settings-sheet";
+import { Search, MoreVertical, Paperclip, Smile, Send, Users, Check, CheckCheck, X, MessagesSquare } from "lucide-react";
+import { ALLOWED_ATTACHMENT_TYPES, type User, type ChatWithMembers, type MessageWithSender, type MessageQuote } from "@shared/schema";
+
+// A message to scroll to, e.g. a search result. Thread replies are shown by
+// anchoring on their root and opening the thread.
+export type MessageFocus = { messageId: number; threadRootId: number | null };
 
 interface ChatAreaProps {
   currentUser: User;
   activeChat: ChatWithMembers;
+  realtimeConnected: boolean;
+  focusMessage?: MessageFocus | null;
+  onClearFocus?: () => void;
+  onSearch?: () => void;
 }
 
-export function ChatArea({ currentUser, activeChat }: ChatAreaProps) {
+export function ChatArea({ currentUser, activeChat, realtimeConnected, focusMessage, onClearFocus, onSearch }: ChatAreaProps) {
   const [messageInput, setMessageInput] = useState("");
+  const [editingMessage, setEditingMessage] = useState<MessageWithSender | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<MessageWithSender | null>(null);
+  const [replyingTo, setReplyingTo] = useState<MessageQuote | null>(null);
+  const [threadRoot, setThreadRoot] = useState<MessageWithSender | null>(null);
+  const [showGroupSettings, setShowGroupSettings] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const scrollAnchorRef = useRef<{ height: number; top: number } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const appliedFocusRef = useRef<MessageFocus | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<number | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const { data: messages = [] } = useQuery<MessageWithSender[]>({
-    queryKey: ["/api/chats/" + activeChat.id + "/messages"],
+  const anchorMessageId = focusMessage ? focusMessage.threadRootId ?? focusMessage.messageId : undefined;
+  const {
+    messages, hasOlder, isFetchingOlder, fetchOlder, hasNewer, isFetchingNewer, fetchNewer
+  } = useChatMessages(activeChat.id, { enabled: !!activeChat, aroundMessageId: anchorMessageId });
+  const attachments = useAttachmentUpload(activeChat.id);
+  const typingSignal = useTypingSignal(activeChat.id);
+  const typingUserIds = useTypingUsers(activeChat.id);
+
+  // Live copy of the chat so read cursors stay current
+  const { data: chatDetails } = useQuery<ChatWithMembers>({
+    queryKey: ["/api/chats/" + activeChat.id],
     enabled: !!activeChat,
   });
+  const chat = chatDetails ?? activeChat;
+  const members = chat.members;
+  const now = useNow();
+  const ownMember = members.find(m => m.userId === currentUser.id);
+  const otherMembers = members.filter(m => m.userId !== currentUser.id);
+
+  const typingNames = typingUserIds.flatMap(userId => {
+    const member = otherMembers.find(m => m.userId === userId);
+    return member ? [displayName(member.user)] : [];
+  });
+  const typingLabel = typingNames.length === 0 ? null
+    : typingNames.length === 1 ? `${typingNames[0]} is typing…`
+    : typingNames.length === 2 ? `${typingNames[0]} and ${typingNames[1]} are typing…`
+    : `${typingNames.length} people are typing…`;
+
+  useMarkChatRead(activeChat.id, messages, ownMember?.lastReadMessageId);
+
+  // Keep the open thread's root in step with realtime updates to the timeline
+  const liveThreadRoot = threadRoot && (messages.find(m => m.id === threadRoot.id) ?? threadRoot);
+
+  useEffect(() => {
+    setReplyingTo(null);
+    setThreadRoot(null);
+    setShowGroupSettings(false);
+    attachments.clear();
+  }, [activeChat.id]);
 
-  // Poll for new messages every 2.5 seconds
+  // Fall back to polling every 2.5 seconds while the realtime socket is down
   usePolling(() => {
     queryClient.invalidateQueries({
       queryKey: ["/api/chats/" + activeChat.id + "/messages"]
     });
-  }, 2500, !!activeChat);
+    queryClient.invalidateQueries({
+      queryKey: ["/api/chats/" + activeChat.id]
+    });
+  }, 2500, !!activeChat && !realtimeConnected);
 
   const sendMessageMutation = useMutation({
     mutationFn: async (content: string) => {
       const response = await apiRequest("POST", "/api/messages", {
         chatId: activeChat.id,
-        senderId: currentUser.id,
         content,
+        parentId: replyingTo?.id,
+        attachmentIds: attachments.pending.map(attachment => attachment.id),
       });
       return response.json();
     },
     onSuccess: () => {
       setMessageInput("");
+      setReplyingTo(null);
+      attachments.clear();
+      typingSignal.stopped();
+      // Show the sent message rather than staying on an older anchor
+      if (focusMessage) onClearFocus?.();
       queryClient.invalidateQueries({
         queryKey: ["/api/chats/" + activeChat.id + "/messages"]
       });
       queryClient.invalidateQueries({
-        queryKey: ["/api/users/" + currentUser.id + "/chats"]
+        queryKey: ["/api/chats"]
       });
     },
     onError: (error: any) => {
@@ -59,12 +147,106 @@ export function ChatArea({ currentUser, activeChat }: ChatAreaProps) {
     },
   });
 
+  const editMessageMutation = useMutation({
+    mutationFn: async ({ messageId, content }: { messageId: number; content: string }) => {
+      const response = await apiRequest("PATCH", `/api/messages/${messageId}`, { content });
+      return response.json();
+    },
+    onSuccess: () => {
+      setEditingMessage(null);
+      setMessageInput("");
+      queryClient.invalidateQueries({
+        queryKey: ["/api/chats/" + activeChat.id + "/messages"]
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to edit message",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMessageMutation = useMutation({
+    mutationFn: async (messageId: number) => {
+      const response = await apiRequest("DELETE", `/api/messages/${messageId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["/api/chats/" + activeChat.id + "/messages"]
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["/api/chats"]
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete message",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isSaving = sendMessageMutation.isPending || editMessageMutation.isPending;
+  const canSend = !!messageInput.trim() || (!editingMessage && attachments.pending.length > 0);
+
   const handleSendMessage = () => {
     const content = messageInput.trim();
-    if (!content) return;
+    if (!canSend || attachments.isUploading) return;
+    if (editingMessage) {
+      if (content !== editingMessage.content) {
+        editMessageMutation.mutate({ messageId: editingMessage.id, content });
+      } else {
+        handleCancelEdit();
+      }
+      return;
+    }
     sendMessageMutation.mutate(content);
   };
 
+  const handleStartEdit = (message: MessageWithSender) => {
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setMessageInput(message.content);
+  };
+
+  const handleCancelEdit = () => {
+    setEditingMessage(null);
+    setMessageInput("");
+  };
+
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    if (files.length > 0) attachments.upload(files);
+  };
+
+  const handleStartReply = (message: MessageWithSender) => {
+    if (editingMessage) handleCancelEdit();
+    setReplyingTo(toQuote(message));
+  };
+
+  const handleConfirmDelete = () => {
+    if (pendingDelete) {
+      deleteMessageMutation.mutate(pendingDelete.id);
+    }
+    setPendingDelete(null);
+  };
+
+  const handleInputChange = (value: string) => {
+    setMessageInput(value);
+    // Edits are not announced
+    if (editingMessage) return;
+    if (value.trim()) {
+      typingSignal.typing();
+    } else {
+      typingSignal.stopped();
+    }
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -72,34 +254,86 @@ export function ChatArea({ currentUser, activeChat }: ChatAreaProps) {
     }
   };
 
-  // Scroll to bottom when new messages arrive
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape" && editingMessage) {
+      handleCancelEdit();
+    } else if (e.key === "Escape" && replyingTo) {
+      setReplyingTo(null);
+    }
+  };
+
+  const oldestMessageId = messages[0]?.id;
+  const newestMessageId = messages[messages.length - 1]?.id;
+
+  // Load older history at the top and, when anchored, newer history at the bottom
+  const handleScroll = () => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+
+    const distanceFromBottom = container.scrollHeight - container.scrollTop - container.clientHeight;
+    if (distanceFromBottom < 80 && hasNewer && !isFetchingNewer) {
+      fetchNewer();
+    }
+    if (container.scrollTop > 80 || !hasOlder || isFetchingOlder) return;
+
+    scrollAnchorRef.current = { height: container.scrollHeight, top: container.scrollTop };
+    fetchOlder();
+  };
+
+  // Keep the visible messages in place after older ones are prepended
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current;
+    const anchor = scrollAnchorRef.current;
+    if (!container || !anchor) return;
+
+    container.scrollTop = container.scrollHeight - anchor.height + anchor.top;
+    scrollAnchorRef.current = null;
+  }, [oldestMessageId]);
+
+  // Scroll to bottom when new messages arrive, unless reading older history
   useEffect(() => {
+    if (hasNewer) return;
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  }, [newestMessageId]);
+
+  // Bring a focused message into view once its history has loaded
+  const anchorLoaded = anchorMessageId !== undefined && messages.some(m => m.id === anchorMessageId);
+  useEffect(() => {
+    if (!focusMessage || !anchorLoaded || appliedFocusRef.current === focusMessage) return;
+    appliedFocusRef.current = focusMessage;
+
+    document.getElementById(`message-${anchorMessageId}`)?.scrollIntoView({ block: "center" });
+    setHighlightedMessageId(anchorMessageId!);
+    if (focusMessage.threadRootId !== null) {
+      setThreadRoot(messages.find(m => m.id === focusMessage.threadRootId) ?? null);
+    }
+
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => {
+      clearTimeout(timer);
+      setHighlightedMessageId(null);
+    };
+  }, [focusMessage, anchorLoaded]);
+
+  // `members` rather than `activeChat` so presence and profile stay live
+  const partner = activeChat.type === "direct"
+    ? members.find(m => m.userId !== currentUser.id)?.user
+    : undefined;
 
   const getChatName = () => {
     if (activeChat.type === "direct") {
-      const otherMember = activeChat.members.find(m => m.userId !== currentUser.id);
-      return otherMember?.user.username || "Unknown User";
+      return partner ? displayName(partner) : "Unknown User";
     }
-    return activeChat.name || "Unnamed Group";
+    return chat.name || "Unnamed Group";
   };
 
   const getChatStatus = () => {
     if (activeChat.type === "direct") {
-      const otherMember = activeChat.members.find(m => m.userId !== currentUser.id);
-      return otherMember?.user.isOnline ? "Online" : "Offline";
+      return partner ? presenceLabel(partner, now) : "Offline";
     }
-    return `${activeChat.members.length} members`;
+    return `${members.length} members`;
   };
 
-  const getChatAvatar = () => {
-    if (activeChat.type === "direct") {
-      const otherMember = activeChat.members.find(m => m.userId !== currentUser.id);
-      return otherMember?.user.username.charAt(0).toUpperCase() || "?";
-    }
-    return <Users className="w-4 h-4" />;
-  };
 
   const formatMessageTime = (date: Date) => {
     return new Date(date).toLocaleTimeString([], { 
@@ -108,8 +342,29 @@ export function ChatArea({ currentUser, activeChat }: ChatAreaProps) {
     });
   };
 
-  const getMessageAvatar = (sender: User) => {
-    return sender.username.charAt(0).toUpperCase();
+  const getSeenBy = (messageId: number) => {
+    return otherMembers.filter(m => (m.lastReadMessageId ?? 0) >= messageId);
+  };
+
+  const lastOwnMessageId = [...messages].reverse().find(m => m.senderId === currentUser.id && !m.systemEvent)?.id;
+
+  const renderReadReceipt = (messageId: number) => {
+    const seenBy = getSeenBy(messageId);
+
+    if (activeChat.type === "direct") {
+      return seenBy.length > 0
+        ? <CheckCheck className="inline w-3 h-3 ml-1 text-primary" aria-label="Seen" />
+        : <Check className="inline w-3 h-3 ml-1" aria-label="Sent" />;
+    }
+
+    // Groups list readers under the latest own message only
+    if (messageId !== lastOwnMessageId || seenBy.length === 0) return null;
+    const names = seenBy.map(m => displayName(m.user));
+    return (
+      <span className="block">
+        Seen by {names.length === otherMembers.length ? "everyone" : names.join(", ")}
+      </span>
+    );
   };
 
   return (
@@ -117,33 +372,51 @@ export function ChatArea({ currentUser, activeChat }: ChatAreaProps) {
       {/* Chat Header */}
       <div className="h-16 bg-white dark:bg-slate-800 border-b border-gray-200 dark:border-slate-700 flex items-center justify-between px-6">
         <div className="flex items-center space-x-3">
-          <Avatar className="w-10 h-10">
-            <AvatarFallback className="bg-gradient-to-br from-pink-400 to-purple-500 text-white font-semibold">
-              {getChatAvatar()}
-            </AvatarFallback>
-          </Avatar>
+          {partner ? (
+            <UserProfileCard user={partner}>
+              <UserAvatar user={partner} className="w-10 h-10" />
+            </UserProfileCard>
+          ) : (
+            <Avatar className="w-10 h-10">
+              <AvatarFallback className="bg-gradient-to-br from-pink-400 to-purple-500 text-white font-semibold">
+                <Users className="w-4 h-4" />
+              </AvatarFallback>
+            </Avatar>
+          )}
           <div>
             <h2 className="font-semibold">{getChatName()}</h2>
-            <p className="text-sm text-green-600 dark:text-green-400 flex items-center">
-              {activeChat.type === "direct" && (
-                <div className="w-2 h-2 bg-green-500 rounded-full mr-2" />
-              )}
+            <p className={`text-sm flex items-center ${
+              partner?.isOnline === false ? "text-gray-500 dark:text-gray-400" : "text-green-600 dark:text-green-400"
+            }`}>
+              {partner && <PresenceDot user={partner} className="w-2 h-2 mr-2" />}
               {getChatStatus()}
+              {partner && (
+                <CustomStatus user={partner} now={now} className="ml-2 max-w-xs text-gray-500 dark:text-gray-400" />
+              )}
             </p>
           </div>
         </div>
         <div className="flex items-center space-x-2">
-          <Button variant="ghost" size="icon">
+          <Button variant="ghost" size="icon" onClick={onSearch}>
             <Search className="w-4 h-4" />
           </Button>
-          <Button variant="ghost" size="icon">
-            <MoreVertical className="w-4 h-4" />
-          </Button>
+          {activeChat.type === "group" && (
+            <Button variant="ghost" size="icon" onClick={() => setShowGroupSettings(true)}>
+              <MoreVertical className="w-4 h-4" />
+            </Button>
+          )}
         </div>
       </div>
       
       {/* Messages Area */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-gray-50 dark:bg-slate-900">
+      <div
+        ref={scrollContainerRef}
+        onScroll={handleScroll}
+        className="flex-1 overflow-y-auto p-4 space-y-4 bg-gray-50 dark:bg-slate-900"
+      >
+        {isFetchingOlder && (
+          <p className="text-center text-xs text-gray-500 dark:text-gray-400">Loading earlier messages...</p>
+        )}
         {messages.length === 0 ? (
           <div className="text-center text-gray-500 dark:text-gray-400 mt-8">
             <p>No messages yet. Start the conversation!</p>
@@ -151,83 +424,201 @@ export function ChatArea({ currentUser, activeChat }: ChatAreaProps) {
         ) : (
           messages.map((message) => {
             const isOwn = message.senderId === currentUser.id;
+
+            // Group changes such as "Bob added Carol" sit centered in the timeline
+            if (message.systemEvent) {
+              return (
+                <p
+                  key={message.id}
+                  id={`message-${message.id}`}
+                  className={`text-center text-xs text-gray-500 dark:text-gray-400 rounded-lg transition-colors ${
+                    highlightedMessageId === message.id ? "bg-yellow-100 dark:bg-yellow-900/30" : ""
+                  }`}
+                >
+                  {message.content} · {formatMessageTime(new Date(message.sentAt))}
+                </p>
+              );
+            }
             
             return (
               <div
                 key={message.id}
-                className={`flex items-start space-x-3 animate-slide-up ${
+                id={`message-${message.id}`}
+                className={`flex items-start space-x-3 animate-slide-up rounded-lg transition-colors ${
                   isOwn ? "justify-end" : ""
-                }`}
+                } ${highlightedMessageId === message.id ? "bg-yellow-100 dark:bg-yellow-900/30" : ""}`}
               >
                 {!isOwn && (
-                  <Avatar className="w-8 h-8">
-                    <AvatarFallback className="bg-gradient-to-br from-pink-400 to-purple-500 text-white text-sm font-semibold">
-                      {getMessageAvatar(message.sender)}
-                    </AvatarFallback>
-                  </Avatar>
+                  <UserProfileCard user={message.sender}>
+                    <UserAvatar user={message.sender} className="w-8 h-8" fallbackClassName="text-sm" />
+                  </UserProfileCard>
                 )}
                 <div className={`max-w-[70%] ${isOwn ? "order-first" : ""}`}>
-                  <div
-                    className={`rounded-2xl px-4 py-3 shadow-sm ${
-                      isOwn
-                        ? "bg-primary text-white rounded-tr-lg"
-                        : "bg-white dark:bg-slate-800 rounded-tl-lg"
-                    }`}
+                  <MessageActions
+                    message={message}
+                    isOwn={isOwn}
+                    onEdit={handleStartEdit}
+                    onDelete={setPendingDelete}
+                    onReply={handleStartReply}
+                    onOpenThread={setThreadRoot}
                   >
-                    <p className="text-sm break-words">{message.content}</p>
-                  </div>
+                    {message.deletedAt ? (
+                      <div className="rounded-2xl px-4 py-3 border border-dashed border-gray-300 dark:border-slate-600">
+                        <p className="text-sm italic text-gray-500 dark:text-gray-400">This message was deleted</p>
+                      </div>
+                    ) : (
+                      <div
+                        className={`rounded-2xl px-4 py-3 shadow-sm ${
+                          isOwn
+                            ? "bg-primary text-white rounded-tr-lg"
+                            : "bg-white dark:bg-slate-800 rounded-tl-lg"
+                        }`}
+                      >
+                        {message.parent && <QuotedMessage quote={message.parent} className="mb-2" />}
+                        <AttachmentList attachments={message.attachments} />
+                        {message.content && <p className="text-sm break-words">{message.content}</p>}
+                      </div>
+                    )}
+                  </MessageActions>
+                  <ReactionBar message={message} currentUser={currentUser} align={isOwn ? "end" : "start"} />
+                  {message.thread && (
+                    <div className={`flex mt-1 ${isOwn ? "justify-end" : "justify-start"}`}>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2 text-xs text-primary"
+                        onClick={() => setThreadRoot(message)}
+                      >
+                        <MessagesSquare className="w-3 h-3 mr-1" />
+                        {message.thread.replyCount} {message.thread.replyCount === 1 ? "reply" : "replies"}
+                        {message.thread.unreadCount > 0 && (
+                          <span className="ml-1.5 w-2 h-2 rounded-full bg-primary" aria-label="Unread replies" />
+                        )}
+                      </Button>
+                    </div>
+                  )}
                   <p
                     className={`text-xs text-gray-500 dark:text-gray-400 mt-1 ${
                       isOwn ? "text-right mr-4" : "ml-4"
                     }`}
                   >
                     {formatMessageTime(new Date(message.sentAt))}
+                    {message.editedAt && !message.deletedAt && " · edited"}
+                    {isOwn && renderReadReceipt(message.id)}
                   </p>
                 </div>
                 {isOwn && (
-                  <Avatar className="w-8 h-8">
-                    <AvatarFallback className="bg-gradient-to-br from-blue-400 to-cyan-500 text-white text-sm font-semibold">
-                      {getMessageAvatar(currentUser)}
-                    </AvatarFallback>
-                  </Avatar>
+                  <UserAvatar user={currentUser} className="w-8 h-8" fallbackClassName="from-blue-400 to-cyan-500 text-sm" />
                 )}
               </div>
             );
           })
         )}
+        {isFetchingNewer && (
+          <p className="text-center text-xs text-gray-500 dark:text-gray-400">Loading newer messages...</p>
+        )}
         <div ref={messagesEndRef} />
       </div>
+      {focusMessage && (
+        <div className="flex justify-center -mt-12 mb-2 relative">
+          <Button size="sm" className="rounded-full shadow" onClick={onClearFocus}>
+            Jump to latest
+          </Button>
+        </div>
+      )}
       
       {/* Message Input */}
       <div className="bg-white dark:bg-slate-800 border-t border-gray-200 dark:border-slate-700 p-4">
+        {typingLabel && (
+          <p className="text-xs italic text-gray-500 dark:text-gray-400 mb-2 px-2">{typingLabel}</p>
+        )}
+        {editingMessage && (
+          <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400 mb-2 px-2">
+            <span>Editing message · press Esc to cancel</span>
+            <Button variant="ghost" size="icon" className="w-6 h-6" onClick={handleCancelEdit}>
+              <X className="w-3 h-3" />
+            </Button>
+          </div>
+        )}
+        {replyingTo && (
+          <QuotedMessage quote={replyingTo} onDismiss={() => setReplyingTo(null)} className="mb-2 mx-2" />
+        )}
+        <PendingAttachments attachments={attachments.pending} onRemove={attachments.remove} />
         <div className="flex items-center space-x-3">
-          <Button variant="ghost" size="icon">
-            <Paperclip className="w-4 h-4" />
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={ALLOWED_ATTACHMENT_TYPES.join(",")}
+            className="hidden"
+            onChange={handleFilesSelected}
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            disabled={!!editingMessage || attachments.isUploading}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Paperclip className={`w-4 h-4 ${attachments.isUploading ? "animate-pulse" : ""}`} />
           </Button>
           <div className="flex-1 relative">
             <Input
               type="text"
-              placeholder="Type a message..."
+              placeholder={editingMessage ? "Edit message..." : "Type a message..."}
               value={messageInput}
-              onChange={(e) => setMessageInput(e.target.value)}
+              onChange={(e) => handleInputChange(e.target.value)}
               onKeyPress={handleKeyPress}
-              disabled={sendMessageMutation.isPending}
+              onKeyDown={handleKeyDown}
+              disabled={isSaving}
               className="rounded-full pr-12"
             />
-            <Button variant="ghost" size="icon" className="absolute right-2 top-1/2 transform -translate-y-1/2">
-              <Smile className="w-4 h-4" />
-            </Button>
+            <EmojiPicker onSelect={(emoji) => setMessageInput(prev => prev + emoji)}>
+              <Button variant="ghost" size="icon" className="absolute right-2 top-1/2 transform -translate-y-1/2">
+                <Smile className="w-4 h-4" />
+              </Button>
+            </EmojiPicker>
           </div>
           <Button
             onClick={handleSendMessage}
-            disabled={sendMessageMutation.isPending || !messageInput.trim()}
+            disabled={isSaving || attachments.isUploading || !canSend}
             size="icon"
             className="rounded-full"
           >
-            <Send className="w-4 h-4" />
+            {editingMessage ? <Check className="w-4 h-4" /> : <Send className="w-4 h-4" />}
           </Button>
         </div>
       </div>
+
+      <ThreadPanel
+        currentUser={currentUser}
+        root={liveThreadRoot}
+        onClose={() => setThreadRoot(null)}
+        onDelete={setPendingDelete}
+      />
+
+      {activeChat.type === "group" && (
+        <GroupSettingsSheet
+          open={showGroupSettings}
+          onOpenChange={setShowGroupSettings}
+          chat={chat}
+          currentUser={currentUser}
+        />
+      )}
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete message?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Everyone in this chat will see that the message was deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
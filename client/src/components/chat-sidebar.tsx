@@ -1,15 +1,22 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { useTheme } from "@/components/theme-provider";
+import { apiRequest } from "@/lib/queryClient";
+import { displayName } from "@/lib/utils";
+import { customStatus, presenceLabel, useNow } from "@/hooks/use-presence";
 import { CreateGroupModal } from "@/components/create-group-modal";
 import { FriendDiscoveryModal } from "./friend-discovery-modal";
-import { MessageCircle, Users, UserPlus, Search, Plus, Moon, Sun, LogOut, Music } from "lucide-react";
-import type { User, ChatWithMembers } from "@shared/schema";
+import { RoomDirectory } from "@/components/room-directory";
+import { StatusMenu } from "@/components/status-menu";
+import { CustomStatus, PresenceDot } from "@/components/presence-indicator";
+import { UserAvatar } from "@/components/user-avatar";
+import { MessageCircle, Users, UserPlus, Search, Plus, Moon, Sun, LogOut, Music, Compass } from "lucide-react";
+import type { User, ChatWithMembers, Contacts } from "@shared/schema";
 
 interface ChatSidebarProps {
   currentUser: User;
@@ -17,6 +24,7 @@ interface ChatSidebarProps {
   onTabChange: (tab: "direct" | "groups" | "music") => void;
   onChatSelect: (chat: ChatWithMembers) => void;
   onStartDirectChat: (user: User) => void;
+  onSearchMessages: (query: string) => void;
   activeChatId?: number;
 }
 
@@ -26,27 +34,42 @@ export function ChatSidebar({
   onTabChange, 
   onChatSelect, 
   onStartDirectChat,
+  onSearchMessages,
   activeChatId 
 }: ChatSidebarProps) {
   const [searchQuery, setSearchQuery] = useState("");
   const [showCreateGroup, setShowCreateGroup] = useState(false);
   const [showCreateMusic, setShowCreateMusic] = useState(false);
   const [showFriendDiscovery, setShowFriendDiscovery] = useState(false);
+  const [showDirectory, setShowDirectory] = useState(false);
   const { theme, toggleTheme } = useTheme();
   const [, setLocation] = useLocation();
+  const queryClient = useQueryClient();
+  const now = useNow();
 
   const { data: chats = [] } = useQuery<ChatWithMembers[]>({
-    queryKey: ["/api/users/" + currentUser.id + "/chats"],
+    queryKey: ["/api/chats"],
   });
 
   const { data: onlineUsers = [] } = useQuery<User[]>({
     queryKey: ["/api/users/online"],
   });
 
+  const { data: contacts } = useQuery<Contacts>({
+    queryKey: ["/api/friends"],
+  });
+  const friendRequestCount = contacts?.incoming.length ?? 0;
+
   const directChats = chats.filter(chat => chat.type === "direct");
   const groupChats = chats.filter(chat => chat.type === "group");
   const musicChats = chats.filter(chat => chat.type === "music");
 
+  // The other person in a direct chat
+  const getDirectPartner = (chat: ChatWithMembers) => {
+    if (chat.type !== "direct") return undefined;
+    return chat.members.find(m => m.userId !== currentUser.id)?.user;
+  };
+
   const getFilteredChats = () => {
     let targetChats: ChatWithMembers[] = [];
     if (activeTab === "direct") targetChats = directChats;
@@ -57,8 +80,11 @@ export function ChatSidebar({
       if (!searchQuery) return true;
       
       if (chat.type === "direct") {
-        const otherMember = chat.members.find(m => m.userId !== currentUser.id);
-        return otherMember?.user.username.toLowerCase().includes(searchQuery.toLowerCase());
+        const partner = getDirectPartner(chat);
+        return !!partner && (
+          partner.username.toLowerCase().includes(searchQuery.toLowerCase()) ||
+          displayName(partner).toLowerCase().includes(searchQuery.toLowerCase())
+        );
       } else {
         return chat.name?.toLowerCase().includes(searchQuery.toLowerCase());
       }
@@ -67,8 +93,13 @@ export function ChatSidebar({
 
   const filteredChats = getFilteredChats();
 
-  const handleExit = () => {
-    localStorage.removeItem("currentUser");
+  const handleExit = async () => {
+    try {
+      await apiRequest("POST", "/api/logout");
+    } catch (error) {
+      // Session may already be gone; leave anyway
+    }
+    queryClient.clear();
     setLocation("/");
   };
 
@@ -77,39 +108,26 @@ export function ChatSidebar({
     setShowFriendDiscovery(false);
   };
 
-  const getAvatarContent = (chat: ChatWithMembers) => {
-    if (chat.type === "direct") {
-      const otherMember = chat.members.find(m => m.userId !== currentUser.id);
-      return otherMember?.user.username.charAt(0).toUpperCase() || "?";
-    }
-    return <Users className="w-4 h-4" />;
-  };
-
   const getChatName = (chat: ChatWithMembers) => {
     if (chat.type === "direct") {
-      const otherMember = chat.members.find(m => m.userId !== currentUser.id);
-      return otherMember?.user.username || "Unknown User";
+      const partner = getDirectPartner(chat);
+      return partner ? displayName(partner) : "Unknown User";
     }
     return chat.name || "Unnamed Group";
   };
 
   const getChatPreview = (chat: ChatWithMembers) => {
     if (chat.lastMessage) {
+      if (chat.lastMessage.systemEvent) return chat.lastMessage.content;
       const isOwn = chat.lastMessage.senderId === currentUser.id;
-      const prefix = isOwn ? "You: " : `${chat.lastMessage.sender.username}: `;
-      return prefix + chat.lastMessage.content;
+      const prefix = isOwn ? "You: " : `${displayName(chat.lastMessage.sender)}: `;
+      if (chat.lastMessage.deletedAt) return prefix + "Message deleted";
+      if (chat.lastMessage.track && !chat.lastMessage.content) return prefix + "🎵 " + chat.lastMessage.track.title;
+      return prefix + (chat.lastMessage.content || "Sent an attachment");
     }
     return "No messages yet";
   };
 
-  const getOnlineStatus = (chat: ChatWithMembers) => {
-    if (chat.type === "direct") {
-      const otherMember = chat.members.find(m => m.userId !== currentUser.id);
-      return otherMember?.user.isOnline;
-    }
-    return false; // Groups don't have online status
-  };
-
   const formatTime = (date: Date) => {
     const now = new Date();
     const diff = now.getTime() - date.getTime();
@@ -134,7 +152,7 @@ export function ChatSidebar({
             </div>
             <div>
               <h1 className="font-bold text-lg">Connect</h1>
-              <p className="text-sm text-gray-500 dark:text-gray-400">Welcome, {currentUser.username}!</p>
+              <StatusMenu currentUser={currentUser} />
             </div>
           </div>
           <div className="flex items-center space-x-1">
@@ -158,6 +176,17 @@ export function ChatSidebar({
             className="pl-10 text-sm"
           />
         </div>
+        {searchQuery.trim() && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full justify-start mt-2 text-sm text-primary"
+            onClick={() => onSearchMessages(searchQuery.trim())}
+          >
+            <Search className="w-4 h-4 mr-2" />
+            Search messages for "{searchQuery.trim()}"
+          </Button>
+        )}
       </div>
       
       {/* Chat Tabs */}
@@ -209,28 +238,45 @@ export function ChatSidebar({
             size="sm"
           >
             <UserPlus className="w-4 h-4 mr-2" />
-            Find Friends
+            Friends
+            {friendRequestCount > 0 && (
+              <Badge variant="secondary" className="ml-2 text-xs">
+                {friendRequestCount}
+              </Badge>
+            )}
           </Button>
         )}
         {activeTab === "groups" && (
-          <Button 
-            onClick={() => setShowCreateGroup(true)}
-            className="w-full"
-            size="sm"
-          >
-            <Plus className="w-4 h-4 mr-2" />
-            Create Group
-          </Button>
+          <div className="flex space-x-2">
+            <Button 
+              onClick={() => setShowCreateGroup(true)}
+              className="flex-1"
+              size="sm"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Create Group
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setShowDirectory(true)}>
+              <Compass className="w-4 h-4 mr-2" />
+              Browse
+            </Button>
+          </div>
         )}
         {activeTab === "music" && (
-          <Button 
-            onClick={() => setShowCreateMusic(true)}
-            className="w-full"
-            size="sm"
-          >
-            <Music className="w-4 h-4 mr-2" />
-            Create Music Room
-          </Button>
+          <div className="flex space-x-2">
+            <Button 
+              onClick={() => setShowCreateMusic(true)}
+              className="flex-1"
+              size="sm"
+            >
+              <Music className="w-4 h-4 mr-2" />
+              Create Music Room
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setShowDirectory(true)}>
+              <Compass className="w-4 h-4 mr-2" />
+              Browse
+            </Button>
+          </div>
         )}
       </div>
       
@@ -243,48 +289,62 @@ export function ChatSidebar({
             {activeTab === "music" && "No music rooms yet"}
           </div>
         ) : (
-          filteredChats.map((chat) => (
-            <div
-              key={chat.id}
-              onClick={() => onChatSelect(chat)}
-              className={`p-3 hover:bg-gray-50 dark:hover:bg-slate-700 cursor-pointer border-l-4 transition-all ${
-                activeChatId === chat.id
-                  ? "border-primary bg-gray-50 dark:bg-slate-700"
-                  : "border-transparent hover:border-primary"
-              }`}
-            >
-              <div className="flex items-center space-x-3">
-                <div className="relative">
-                  <Avatar className="w-10 h-10">
-                    <AvatarFallback className="bg-gradient-to-br from-pink-400 to-purple-500 text-white font-semibold">
-                      {getAvatarContent(chat)}
-                    </AvatarFallback>
-                  </Avatar>
-                  {getOnlineStatus(chat) && (
-                    <div className="absolute -bottom-1 -right-1 w-4 h-4 bg-green-500 rounded-full border-2 border-white dark:border-slate-800" />
-                  )}
-                </div>
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-center justify-between">
-                    <p className="font-semibold text-sm truncate">{getChatName(chat)}</p>
-                    {chat.lastMessage && (
-                      <span className="text-xs text-gray-500 dark:text-gray-400">
-                        {formatTime(new Date(chat.lastMessage.sentAt))}
-                      </span>
+          filteredChats.map((chat) => {
+            const partner = getDirectPartner(chat);
+            return (
+              <div
+                key={chat.id}
+                onClick={() => onChatSelect(chat)}
+                className={`p-3 hover:bg-gray-50 dark:hover:bg-slate-700 cursor-pointer border-l-4 transition-all ${
+                  activeChatId === chat.id
+                    ? "border-primary bg-gray-50 dark:bg-slate-700"
+                    : "border-transparent hover:border-primary"
+                }`}
+              >
+                <div className="flex items-center space-x-3">
+                  <div className="relative">
+                    {partner ? (
+                      <UserAvatar user={partner} className="w-10 h-10" />
+                    ) : (
+                      <Avatar className="w-10 h-10">
+                        <AvatarFallback className="bg-gradient-to-br from-pink-400 to-purple-500 text-white font-semibold">
+                          <Users className="w-4 h-4" />
+                        </AvatarFallback>
+                      </Avatar>
+                    )}
+                    {partner && (
+                      <PresenceDot user={partner} className="absolute -bottom-1 -right-1 w-4 h-4 border-2 border-white dark:border-slate-800" />
                     )}
                   </div>
-                  <p className="text-sm text-gray-600 dark:text-gray-400 truncate">
-                    {getChatPreview(chat)}
-                  </p>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between">
+                      <p className="font-semibold text-sm truncate">{getChatName(chat)}</p>
+                      {chat.lastMessage && (
+                        <span className="text-xs text-gray-500 dark:text-gray-400">
+                          {formatTime(new Date(chat.lastMessage.sentAt))}
+                        </span>
+                      )}
+                    </div>
+                    {partner && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                        {customStatus(partner, now)
+                          ? <CustomStatus user={partner} now={now} />
+                          : presenceLabel(partner, now)}
+                      </p>
+                    )}
+                    <p className="text-sm text-gray-600 dark:text-gray-400 truncate">
+                      {getChatPreview(chat)}
+                    </p>
+                  </div>
+                  {!!chat.unreadCount && chat.unreadCount > 0 && (
+                    <Badge variant="default" className="ml-2">
+                      {chat.unreadCount}
+                    </Badge>
+                  )}
                 </div>
-                {chat.unreadCount && chat.unreadCount > 0 && (
-                  <Badge variant="default" className="ml-2">
-                    {chat.unreadCount}
-                  </Badge>
-                )}
               </div>
-            </div>
-          ))
+            );
+          })
         )}
       </div>
 
@@ -304,6 +364,13 @@ export function ChatSidebar({
         roomType="music"
       />
       
+      <RoomDirectory
+        open={showDirectory}
+        onOpenChange={setShowDirectory}
+        roomType={activeTab === "music" ? "music" : "group"}
+        onOpen={onChatSelect}
+      />
+
       <FriendDiscoveryModal
         open={showFriendDiscovery}
         onOpenChange={setShowFriendDiscovery}
@@ -5,11 +5,24 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { UserAvatar } from "@/components/user-avatar";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { X } from "lucide-react";
-import type { User } from "@shared/schema";
+import { displayName } from "@/lib/utils";
+import { X, ListMusic } from "lucide-react";
+import type { User, ChatWithMembers, PlaylistFormat, PlaylistImportResult } from "@shared/schema";
+
+const PLAYLIST_EXTENSIONS: Record<string, PlaylistFormat> = {
+  ".m3u": "m3u",
+  ".m3u8": "m3u8",
+  ".xspf": "xspf",
+  ".json": "json",
+};
+
+function playlistFormat(fileName: string): PlaylistFormat | undefined {
+  const extension = fileName.slice(fileName.lastIndexOf(".")).toLowerCase();
+  return PLAYLIST_EXTENSIONS[extension];
+}
 
 interface CreateGroupModalProps {
   open: boolean;
@@ -28,6 +41,8 @@ export function CreateGroupModal({
 }: CreateGroupModalProps) {
   const [groupName, setGroupName] = useState("");
   const [selectedMembers, setSelectedMembers] = useState<number[]>([]);
+  const [playlistFile, setPlaylistFile] = useState<File | null>(null);
+  const [importResult, setImportResult] = useState<PlaylistImportResult | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -36,20 +51,48 @@ export function CreateGroupModal({
       const response = await apiRequest("POST", "/api/chats", {
         name,
         type: roomType,
-        createdBy: currentUser.id,
         memberIds,
       });
-      return response.json();
+      const chat: ChatWithMembers = await response.json();
+
+      // A playlist seeds the new room's queue. The room exists either way, so a
+      // playlist that can't be read is reported without failing the creation.
+      let result: PlaylistImportResult | null = null;
+      if (roomType === "music" && playlistFile) {
+        try {
+          const imported = await apiRequest("POST", `/api/chats/${chat.id}/playlist`, {
+            content: await playlistFile.text(),
+            format: playlistFormat(playlistFile.name),
+          });
+          result = await imported.json();
+        } catch (error: any) {
+          toast({
+            title: "Playlist not imported",
+            description: error.message || "Failed to read the playlist",
+            variant: "destructive",
+          });
+        }
+      }
+      return result;
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       toast({
         title: "Success",
-        description: roomType === "music" ? "Music room created successfully!" : "Group created successfully!",
+        description: roomType === "music"
+          ? result
+            ? `Music room created with ${result.added} ${result.added === 1 ? "song" : "songs"} queued!`
+            : "Music room created successfully!"
+          : "Group created successfully!",
       });
       queryClient.invalidateQueries({
-        queryKey: ["/api/users/" + currentUser.id + "/chats"]
+        queryKey: ["/api/chats"]
       });
-      handleClose();
+      if (result && result.errors.length > 0) {
+        // Stay open to show which entries were skipped
+        setImportResult(result);
+      } else {
+        handleClose();
+      }
     },
     onError: (error: any) => {
       toast({
@@ -63,6 +106,8 @@ export function CreateGroupModal({
   const handleClose = () => {
     setGroupName("");
     setSelectedMembers([]);
+    setPlaylistFile(null);
+    setImportResult(null);
     onOpenChange(false);
   };
 
@@ -121,74 +166,108 @@ export function CreateGroupModal({
           </div>
         </DialogHeader>
         
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div>
-            <Label htmlFor="groupName">
-              {roomType === "music" ? "Music Room Name" : "Group Name"}
-            </Label>
-            <Input
-              id="groupName"
-              type="text"
-              placeholder={roomType === "music" ? "Enter music room name" : "Enter group name"}
-              value={groupName}
-              onChange={(e) => setGroupName(e.target.value)}
-              disabled={createGroupMutation.isPending}
-            />
+        {importResult ? (
+          <div className="space-y-4">
+            <p className="text-sm">
+              Queued {importResult.added} {importResult.added === 1 ? "song" : "songs"}.
+              {" "}{importResult.errors.length} {importResult.errors.length === 1 ? "entry was" : "entries were"} skipped:
+            </p>
+            <ul className="max-h-48 overflow-y-auto border rounded-md p-2 space-y-1">
+              {importResult.errors.map((error) => (
+                <li key={error.entry} className="text-sm">
+                  <span className="font-medium">#{error.entry}</span>
+                  {error.location && <span className="text-gray-500 dark:text-gray-400 break-all"> {error.location}</span>}
+                  <span className="text-red-600 dark:text-red-400"> — {error.message}</span>
+                </li>
+              ))}
+            </ul>
+            <Button className="w-full" onClick={handleClose}>
+              Done
+            </Button>
           </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="groupName">
+                {roomType === "music" ? "Music Room Name" : "Group Name"}
+              </Label>
+              <Input
+                id="groupName"
+                type="text"
+                placeholder={roomType === "music" ? "Enter music room name" : "Enter group name"}
+                value={groupName}
+                onChange={(e) => setGroupName(e.target.value)}
+                disabled={createGroupMutation.isPending}
+              />
+            </div>
           
-          <div>
-            <Label>Add Members</Label>
-            <div className="space-y-2 max-h-32 overflow-y-auto border rounded-md p-2">
-              {availableUsers.length === 0 ? (
-                <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-2">
-                  No other users online
-                </p>
-              ) : (
-                availableUsers.map((user) => (
-                  <div
-                    key={user.id}
-                    className="flex items-center space-x-3 p-2 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700 cursor-pointer"
-                    onClick={() => handleMemberToggle(user.id)}
-                  >
-                    <Checkbox
-                      checked={selectedMembers.includes(user.id)}
-                      onChange={() => handleMemberToggle(user.id)}
-                    />
-                    <Avatar className="w-8 h-8">
-                      <AvatarFallback className="bg-gradient-to-br from-blue-400 to-cyan-500 text-white text-sm font-semibold">
-                        {user.username.charAt(0).toUpperCase()}
-                      </AvatarFallback>
-                    </Avatar>
-                    <span className="text-sm">{user.username}</span>
-                  </div>
-                ))
-              )}
+            <div>
+              <Label>Add Members</Label>
+              <div className="space-y-2 max-h-32 overflow-y-auto border rounded-md p-2">
+                {availableUsers.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-2">
+                    No other users online
+                  </p>
+                ) : (
+                  availableUsers.map((user) => (
+                    <div
+                      key={user.id}
+                      className="flex items-center space-x-3 p-2 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700 cursor-pointer"
+                      onClick={() => handleMemberToggle(user.id)}
+                    >
+                      <Checkbox
+                        checked={selectedMembers.includes(user.id)}
+                        onChange={() => handleMemberToggle(user.id)}
+                      />
+                      <UserAvatar user={user} className="w-8 h-8" fallbackClassName="from-blue-400 to-cyan-500 text-sm" />
+                      <span className="text-sm">{displayName(user)}</span>
+                    </div>
+                  ))
+                )}
+              </div>
             </div>
-          </div>
           
-          <div className="flex space-x-3 pt-4">
-            <Button
-              type="button"
-              variant="outline"
-              onClick={handleClose}
-              className="flex-1"
-              disabled={createGroupMutation.isPending}
-            >
-              Cancel
-            </Button>
-            <Button
-              type="submit"
-              className="flex-1"
-              disabled={createGroupMutation.isPending}
-            >
-              {createGroupMutation.isPending 
-                ? "Creating..." 
-                : roomType === "music" 
-                  ? "Create Music Room" 
-                  : "Create Group"}
-            </Button>
-          </div>
-        </form>
+            {roomType === "music" && (
+              <div>
+                <Label htmlFor="playlistFile">Start from a Playlist (optional)</Label>
+                <Input
+                  id="playlistFile"
+                  type="file"
+                  accept=".m3u,.m3u8,.xspf,.json"
+                  onChange={(e) => setPlaylistFile(e.target.files?.[0] ?? null)}
+                  disabled={createGroupMutation.isPending}
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 flex items-center">
+                  <ListMusic className="w-3 h-3 mr-1" />
+                  M3U, M3U8, XSPF or JSON; its songs join the room's queue
+                </p>
+              </div>
+            )}
+
+            <div className="flex space-x-3 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleClose}
+                className="flex-1"
+                disabled={createGroupMutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                className="flex-1"
+                disabled={createGroupMutation.isPending}
+              >
+                {createGroupMutation.isPending 
+                  ? "Creating..." 
+                  : roomType === "music" 
+                    ? "Create Music Room" 
+                    : "Create Group"}
+              </Button>
+            </div>
+          </form>
+        )}
       </DialogContent>
     </Dialog>
   );
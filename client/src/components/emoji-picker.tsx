@@ -0,0 +1,82 @@
+import { useState } from "react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+
+const EMOJIS: { emoji: string; name: string }[] = [
+  { emoji: "👍", name: "thumbs up like yes" },
+  { emoji: "👎", name: "thumbs down dislike no" },
+  { emoji: "❤️", name: "heart love" },
+  { emoji: "😂", name: "joy laugh tears" },
+  { emoji: "😮", name: "wow surprised open mouth" },
+  { emoji: "😢", name: "sad cry tear" },
+  { emoji: "😡", name: "angry mad" },
+  { emoji: "🎉", name: "party tada celebrate" },
+  { emoji: "🔥", name: "fire hot lit" },
+  { emoji: "👏", name: "clap applause" },
+  { emoji: "🙏", name: "pray thanks please" },
+  { emoji: "😀", name: "grin smile happy" },
+  { emoji: "😊", name: "blush smile" },
+  { emoji: "😍", name: "heart eyes love" },
+  { emoji: "🤔", name: "thinking hmm" },
+  { emoji: "😎", name: "cool sunglasses" },
+  { emoji: "🥳", name: "party face celebrate" },
+  { emoji: "😴", name: "sleep tired" },
+  { emoji: "🤯", name: "mind blown" },
+  { emoji: "💯", name: "hundred perfect" },
+  { emoji: "✅", name: "check done" },
+  { emoji: "👀", name: "eyes look" },
+  { emoji: "🎵", name: "music note song" },
+  { emoji: "🎶", name: "music notes song" },
+  { emoji: "🎧", name: "headphones listen" },
+  { emoji: "🕺", name: "dance man" },
+  { emoji: "💃", name: "dance woman" },
+  { emoji: "🤘", name: "rock on metal" },
+];
+
+interface EmojiPickerProps {
+  onSelect: (emoji: string) => void;
+  children: React.ReactNode;
+}
+
+// Searchable emoji list in a popover; `children` is the trigger
+export function EmojiPicker({ onSelect, children }: EmojiPickerProps) {
+  const [open, setOpen] = useState(false);
+
+  const handleSelect = (emoji: string) => {
+    onSelect(emoji);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent className="w-64 p-0" align="end">
+        <Command>
+          <CommandInput placeholder="Search emoji..." />
+          <CommandList>
+            <CommandEmpty>No emoji found.</CommandEmpty>
+            <CommandGroup className="[&_[cmdk-group-items]]:grid [&_[cmdk-group-items]]:grid-cols-7">
+              {EMOJIS.map(({ emoji, name }) => (
+                <CommandItem
+                  key={emoji}
+                  value={name}
+                  onSelect={() => handleSelect(emoji)}
+                  className="justify-center text-lg p-1"
+                >
+                  {emoji}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,15 +1,26 @@
-import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription,
+  AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
-import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { X, Search, MessageCircle, UserCheck } from "lucide-react";
-import type { User } from "@shared/schema";
+import { presenceLabel, useNow } from "@/hooks/use-presence";
+import { NO_CONTACTS, useFriendshipMutation, type FriendAction } from "@/hooks/use-friendship";
+import { CustomStatus, PresenceDot } from "@/components/presence-indicator";
+import { UserAvatar } from "@/components/user-avatar";
+import { UserProfileCard } from "@/components/user-profile-card";
+import { displayName, formatRelativeTime } from "@/lib/utils";
+import { X, Search, MessageCircle, UserCheck, UserPlus, Check, MoreVertical } from "lucide-react";
+import type { Contacts, User } from "@shared/schema";
 
 interface FriendDiscoveryModalProps {
   open: boolean;
@@ -18,32 +29,58 @@ interface FriendDiscoveryModalProps {
   onStartChat: (user: User) => void;
 }
 
-export function FriendDiscoveryModal({ 
-  open, 
-  onOpenChange, 
+// The user's friends, their pending friend requests, the people they blocked
+// or muted, and a search for anyone else to befriend or chat with
+export function FriendDiscoveryModal({
+  open,
+  onOpenChange,
   currentUser,
   onStartChat
 }: FriendDiscoveryModalProps) {
   const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [blocking, setBlocking] = useState<User | null>(null);
   const { toast } = useToast();
-  const queryClient = useQueryClient();
+  const now = useNow();
 
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(searchQuery.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const { data: contacts = NO_CONTACTS } = useQuery<Contacts>({
+    queryKey: ["/api/friends"],
+    enabled: open,
+  });
+
+  // Without a search, suggest whoever is online
   const { data: onlineUsers = [] } = useQuery<User[]>({
     queryKey: ["/api/users/online"],
-    enabled: open,
+    enabled: open && !debouncedQuery,
   });
 
-  const availableFriends = onlineUsers.filter(user => 
-    user.id !== currentUser.id &&
-    user.username.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  const { data: searchResults = [] } = useQuery<User[]>({
+    queryKey: ["/api/users/search?q=" + encodeURIComponent(debouncedQuery)],
+    enabled: open && !!debouncedQuery,
+  });
+
+  const people = (debouncedQuery ? searchResults : onlineUsers).filter(user => user.id !== currentUser.id);
+
+  const friendIds = new Set(contacts.friends.map(contact => contact.user.id));
+  const incomingIds = new Set(contacts.incoming.map(contact => contact.user.id));
+  const outgoingIds = new Set(contacts.outgoing.map(contact => contact.user.id));
+  const mutedIds = new Set(contacts.muted.map(contact => contact.user.id));
+
+  const friendMutation = useFriendshipMutation();
+
+  const changeFriendship = (action: FriendAction, user: User) => friendMutation.mutate({ action, user });
 
   const handleStartChat = (user: User) => {
     onStartChat(user);
     onOpenChange(false);
     toast({
       title: "Chat Started",
-      description: `Starting conversation with ${user.username}`,
+      description: `Starting conversation with ${displayName(user)}`,
     });
   };
 
@@ -52,12 +89,87 @@ export function FriendDiscoveryModal({
     onOpenChange(false);
   };
 
+  const renderUser = (user: User, actions: React.ReactNode, detail?: string) => (
+    <div
+      key={user.id}
+      className="flex items-center justify-between p-3 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors"
+    >
+      <div className="flex items-center space-x-3 min-w-0">
+        <div className="relative shrink-0">
+          <UserProfileCard user={user}>
+            <UserAvatar user={user} className="w-10 h-10" fallbackClassName="from-blue-400 to-cyan-500" />
+          </UserProfileCard>
+          <PresenceDot user={user} className="absolute -bottom-1 -right-1 w-3 h-3 border-2 border-white dark:border-slate-800" />
+        </div>
+        <div className="min-w-0">
+          <p className="font-medium truncate">{displayName(user)}</p>
+          <div className="flex items-center space-x-1">
+            <Badge variant="secondary" className="text-xs shrink-0">
+              {detail ?? presenceLabel(user, now)}
+            </Badge>
+            <CustomStatus user={user} now={now} className="text-xs text-gray-500 dark:text-gray-400" />
+          </div>
+        </div>
+      </div>
+      <div className="flex items-center space-x-1 shrink-0">{actions}</div>
+    </div>
+  );
+
+  const chatButton = (user: User) => {
+    // Friends-only users can't be messaged until they accept a request
+    const friendsOnly = user.directMessagesFrom === "friends" && !friendIds.has(user.id);
+    return (
+      <Button
+        size="sm"
+        disabled={friendsOnly}
+        title={friendsOnly ? `${displayName(user)} only accepts direct messages from friends` : undefined}
+        onClick={() => handleStartChat(user)}
+        className="flex items-center space-x-2"
+      >
+        <MessageCircle className="w-4 h-4" />
+        <span>Chat</span>
+      </Button>
+    );
+  };
+
+  const moreMenu = (user: User) => (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size="icon" variant="ghost" className="w-8 h-8">
+          <MoreVertical className="w-4 h-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem
+          disabled={friendMutation.isPending}
+          onClick={() => changeFriendship(mutedIds.has(user.id) ? "unmute" : "mute", user)}
+        >
+          {mutedIds.has(user.id) ? "Unmute" : "Mute"}
+        </DropdownMenuItem>
+        <DropdownMenuItem className="text-red-600" onClick={() => setBlocking(user)}>
+          Block
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+
+  const emptyState = (message: string, hint?: string) => (
+    <div className="text-center py-8">
+      <UserCheck className="w-12 h-12 text-gray-400 mx-auto mb-3" />
+      <p className="text-sm text-gray-500 dark:text-gray-400">{message}</p>
+      {hint && <p className="text-xs text-gray-400 mt-1">{hint}</p>}
+    </div>
+  );
+
+  const requestCount = contacts.incoming.length;
+  const blockedCount = contacts.blocked.length + contacts.muted.length;
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
           <div className="flex items-center justify-between">
-            <DialogTitle>Discover Friends</DialogTitle>
+            <DialogTitle>Friends</DialogTitle>
             <Button
               variant="ghost"
               size="icon"
@@ -67,75 +179,161 @@ export function FriendDiscoveryModal({
             </Button>
           </div>
         </DialogHeader>
-        
-        <div className="space-y-4">
-          <div>
-            <Label htmlFor="search">Search Friends</Label>
+
+        <Tabs defaultValue="friends">
+          <TabsList className="grid w-full grid-cols-4 mb-3">
+            <TabsTrigger value="friends">Friends ({contacts.friends.length})</TabsTrigger>
+            <TabsTrigger value="requests">
+              Requests{requestCount > 0 && ` (${requestCount})`}
+            </TabsTrigger>
+            <TabsTrigger value="find">Find</TabsTrigger>
+            <TabsTrigger value="blocked">
+              Blocked{blockedCount > 0 && ` (${blockedCount})`}
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="friends">
+            <div className="space-y-2 max-h-80 overflow-y-auto border rounded-md p-2">
+              {contacts.friends.length === 0
+                ? emptyState("No friends yet", "Find people and send them a friend request")
+                : contacts.friends.map(({ user }) => renderUser(user, (
+                  <>
+                    {chatButton(user)}
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={friendMutation.isPending}
+                      onClick={() => changeFriendship("remove", user)}
+                    >
+                      Remove
+                    </Button>
+                    {moreMenu(user)}
+                  </>
+                )))}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="requests">
+            <div className="space-y-2 max-h-80 overflow-y-auto border rounded-md p-2">
+              {contacts.incoming.length === 0 && contacts.outgoing.length === 0 && emptyState("No pending friend requests")}
+              {contacts.incoming.map(({ user, since }) => renderUser(user, (
+                <>
+                  <Button size="sm" disabled={friendMutation.isPending} onClick={() => changeFriendship("accept", user)}>
+                    <Check className="w-4 h-4 mr-1" />
+                    Accept
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={friendMutation.isPending}
+                    onClick={() => changeFriendship("decline", user)}
+                  >
+                    Decline
+                  </Button>
+                </>
+              ), `Asked ${formatRelativeTime(new Date(since))}`))}
+              {contacts.outgoing.map(({ user, since }) => renderUser(user, (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={friendMutation.isPending}
+                  onClick={() => changeFriendship("remove", user)}
+                >
+                  Cancel
+                </Button>
+              ), `Sent ${formatRelativeTime(new Date(since))}`))}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="find" className="space-y-2">
             <div className="relative">
               <Search className="absolute left-3 top-2.5 w-4 h-4 text-gray-400" />
               <Input
                 id="search"
                 type="text"
-                placeholder="Search by username..."
+                placeholder="Search by name..."
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 className="pl-10"
               />
             </div>
-          </div>
-          
-          <div>
-            <Label>Online Friends ({availableFriends.length})</Label>
             <div className="space-y-2 max-h-64 overflow-y-auto border rounded-md p-2">
-              {availableFriends.length === 0 ? (
-                <div className="text-center py-8">
-                  <UserCheck className="w-12 h-12 text-gray-400 mx-auto mb-3" />
-                  <p className="text-sm text-gray-500 dark:text-gray-400">
-                    {searchQuery ? "No friends found matching your search" : "No other friends online right now"}
-                  </p>
-                  <p className="text-xs text-gray-400 mt-1">
-                    Friends will appear here when they're online
-                  </p>
-                </div>
-              ) : (
-                availableFriends.map((user) => (
-                  <div
-                    key={user.id}
-                    className="flex items-center justify-between p-3 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors"
-                  >
-                    <div className="flex items-center space-x-3">
-                      <div className="relative">
-                        <Avatar className="w-10 h-10">
-                          <AvatarFallback className="bg-gradient-to-br from-blue-400 to-cyan-500 text-white font-semibold">
-                            {user.username.charAt(0).toUpperCase()}
-                          </AvatarFallback>
-                        </Avatar>
-                        <div className="absolute -bottom-1 -right-1 w-3 h-3 bg-green-500 rounded-full border-2 border-white dark:border-slate-800" />
-                      </div>
-                      <div>
-                        <p className="font-medium">{user.username}</p>
-                        <div className="flex items-center space-x-1">
-                          <Badge variant="secondary" className="text-xs">
-                            Online
-                          </Badge>
-                        </div>
-                      </div>
-                    </div>
-                    <Button
-                      size="sm"
-                      onClick={() => handleStartChat(user)}
-                      className="flex items-center space-x-2"
-                    >
-                      <MessageCircle className="w-4 h-4" />
-                      <span>Chat</span>
-                    </Button>
-                  </div>
-                ))
+              {people.length === 0
+                ? emptyState(
+                  debouncedQuery ? "No one found matching your search" : "No one else is online right now",
+                  debouncedQuery ? undefined : "Search to find people who are offline",
+                )
+                : people.map(user => renderUser(user, (
+                  <>
+                    {friendIds.has(user.id) ? null : incomingIds.has(user.id) ? (
+                      <Button size="sm" variant="outline" disabled={friendMutation.isPending} onClick={() => changeFriendship("accept", user)}>
+                        Accept
+                      </Button>
+                    ) : outgoingIds.has(user.id) ? (
+                      <Button size="sm" variant="outline" disabled>
+                        Requested
+                      </Button>
+                    ) : (
+                      <Button size="sm" variant="outline" disabled={friendMutation.isPending} onClick={() => changeFriendship("request", user)}>
+                        <UserPlus className="w-4 h-4 mr-1" />
+                        Add
+                      </Button>
+                    )}
+                    {chatButton(user)}
+                    {moreMenu(user)}
+                  </>
+                )))}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="blocked">
+            <div className="space-y-2 max-h-80 overflow-y-auto border rounded-md p-2">
+              {blockedCount === 0 && emptyState(
+                "You haven't blocked or muted anyone",
+                "Blocked people can't message you or add you to groups, and you won't see their messages",
               )}
+              {contacts.blocked.map(({ user, since }) => renderUser(user, (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={friendMutation.isPending}
+                  onClick={() => changeFriendship("unblock", user)}
+                >
+                  Unblock
+                </Button>
+              ), `Blocked ${formatRelativeTime(new Date(since))}`))}
+              {contacts.muted.map(({ user, since }) => renderUser(user, (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={friendMutation.isPending}
+                  onClick={() => changeFriendship("unmute", user)}
+                >
+                  Unmute
+                </Button>
+              ), `Muted ${formatRelativeTime(new Date(since))}`))}
             </div>
-          </div>
-        </div>
+          </TabsContent>
+        </Tabs>
       </DialogContent>
+
+      <AlertDialog open={!!blocking} onOpenChange={(open) => !open && setBlocking(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Block {blocking && displayName(blocking)}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              They won't be able to message you or add you to groups, and you won't see their messages.
+              Any friendship or friend request between you ends.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => blocking && changeFriendship("block", blocking)}>
+              Block
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Dialog>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,349 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription,
+  AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { PresenceDot } from "@/components/presence-indicator";
+import { UserAvatar } from "@/components/user-avatar";
+import { UserProfileCard } from "@/components/user-profile-card";
+import { InviteLinksPanel } from "@/components/invite-links-panel";
+import { RoomVisibilitySelect } from "@/components/room-visibility-select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { displayName } from "@/lib/utils";
+import { canRemoveMember, groupOrder, groupRules, isAdmin } from "@shared/group-roles";
+import { Crown, LogOut, MoreHorizontal, Shield, UserPlus } from "lucide-react";
+import {
+  MAX_GROUP_DESCRIPTION_LENGTH, MAX_GROUP_NAME_LENGTH,
+  type User, type ChatWithMembers, type GroupRole, type GroupSettings,
+} from "@shared/schema";
+
+const ROLE_LABELS: Record<GroupRole, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  member: "Member",
+};
+
+type GroupChange =
+  | { kind: "settings"; settings: GroupSettings }
+  | { kind: "add"; userIds: number[] }
+  | { kind: "remove"; userId: number }
+  | { kind: "role"; userId: number; role: Exclude<GroupRole, "owner"> }
+  | { kind: "owner"; userId: number };
+
+function requestFor(chatId: number, change: GroupChange) {
+  switch (change.kind) {
+    case "settings":
+      return apiRequest("PATCH", `/api/chats/${chatId}`, change.settings);
+    case "add":
+      return apiRequest("POST", `/api/chats/${chatId}/members`, { userIds: change.userIds });
+    case "remove":
+      return apiRequest("DELETE", `/api/chats/${chatId}/members/${change.userId}`);
+    case "role":
+      return apiRequest("PUT", `/api/chats/${chatId}/members/${change.userId}/role`, { role: change.role });
+    case "owner":
+      return apiRequest("PUT", `/api/chats/${chatId}/owner`, { userId: change.userId });
+  }
+}
+
+interface GroupSettingsSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  chat: ChatWithMembers;
+  currentUser: User;
+}
+
+// A group's name, description and members. Admins rename the group, choose
+// who can find it and add or remove people from here; the owner also
+// promotes admins and can hand the group over. Anyone can leave.
+export function GroupSettingsSheet({ open, onOpenChange, chat, currentUser }: GroupSettingsSheetProps) {
+  const [confirmLeave, setConfirmLeave] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const ownMember = chat.members.find(m => m.userId === currentUser.id);
+
+  const showError = (error: any, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const changeMutation = useMutation({
+    mutationFn: async (change: GroupChange) => {
+      const response = await requestFor(chat.id, change);
+      return response.json() as Promise<ChatWithMembers>;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/chats/" + chat.id], updated);
+      queryClient.invalidateQueries({ queryKey: ["/api/chats"] });
+    },
+    onError: (error: any) => showError(error, "Failed to update the group"),
+  });
+
+  const leaveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/chats/${chat.id}/leave`);
+    },
+    onSuccess: () => {
+      onOpenChange(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/chats"] });
+    },
+    onError: (error: any) => showError(error, "Failed to leave the group"),
+  });
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex flex-col w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Group settings</SheetTitle>
+          <SheetDescription>
+            {chat.members.length} {chat.members.length === 1 ? "member" : "members"}
+          </SheetDescription>
+        </SheetHeader>
+
+        {/* Mounted on open, so the form starts from the saved details each time */}
+        <GroupDetails
+          chat={chat}
+          canEdit={groupRules.manageGroup(ownMember)}
+          isSaving={changeMutation.isPending}
+          onSave={(settings) => changeMutation.mutate({ kind: "settings", settings })}
+        />
+
+        {groupRules.manageGroup(ownMember) && (
+          <RoomVisibilitySelect
+            chat={chat}
+            disabled={changeMutation.isPending}
+            onChange={(visibility) => changeMutation.mutate({ kind: "settings", settings: { visibility } })}
+          />
+        )}
+
+        <div>
+          <h3 className="font-semibold mb-2">Members</h3>
+          <ul className="space-y-1">
+            {groupOrder(chat.members).map((member) => {
+              const role = member.role as GroupRole;
+              const isSelf = member.userId === currentUser.id;
+              const canChangeRole = groupRules.changeRole(ownMember) && !isSelf;
+              const canRemove = canRemoveMember(ownMember, member);
+              return (
+                <li key={member.id} className="flex items-center space-x-2 rounded-lg px-2 py-1.5">
+                  <div className="relative">
+                    <UserProfileCard user={member.user}>
+                      <UserAvatar user={member.user} className="w-8 h-8" fallbackClassName="text-sm" />
+                    </UserProfileCard>
+                    <PresenceDot user={member.user} className="absolute -bottom-0.5 -right-0.5 w-2.5 h-2.5 border-2 border-white dark:border-slate-800" />
+                  </div>
+                  <p className="flex-1 min-w-0 text-sm truncate">
+                    {displayName(member.user)}
+                    {isSelf && <span className="text-gray-500 dark:text-gray-400"> (you)</span>}
+                  </p>
+                  {role !== "member" && (
+                    <Badge variant="secondary" className="text-xs">
+                      {role === "owner" ? <Crown className="w-3 h-3 mr-1" /> : <Shield className="w-3 h-3 mr-1" />}
+                      {ROLE_LABELS[role] ?? role}
+                    </Badge>
+                  )}
+                  {(canChangeRole || canRemove) && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-7 w-7" disabled={changeMutation.isPending}>
+                          <MoreHorizontal className="w-4 h-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {canChangeRole && (
+                          <>
+                            {isAdmin(member) ? (
+                              <DropdownMenuItem onClick={() => changeMutation.mutate({ kind: "role", userId: member.userId, role: "member" })}>
+                                Remove as admin
+                              </DropdownMenuItem>
+                            ) : (
+                              <DropdownMenuItem onClick={() => changeMutation.mutate({ kind: "role", userId: member.userId, role: "admin" })}>
+                                Make admin
+                              </DropdownMenuItem>
+                            )}
+                            <DropdownMenuItem onClick={() => changeMutation.mutate({ kind: "owner", userId: member.userId })}>
+                              Transfer ownership
+                            </DropdownMenuItem>
+                          </>
+                        )}
+                        {canChangeRole && canRemove && <DropdownMenuSeparator />}
+                        {canRemove && (
+                          <DropdownMenuItem
+                            className="text-red-600 dark:text-red-400"
+                            onClick={() => changeMutation.mutate({ kind: "remove", userId: member.userId })}
+                          >
+                            Remove from group
+                          </DropdownMenuItem>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+
+        {groupRules.addMember(ownMember) && (
+          <AddMembers
+            chat={chat}
+            currentUser={currentUser}
+            isSaving={changeMutation.isPending}
+            onAdd={(userIds) => changeMutation.mutate({ kind: "add", userIds })}
+          />
+        )}
+
+        {groupRules.manageInvites(ownMember) && <InviteLinksPanel chatId={chat.id} />}
+
+        <Button
+          variant="outline"
+          className="mt-auto text-red-600 dark:text-red-400"
+          disabled={leaveMutation.isPending}
+          onClick={() => setConfirmLeave(true)}
+        >
+          <LogOut className="w-4 h-4 mr-2" />
+          Leave group
+        </Button>
+      </SheetContent>
+
+      <AlertDialog open={confirmLeave} onOpenChange={setConfirmLeave}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Leave this group?</AlertDialogTitle>
+            <AlertDialogDescription>
+              You will no longer see its messages unless someone adds you back.
+              {ownMember?.role === "owner" && " As the owner, you hand the group to its longest-standing admin, or member if there are none."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => leaveMutation.mutate()}>Leave</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Sheet>
+  );
+}
+
+interface GroupDetailsProps {
+  chat: ChatWithMembers;
+  canEdit: boolean;
+  isSaving: boolean;
+  onSave: (settings: GroupSettings) => void;
+}
+
+function GroupDetails({ chat, canEdit, isSaving, onSave }: GroupDetailsProps) {
+  const [name, setName] = useState(chat.name ?? "");
+  const [description, setDescription] = useState(chat.description ?? "");
+
+  if (!canEdit) {
+    return (
+      <div>
+        <h3 className="font-semibold">{chat.name || "Unnamed Group"}</h3>
+        {chat.description && (
+          <p className="text-sm text-gray-600 dark:text-gray-300 whitespace-pre-wrap mt-1">{chat.description}</p>
+        )}
+      </div>
+    );
+  }
+
+  const changed = name.trim() !== (chat.name ?? "") || description.trim() !== (chat.description ?? "");
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label htmlFor="group-name">Name</Label>
+        <Input id="group-name" value={name} maxLength={MAX_GROUP_NAME_LENGTH} onChange={(e) => setName(e.target.value)} />
+      </div>
+      <div>
+        <Label htmlFor="group-description">Description</Label>
+        <Textarea
+          id="group-description"
+          rows={3}
+          placeholder="What is this group about?"
+          value={description}
+          maxLength={MAX_GROUP_DESCRIPTION_LENGTH}
+          onChange={(e) => setDescription(e.target.value)}
+        />
+      </div>
+      <Button
+        size="sm"
+        disabled={isSaving || !changed || !name.trim()}
+        onClick={() => onSave({ name: name.trim(), description })}
+      >
+        Save
+      </Button>
+    </div>
+  );
+}
+
+interface AddMembersProps {
+  chat: ChatWithMembers;
+  currentUser: User;
+  isSaving: boolean;
+  onAdd: (userIds: number[]) => void;
+}
+
+function AddMembers({ chat, currentUser, isSaving, onAdd }: AddMembersProps) {
+  const [selected, setSelected] = useState<number[]>([]);
+
+  const { data: onlineUsers = [] } = useQuery<User[]>({
+    queryKey: ["/api/users/online"],
+  });
+
+  const candidates = onlineUsers.filter(user =>
+    user.id !== currentUser.id && !chat.members.some(member => member.userId === user.id));
+
+  const toggle = (userId: number) => {
+    setSelected(prev => prev.includes(userId) ? prev.filter(id => id !== userId) : [...prev, userId]);
+  };
+
+  const handleAdd = () => {
+    onAdd(selected);
+    setSelected([]);
+  };
+
+  return (
+    <div>
+      <h3 className="font-semibold mb-2">Add people</h3>
+      <div className="space-y-1 max-h-40 overflow-y-auto border rounded-md p-2">
+        {candidates.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-2">
+            Everyone online is already here
+          </p>
+        ) : (
+          candidates.map((user) => (
+            <div
+              key={user.id}
+              className="flex items-center space-x-3 p-1.5 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700 cursor-pointer"
+              onClick={() => toggle(user.id)}
+            >
+              <Checkbox checked={selected.includes(user.id)} />
+              <UserAvatar user={user} className="w-7 h-7" fallbackClassName="text-xs" />
+              <span className="text-sm">{displayName(user)}</span>
+            </div>
+          ))
+        )}
+      </div>
+      <Button size="sm" className="mt-2" disabled={isSaving || selected.length === 0} onClick={handleAdd}>
+        <UserPlus className="w-4 h-4 mr-2" />
+        Add {selected.length > 0 ? selected.length : ""}
+      </Button>
+    </div>
+  );
+}
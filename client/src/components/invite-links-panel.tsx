@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { displayName } from "@/lib/utils";
+import { Copy, Link, Trash2 } from "lucide-react";
+import type { ChatInvite, ChatInviteWithJoins } from "@shared/schema";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const EXPIRY_OPTIONS = [
+  { value: "never", label: "Never expires", hours: null },
+  { value: "1h", label: "Expires in 1 hour", hours: 1 },
+  { value: "1d", label: "Expires in 1 day", hours: 24 },
+  { value: "7d", label: "Expires in 7 days", hours: 7 * 24 },
+] as const;
+
+const MAX_USES_OPTIONS = [
+  { value: "unlimited", label: "No limit", maxUses: null },
+  { value: "1", label: "1 use", maxUses: 1 },
+  { value: "5", label: "5 uses", maxUses: 5 },
+  { value: "10", label: "10 uses", maxUses: 10 },
+  { value: "100", label: "100 uses", maxUses: 100 },
+] as const;
+
+type Expiry = typeof EXPIRY_OPTIONS[number]["value"];
+type MaxUses = typeof MAX_USES_OPTIONS[number]["value"];
+
+function inviteUrl(token: string): string {
+  return `${window.location.origin}/join/${token}`;
+}
+
+// Why an invite no longer works, or null while it does
+function inviteState(invite: ChatInvite): string | null {
+  if (invite.revokedAt) return "Revoked";
+  if (invite.expiresAt && new Date(invite.expiresAt).getTime() <= Date.now()) return "Expired";
+  if (invite.maxUses !== null && invite.useCount >= invite.maxUses) return "Used up";
+  return null;
+}
+
+// Invite links for a group or music room: create them with an optional
+// expiry and use limit, copy or revoke them, and see who joined through each
+export function InviteLinksPanel({ chatId }: { chatId: number }) {
+  const [expiry, setExpiry] = useState<Expiry>("7d");
+  const [maxUses, setMaxUses] = useState<MaxUses>("unlimited");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const invitesQueryKey = ["/api/chats/" + chatId + "/invites"];
+
+  const { data: invites = [] } = useQuery<ChatInviteWithJoins[]>({
+    queryKey: invitesQueryKey,
+  });
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(inviteUrl(token));
+      toast({ title: "Invite link copied" });
+    } catch (error) {
+      toast({ title: "Invite link", description: inviteUrl(token) });
+    }
+  };
+
+  const showError = (error: any, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const hours = EXPIRY_OPTIONS.find(option => option.value === expiry)!.hours;
+      const response = await apiRequest("POST", `/api/chats/${chatId}/invites`, {
+        expiresAt: hours === null ? null : new Date(Date.now() + hours * HOUR_MS),
+        maxUses: MAX_USES_OPTIONS.find(option => option.value === maxUses)!.maxUses,
+      });
+      return response.json() as Promise<ChatInvite>;
+    },
+    onSuccess: (invite) => {
+      queryClient.invalidateQueries({ queryKey: invitesQueryKey });
+      copyLink(invite.token);
+    },
+    onError: (error: any) => showError(error, "Failed to create an invite link"),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (inviteId: number) => {
+      await apiRequest("DELETE", `/api/chats/${chatId}/invites/${inviteId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: invitesQueryKey });
+    },
+    onError: (error: any) => showError(error, "Failed to revoke the invite link"),
+  });
+
+  return (
+    <div>
+      <h3 className="font-semibold mb-2 flex items-center">
+        <Link className="w-4 h-4 mr-2" />
+        Invite links
+      </h3>
+      <div className="flex items-center space-x-2 mb-3">
+        <Select value={expiry} onValueChange={(value) => setExpiry(value as Expiry)}>
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {EXPIRY_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={maxUses} onValueChange={(value) => setMaxUses(value as MaxUses)}>
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {MAX_USES_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button size="sm" className="shrink-0" disabled={createMutation.isPending} onClick={() => createMutation.mutate()}>
+          Create
+        </Button>
+      </div>
+
+      {invites.length > 0 && (
+        <ul className="space-y-2 max-h-60 overflow-y-auto">
+          {invites.map((invite) => {
+            const state = inviteState(invite);
+            return (
+              <li key={invite.id} className="border rounded-md p-2 text-xs space-y-1">
+                <div className="flex items-center space-x-2">
+                  <span className={`flex-1 truncate font-mono ${state ? "text-gray-400 line-through" : ""}`}>
+                    /join/{invite.token}
+                  </span>
+                  {state ? (
+                    <Badge variant="outline" className="text-xs">{state}</Badge>
+                  ) : (
+                    <>
+                      <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => copyLink(invite.token)}>
+                        <Copy className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6 text-red-500"
+                        disabled={revokeMutation.isPending}
+                        onClick={() => revokeMutation.mutate(invite.id)}
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+                <p className="text-gray-500 dark:text-gray-400">
+                  By {displayName(invite.createdBy)}
+                  {" · "}{invite.useCount}{invite.maxUses !== null ? ` of ${invite.maxUses}` : ""} {invite.useCount === 1 && invite.maxUses === null ? "use" : "uses"}
+                  {invite.expiresAt && !state && ` · expires ${new Date(invite.expiresAt).toLocaleString()}`}
+                </p>
+                {invite.joins.length > 0 && (
+                  <p className="text-gray-500 dark:text-gray-400">
+                    Joined: {invite.joins.map(join => displayName(join.user)).join(", ")}
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Pencil, Trash2, History, Reply, MessagesSquare } from "lucide-react";
+import type { MessageEdit, MessageWithSender } from "@shared/schema";
+
+interface MessageActionsProps {
+  message: MessageWithSender;
+  isOwn: boolean;
+  onEdit: (message: MessageWithSender) => void;
+  onDelete: (message: MessageWithSender) => void;
+  onReply?: (message: MessageWithSender) => void;
+  // Omitted inside a thread, where replies cannot start threads of their own
+  onOpenThread?: (message: MessageWithSender) => void;
+  children: React.ReactNode;
+}
+
+// Right-click menu and hover buttons for a message bubble
+export function MessageActions({ message, isOwn, onEdit, onDelete, onReply, onOpenThread, children }: MessageActionsProps) {
+  const [showHistory, setShowHistory] = useState(false);
+  const isDeleted = !!message.deletedAt;
+  const canModify = isOwn && !isDeleted;
+
+  if (isDeleted) {
+    return <>{children}</>;
+  }
+
+  return (
+    <>
+      <ContextMenu>
+        <ContextMenuTrigger asChild>
+          <div className="group relative">
+            {children}
+            <div className="absolute -top-3 right-2 hidden group-hover:flex items-center space-x-1 bg-white dark:bg-slate-800 rounded-full shadow px-1">
+              {onReply && (
+                <Button variant="ghost" size="icon" className="w-6 h-6" onClick={() => onReply(message)}>
+                  <Reply className="w-3 h-3" />
+                </Button>
+              )}
+              {onOpenThread && (
+                <Button variant="ghost" size="icon" className="w-6 h-6" onClick={() => onOpenThread(message)}>
+                  <MessagesSquare className="w-3 h-3" />
+                </Button>
+              )}
+              {canModify && (
+                <>
+                  <Button variant="ghost" size="icon" className="w-6 h-6" onClick={() => onEdit(message)}>
+                    <Pencil className="w-3 h-3" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="w-6 h-6 text-red-500" onClick={() => onDelete(message)}>
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        </ContextMenuTrigger>
+        <ContextMenuContent>
+          {onReply && (
+            <ContextMenuItem onSelect={() => onReply(message)}>
+              <Reply className="w-4 h-4 mr-2" />
+              Reply
+            </ContextMenuItem>
+          )}
+          {onOpenThread && (
+            <ContextMenuItem onSelect={() => onOpenThread(message)}>
+              <MessagesSquare className="w-4 h-4 mr-2" />
+              Reply in thread
+            </ContextMenuItem>
+          )}
+          {canModify && (
+            <ContextMenuItem onSelect={() => onEdit(message)}>
+              <Pencil className="w-4 h-4 mr-2" />
+              Edit
+            </ContextMenuItem>
+          )}
+          {message.editedAt && (
+            <ContextMenuItem onSelect={() => setShowHistory(true)}>
+              <History className="w-4 h-4 mr-2" />
+              Edit history
+            </ContextMenuItem>
+          )}
+          {canModify && (
+            <>
+              <ContextMenuSeparator />
+              <ContextMenuItem className="text-red-500" onSelect={() => onDelete(message)}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete
+              </ContextMenuItem>
+            </>
+          )}
+        </ContextMenuContent>
+      </ContextMenu>
+
+      <EditHistoryDialog
+        message={message}
+        open={showHistory}
+        onOpenChange={setShowHistory}
+      />
+    </>
+  );
+}
+
+interface EditHistoryDialogProps {
+  message: MessageWithSender;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function EditHistoryDialog({ message, open, onOpenChange }: EditHistoryDialogProps) {
+  const { data: edits = [] } = useQuery<MessageEdit[]>({
+    queryKey: ["/api/messages/" + message.id + "/history"],
+    enabled: open,
+  });
+
+  const formatTime = (date: Date) => {
+    return new Date(date).toLocaleString([], {
+      dateStyle: "short",
+      timeStyle: "short",
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Edit History</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3 max-h-80 overflow-y-auto">
+          <div className="rounded-lg border p-3">
+            <p className="text-sm break-words">{message.content}</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Current{message.editedAt && ` · edited ${formatTime(message.editedAt)}`}
+            </p>
+          </div>
+          {[...edits].reverse().map((edit) => (
+            <div key={edit.id} className="rounded-lg border p-3 opacity-75">
+              <p className="text-sm break-words">{edit.previousContent}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                Replaced {formatTime(edit.editedAt)}
+              </p>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,199 @@
+import { useState, useEffect } from "react";
+import { useQuery, useInfiniteQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { displayName } from "@/lib/utils";
+import { Search } from "lucide-react";
+import {
+  SEARCH_HIGHLIGHT_START, SEARCH_HIGHLIGHT_END,
+  type User, type ChatWithMembers, type MessageSearchPage, type MessageSearchResult
+} from "@shared/schema";
+
+const ANY = "any";
+
+interface MessageSearchProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentUser: User;
+  initialQuery?: string;
+  initialChatId?: number;
+  onSelect: (result: MessageSearchResult) => void;
+}
+
+// Renders a server snippet, turning the highlight markers into <mark>s
+function Snippet({ text }: { text: string }) {
+  const parts = text.split(SEARCH_HIGHLIGHT_START);
+  return (
+    <>
+      {parts.map((part, index) => {
+        if (index === 0) return <span key={index}>{part}</span>;
+        const [match, rest = ""] = part.split(SEARCH_HIGHLIGHT_END);
+        return (
+          <span key={index}>
+            <mark className="bg-yellow-200 dark:bg-yellow-600/60 rounded px-0.5">{match}</mark>
+            {rest}
+          </span>
+        );
+      })}
+    </>
+  );
+}
+
+// Message search across the user's chats with chat, sender and date filters
+export function MessageSearch({ open, onOpenChange, currentUser, initialQuery = "", initialChatId, onSelect }: MessageSearchProps) {
+  const [query, setQuery] = useState(initialQuery);
+  const [debouncedQuery, setDebouncedQuery] = useState(initialQuery);
+  const [chatId, setChatId] = useState(initialChatId ? String(initialChatId) : ANY);
+  const [senderId, setSenderId] = useState(ANY);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  // Each opening starts from what the caller asked for
+  useEffect(() => {
+    if (!open) return;
+    setQuery(initialQuery);
+    setDebouncedQuery(initialQuery);
+    setChatId(initialChatId ? String(initialChatId) : ANY);
+    setSenderId(ANY);
+    setFrom("");
+    setTo("");
+  }, [open, initialQuery, initialChatId]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const { data: chats = [] } = useQuery<ChatWithMembers[]>({
+    queryKey: ["/api/chats"],
+    enabled: open,
+  });
+
+  const getChatName = (chat: Pick<ChatWithMembers, "id" | "name" | "type">) => {
+    if (chat.type === "direct") {
+      const full = chats.find(c => c.id === chat.id);
+      const otherMember = full?.members.find(m => m.userId !== currentUser.id);
+      return otherMember ? displayName(otherMember.user) : "Direct message";
+    }
+    return chat.name || "Unnamed Group";
+  };
+
+  // Senders to filter by: the selected chat's members, or everyone the user chats with
+  const senderChats = chatId === ANY ? chats : chats.filter(chat => String(chat.id) === chatId);
+  const senders = Array.from(
+    new Map(senderChats.flatMap(chat => chat.members.map(m => [m.userId, m.user] as const))).values()
+  ).sort((a, b) => displayName(a).localeCompare(displayName(b)));
+
+  const params = new URLSearchParams({ q: debouncedQuery });
+  if (chatId !== ANY) params.set("chatId", chatId);
+  if (senderId !== ANY) params.set("senderId", senderId);
+  if (from) params.set("from", new Date(`${from}T00:00:00`).toISOString());
+  if (to) params.set("to", new Date(`${to}T23:59:59.999`).toISOString());
+  const searchUrl = "/api/search/messages?" + params.toString();
+
+  const search = useInfiniteQuery<MessageSearchPage, Error, { pages: MessageSearchPage[] }, string[], number | undefined>({
+    queryKey: [searchUrl],
+    queryFn: async ({ pageParam }) => {
+      const response = await apiRequest("GET", searchUrl + (pageParam ? `&before=${pageParam}` : ""));
+      return response.json();
+    },
+    initialPageParam: undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: open && debouncedQuery.length > 0,
+  });
+  const results = search.data?.pages.flatMap(page => page.results) ?? [];
+
+  const formatDate = (date: Date) => {
+    return new Date(date).toLocaleString([], {
+      dateStyle: "short",
+      timeStyle: "short",
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Search messages</DialogTitle>
+        </DialogHeader>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-2.5 w-4 h-4 text-gray-400" />
+          <Input
+            autoFocus
+            placeholder="Search for words or phrases..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Select value={chatId} onValueChange={(value) => { setChatId(value); setSenderId(ANY); }}>
+            <SelectTrigger>
+              <SelectValue placeholder="Any chat" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any chat</SelectItem>
+              {chats.map(chat => (
+                <SelectItem key={chat.id} value={String(chat.id)}>{getChatName(chat)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={senderId} onValueChange={setSenderId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Anyone" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>From anyone</SelectItem>
+              {senders.map(sender => (
+                <SelectItem key={sender.id} value={String(sender.id)}>{displayName(sender)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} aria-label="From date" />
+          <Input type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} aria-label="To date" />
+        </div>
+
+        <div className="max-h-96 overflow-y-auto space-y-1">
+          {debouncedQuery && search.isSuccess && results.length === 0 && (
+            <p className="text-center text-sm text-gray-500 dark:text-gray-400 py-6">No messages found</p>
+          )}
+          {results.map(result => (
+            <button
+              key={result.id}
+              className="w-full text-left rounded-lg p-3 hover:bg-gray-100 dark:hover:bg-slate-700"
+              onClick={() => onSelect(result)}
+            >
+              <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mb-1">
+                <span>
+                  <span className="font-semibold text-gray-700 dark:text-gray-200">{displayName(result.sender)}</span>
+                  {" in "}{getChatName(result.chat)}
+                  {result.threadRootId && " · thread"}
+                </span>
+                <span>{formatDate(result.sentAt)}</span>
+              </div>
+              <p className="text-sm break-words">
+                <Snippet text={result.snippet} />
+              </p>
+            </button>
+          ))}
+          {search.hasNextPage && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full"
+              disabled={search.isFetchingNextPage}
+              onClick={() => search.fetchNextPage()}
+            >
+              {search.isFetchingNextPage ? "Loading..." : "Show more results"}
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
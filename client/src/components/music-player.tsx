@@ -0,0 +1,128 @@
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { TrackArtwork, formatTrackDuration, trackDetails } from "@/components/song-card";
+import { useSyncedPlayback } from "@/hooks/use-synced-playback";
+import { Play, Pause, SkipForward, Volume2, VolumeX, Headphones, ExternalLink } from "lucide-react";
+
+interface MusicPlayerProps {
+  chatId: number;
+  canControl: boolean; // Host and DJs: play, pause and seek
+  canSkip: boolean; // Host only
+}
+
+// "Now playing" card for a music room, shared by everyone in the room
+export function MusicPlayer({ chatId, canControl, canSkip }: MusicPlayerProps) {
+  const {
+    audioRef, playback, playable, listening, listen, stopListening, blocked,
+    volume, setVolume, positionMs, durationMs, handleLoadedMetadata, handleEnded, control, isControlling
+  } = useSyncedPlayback(chatId);
+
+  const hasTrack = !!playback?.songUrl;
+  const isPlaying = !!playback?.isPlaying;
+
+  const handlePlayPause = () => {
+    if (!hasTrack) return;
+    if (isPlaying) {
+      control({ action: "pause" });
+    } else {
+      if (playable) listen();
+      control({ action: "play" });
+    }
+  };
+
+  return (
+    <div>
+      <audio ref={audioRef} preload="auto" onLoadedMetadata={handleLoadedMetadata} onEnded={handleEnded} />
+
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3 min-w-0">
+          <TrackArtwork track={playback?.track ?? null} className={`w-12 h-12 ${isPlaying ? "animate-pulse" : ""}`} />
+          <div className="min-w-0">
+            <h3 className="font-semibold">Now Playing</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
+              {playback?.track?.title || playback?.currentSong || "No song selected"}
+            </p>
+            {playback?.track && (
+              <p className="text-xs text-gray-400 truncate">{trackDetails(playback.track)}</p>
+            )}
+          </div>
+        </div>
+        <div className="flex items-center space-x-2 shrink-0">
+          <Button
+            variant="outline"
+            size="icon"
+            disabled={!hasTrack || !canControl || isControlling}
+            onClick={handlePlayPause}
+          >
+            {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            disabled={!hasTrack || !canSkip || isControlling}
+            onClick={() => control({ action: "next" })}
+          >
+            <SkipForward className="w-4 h-4" />
+          </Button>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="icon" disabled={!playable}>
+                {volume === 0 ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-48" align="end">
+              <Slider
+                value={[volume * 100]}
+                max={100}
+                step={1}
+                onValueChange={([value]) => setVolume(value / 100)}
+                aria-label="Volume"
+              />
+            </PopoverContent>
+          </Popover>
+        </div>
+      </div>
+
+      {hasTrack && playable && (
+        <div className="mb-4">
+          <Slider
+            value={[positionMs]}
+            max={durationMs ?? Math.max(positionMs, 1)}
+            step={1000}
+            disabled={durationMs === null || !canControl || isControlling}
+            onValueCommit={([value]) => control({ action: "seek", positionMs: Math.round(value) })}
+            aria-label="Track position"
+          />
+          <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+            <span>{formatTrackDuration(positionMs)}</span>
+            <span>{durationMs !== null ? formatTrackDuration(durationMs) : "--:--"}</span>
+          </div>
+        </div>
+      )}
+
+      {hasTrack && playable && (!listening || blocked) && (
+        <Button variant="secondary" size="sm" className="w-full mb-4" onClick={listen}>
+          <Headphones className="w-4 h-4 mr-2" />
+          {blocked ? "Tap to start audio" : "Listen along"}
+        </Button>
+      )}
+      {hasTrack && playable && listening && !blocked && (
+        <button className="text-xs text-gray-500 dark:text-gray-400 underline mb-4" onClick={stopListening}>
+          Stop listening
+        </button>
+      )}
+      {hasTrack && !playable && (
+        <a
+          href={playback!.songUrl!}
+          target="_blank"
+          rel="noreferrer"
+          className="flex items-center text-sm text-primary mb-4"
+        >
+          <ExternalLink className="w-4 h-4 mr-2" />
+          This link can't be played here — open it to listen
+        </a>
+      )}
+    </div>
+  );
+}
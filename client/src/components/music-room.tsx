@@ -4,29 +4,74 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { usePolling } from "@/hooks/use-polling";
-import { Play, Pause, SkipForward, Volume2, Users, Music, Send } from "lucide-react";
-import type { User, ChatWithMembers, MessageWithSender } from "@shared/schema";
+import { useMarkChatRead } from "@/hooks/use-mark-read";
+import { ReactionBar } from "@/components/reaction-bar";
+import { QuotedMessage } from "@/components/quoted-message";
+import { AttachmentList } from "@/components/attachment-list";
+import { SongCard } from "@/components/song-card";
+import { useChatMessages } from "@/hooks/use-chat-messages";
+import { UserAvatar } from "@/components/user-avatar";
+import { UserProfileCard } from "@/components/user-profile-card";
+import { MusicPlayer } from "@/components/music-player";
+import { QueuePanel, queueQueryKey } from "@/components/queue-panel";
+import { RoomRolesPanel } from "@/components/room-roles-panel";
+import { PlayHistoryPanel, playHistoryQueryKey } from "@/components/play-history-panel";
+import { RoomStatsPanel, roomStatsQueryKey } from "@/components/room-stats-panel";
+import { PlaylistExportMenu } from "@/components/playlist-export-menu";
+import { InviteLinksPanel } from "@/components/invite-links-panel";
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import { playbackQueryKey } from "@/hooks/use-synced-playback";
+import { isHost, musicRoomRules } from "@shared/music-roles";
+import { Users, Music, Send, UserPlus, LogOut } from "lucide-react";
+import type { User, ChatWithMembers, QueueItem } from "@shared/schema";
 
 interface MusicRoomProps {
   currentUser: User;
   activeChat: ChatWithMembers;
+  realtimeConnected: boolean;
 }
 
-export function MusicRoom({ currentUser, activeChat }: MusicRoomProps) {
+export function MusicRoom({ currentUser, activeChat, realtimeConnected }: MusicRoomProps) {
   const [messageInput, setMessageInput] = useState("");
   const [songUrl, setSongUrl] = useState("");
+  const [showInvites, setShowInvites] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const { data: messages = [] } = useQuery<MessageWithSender[]>({
-    queryKey: ["/api/chats/" + activeChat.id + "/messages"],
+  const { messages } = useChatMessages(activeChat.id, { enabled: !!activeChat });
+
+  const { data: chatDetails } = useQuery<ChatWithMembers>({
+    queryKey: ["/api/chats/" + activeChat.id],
     enabled: !!activeChat,
   });
+  const room = chatDetails ?? activeChat;
+  const ownMember = room.members.find(m => m.userId === currentUser.id);
+  const canQueue = musicRoomRules.queueSong(ownMember, room);
+
+  useMarkChatRead(activeChat.id, messages, ownMember?.lastReadMessageId);
+
+  // The chat page closes the room once it drops out of the chat list
+  const leaveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/chats/${activeChat.id}/leave`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/chats"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to leave the room",
+        variant: "destructive",
+      });
+    },
+  });
 
-  // Poll for new messages and music updates
+  // Fall back to polling for messages and music updates while the socket is down
   usePolling(() => {
     queryClient.invalidateQueries({
       queryKey: ["/api/chats/" + activeChat.id + "/messages"]
@@ -34,14 +79,47 @@ export function MusicRoom({ currentUser, activeChat }: MusicRoomProps) {
     queryClient.invalidateQueries({
       queryKey: ["/api/chats/" + activeChat.id]
     });
-  }, 2500, !!activeChat);
+    queryClient.invalidateQueries({
+      queryKey: playbackQueryKey(activeChat.id)
+    });
+    queryClient.invalidateQueries({
+      queryKey: queueQueryKey(activeChat.id)
+    });
+    queryClient.invalidateQueries({
+      queryKey: playHistoryQueryKey(activeChat.id)
+    });
+    queryClient.invalidateQueries({
+      queryKey: roomStatsQueryKey(activeChat.id)
+    });
+  }, 2500, !!activeChat && !realtimeConnected);
+
+  // Shared songs join the room's queue; an idle room starts playing right away
+  const queueSongMutation = useMutation({
+    mutationFn: async (url: string) => {
+      const response = await apiRequest("POST", `/api/chats/${activeChat.id}/queue`, {
+        songUrl: url,
+      });
+      return response.json() as Promise<QueueItem>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queueQueryKey(activeChat.id) });
+      queryClient.invalidateQueries({ queryKey: playbackQueryKey(activeChat.id) });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add song to queue",
+        variant: "destructive",
+      });
+    },
+  });
 
   const sendMessageMutation = useMutation({
-    mutationFn: async (content: string) => {
+    mutationFn: async ({ content, songUrl }: { content: string; songUrl?: string }) => {
       const response = await apiRequest("POST", "/api/messages", {
         chatId: activeChat.id,
-        senderId: currentUser.id,
         content,
+        songUrl,
       });
       return response.json();
     },
@@ -56,7 +134,7 @@ export function MusicRoom({ currentUser, activeChat }: MusicRoomProps) {
   const handleSendMessage = () => {
     const content = messageInput.trim();
     if (!content) return;
-    sendMessageMutation.mutate(content);
+    sendMessageMutation.mutate({ content });
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -76,15 +154,13 @@ export function MusicRoom({ currentUser, activeChat }: MusicRoomProps) {
       return;
     }
 
-    // Extract song name from URL or use URL as fallback
-    const songName = songUrl.includes("youtube.com") || songUrl.includes("youtu.be") 
-      ? "YouTube Song" 
-      : songUrl.includes("spotify.com") 
-      ? "Spotify Track"
-      : "Song";
-
-    sendMessageMutation.mutate(`🎵 Shared: ${songName} - ${songUrl}`);
-    setSongUrl("");
+    queueSongMutation.mutate(songUrl.trim(), {
+      onSuccess: (item) => {
+        // Posted as a song card in the chat; the server resolves the link again
+        sendMessageMutation.mutate({ content: "", songUrl: item.songUrl });
+        setSongUrl("");
+      },
+    });
   };
 
   const getChatName = () => {
@@ -98,10 +174,6 @@ export function MusicRoom({ currentUser, activeChat }: MusicRoomProps) {
     });
   };
 
-  const getMessageAvatar = (sender: User) => {
-    return sender.username.charAt(0).toUpperCase();
-  };
-
   return (
     <div className="flex-1 flex flex-col">
       {/* Header */}
@@ -120,39 +192,39 @@ export function MusicRoom({ currentUser, activeChat }: MusicRoomProps) {
             </p>
           </div>
         </div>
-        <Badge variant="secondary" className="bg-purple-100 text-purple-700 dark:bg-purple-900 dark:text-purple-300">
-          Music Room
-        </Badge>
+        <div className="flex items-center space-x-2">
+          {musicRoomRules.hostRoom(ownMember) && (
+            <Button variant="ghost" size="icon" onClick={() => setShowInvites(true)}>
+              <UserPlus className="w-4 h-4" />
+            </Button>
+          )}
+          <PlaylistExportMenu chatId={activeChat.id} />
+          {ownMember && !isHost(ownMember) && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-red-500 hover:text-red-600"
+              disabled={leaveMutation.isPending}
+              onClick={() => leaveMutation.mutate()}
+            >
+              <LogOut className="w-4 h-4" />
+            </Button>
+          )}
+          <Badge variant="secondary" className="bg-purple-100 text-purple-700 dark:bg-purple-900 dark:text-purple-300">
+            Music Room
+          </Badge>
+        </div>
       </div>
 
       {/* Music Player Area */}
       <div className="bg-gradient-to-r from-purple-50 to-pink-50 dark:from-purple-900/20 dark:to-pink-900/20 p-6 border-b border-gray-200 dark:border-slate-700">
-        <div className="max-w-2xl mx-auto">
+        <div className="max-w-5xl mx-auto grid gap-4 lg:grid-cols-2">
           <div className="bg-white dark:bg-slate-800 rounded-lg p-6 shadow-lg">
-            <div className="flex items-center justify-between mb-4">
-              <div className="flex items-center space-x-3">
-                <div className="w-12 h-12 bg-gradient-to-br from-purple-400 to-pink-500 rounded-lg flex items-center justify-center">
-                  <Music className="w-6 h-6 text-white" />
-                </div>
-                <div>
-                  <h3 className="font-semibold">Now Playing</h3>
-                  <p className="text-sm text-gray-500 dark:text-gray-400">
-                    {activeChat.currentSong || "No song selected"}
-                  </p>
-                </div>
-              </div>
-              <div className="flex items-center space-x-2">
-                <Button variant="outline" size="icon" disabled>
-                  <Play className="w-4 h-4" />
-                </Button>
-                <Button variant="outline" size="icon" disabled>
-                  <SkipForward className="w-4 h-4" />
-                </Button>
-                <Button variant="outline" size="icon" disabled>
-                  <Volume2 className="w-4 h-4" />
-                </Button>
-              </div>
-            </div>
+            <MusicPlayer
+              chatId={activeChat.id}
+              canControl={musicRoomRules.controlPlayback(ownMember)}
+              canSkip={musicRoomRules.hostRoom(ownMember)}
+            />
             
             {/* Song Sharing */}
             <div className="flex space-x-2">
@@ -161,18 +233,47 @@ export function MusicRoom({ currentUser, activeChat }: MusicRoomProps) {
                 placeholder="Share a song URL (YouTube, Spotify, etc.)"
                 value={songUrl}
                 onChange={(e) => setSongUrl(e.target.value)}
+                disabled={!canQueue}
                 className="flex-1"
               />
-              <Button onClick={handleShareSong} disabled={!songUrl.trim()}>
+              <Button onClick={handleShareSong} disabled={!canQueue || !songUrl.trim() || queueSongMutation.isPending}>
                 <Music className="w-4 h-4 mr-2" />
                 Share
               </Button>
             </div>
             
             <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
-              Share song links to listen together with friends!
+              {canQueue
+                ? "Share song links to listen together with friends!"
+                : room.djRotation
+                ? "DJs take turns picking songs. Wait until you're on deck!"
+                : "The host has locked the queue to DJs."}
             </p>
           </div>
+          <Tabs defaultValue="queue" className="bg-white dark:bg-slate-800 rounded-lg p-6 shadow-lg">
+            <TabsList className="grid w-full grid-cols-3 mb-3">
+              <TabsTrigger value="queue">Queue</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
+              <TabsTrigger value="stats">Stats</TabsTrigger>
+            </TabsList>
+            <TabsContent value="queue">
+              <QueuePanel
+                chatId={activeChat.id}
+                currentUser={currentUser}
+                canVote={musicRoomRules.voteQueue(ownMember, room)}
+                canManage={musicRoomRules.hostRoom(ownMember)}
+              />
+            </TabsContent>
+            <TabsContent value="history">
+              <PlayHistoryPanel chatId={activeChat.id} currentUser={currentUser} />
+            </TabsContent>
+            <TabsContent value="stats">
+              <RoomStatsPanel chatId={activeChat.id} />
+            </TabsContent>
+          </Tabs>
+          <div className="bg-white dark:bg-slate-800 rounded-lg p-6 shadow-lg lg:col-span-2">
+            <RoomRolesPanel chat={room} currentUser={currentUser} />
+          </div>
         </div>
       </div>
       
@@ -187,7 +288,7 @@ export function MusicRoom({ currentUser, activeChat }: MusicRoomProps) {
         ) : (
           messages.map((message) => {
             const isOwn = message.senderId === currentUser.id;
-            const isSongShare = message.content.includes("🎵 Shared:");
+            const isSongShare = !!message.track || message.content.includes("🎵 Shared:");
             
             return (
               <div
@@ -197,11 +298,9 @@ export function MusicRoom({ currentUser, activeChat }: MusicRoomProps) {
                 }`}
               >
                 {!isOwn && (
-                  <Avatar className="w-8 h-8">
-                    <AvatarFallback className="bg-gradient-to-br from-purple-400 to-pink-500 text-white text-sm font-semibold">
-                      {getMessageAvatar(message.sender)}
-                    </AvatarFallback>
-                  </Avatar>
+                  <UserProfileCard user={message.sender}>
+                    <UserAvatar user={message.sender} className="w-8 h-8" fallbackClassName="from-purple-400 to-pink-500 text-sm" />
+                  </UserProfileCard>
                 )}
                 <div className={`max-w-[70%] ${isOwn ? "order-first" : ""}`}>
                   <div
@@ -213,8 +312,18 @@ export function MusicRoom({ currentUser, activeChat }: MusicRoomProps) {
                         : "bg-white dark:bg-slate-800 rounded-tl-lg"
                     }`}
                   >
-                    <p className="text-sm break-words">{message.content}</p>
+                    {message.parent && !message.deletedAt && (
+                      <QuotedMessage quote={message.parent} className="mb-2" />
+                    )}
+                    <AttachmentList attachments={message.attachments} />
+                    {message.track && <SongCard track={message.track} />}
+                    {(message.content || message.deletedAt) && (
+                      <p className={`text-sm break-words ${message.deletedAt ? "italic opacity-75" : ""}`}>
+                        {message.deletedAt ? "This message was deleted" : message.content}
+                      </p>
+                    )}
                   </div>
+                  <ReactionBar message={message} currentUser={currentUser} align={isOwn ? "end" : "start"} />
                   <p
                     className={`text-xs text-gray-500 dark:text-gray-400 mt-1 ${
                       isOwn ? "text-right mr-4" : "ml-4"
@@ -224,11 +333,7 @@ export function MusicRoom({ currentUser, activeChat }: MusicRoomProps) {
                   </p>
                 </div>
                 {isOwn && (
-                  <Avatar className="w-8 h-8">
-                    <AvatarFallback className="bg-gradient-to-br from-blue-400 to-cyan-500 text-white text-sm font-semibold">
-                      {getMessageAvatar(currentUser)}
-                    </AvatarFallback>
-                  </Avatar>
+                  <UserAvatar user={currentUser} className="w-8 h-8" fallbackClassName="from-blue-400 to-cyan-500 text-sm" />
                 )}
               </div>
             );
@@ -260,6 +365,15 @@ export function MusicRoom({ currentUser, activeChat }: MusicRoomProps) {
           </Button>
         </div>
       </div>
+
+      <Dialog open={showInvites} onOpenChange={setShowInvites}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Invite people to {room.name}</DialogTitle>
+          </DialogHeader>
+          <InviteLinksPanel chatId={activeChat.id} />
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,91 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { TrackArtwork, formatTrackDuration } from "@/components/song-card";
+import { apiRequest } from "@/lib/queryClient";
+import { displayName } from "@/lib/utils";
+import type { User, PlayHistoryPage, PlayWithUser } from "@shared/schema";
+
+export function playHistoryQueryKey(chatId: number) {
+  return ["/api/chats/" + chatId + "/history"];
+}
+
+interface PlayHistoryPanelProps {
+  chatId: number;
+  currentUser: User;
+}
+
+function playStatus(play: PlayWithUser) {
+  if (play.endReason === null) return { label: "Playing", className: "bg-purple-100 text-purple-700 dark:bg-purple-900 dark:text-purple-300" };
+  if (play.endReason === "skipped") return { label: "Skipped", className: "text-gray-500 dark:text-gray-400" };
+  return { label: "Played", className: "" };
+}
+
+// Everything the room has played, newest first
+export function PlayHistoryPanel({ chatId, currentUser }: PlayHistoryPanelProps) {
+  const [historyUrl] = playHistoryQueryKey(chatId);
+  const history = useInfiniteQuery<PlayHistoryPage, Error, { pages: PlayHistoryPage[] }, string[], number | undefined>({
+    queryKey: playHistoryQueryKey(chatId),
+    queryFn: async ({ pageParam }) => {
+      const response = await apiRequest("GET", historyUrl + (pageParam ? `?before=${pageParam}` : ""));
+      return response.json();
+    },
+    initialPageParam: undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+  });
+  const plays = history.data?.pages.flatMap(page => page.plays) ?? [];
+
+  const formatStarted = (date: Date) => {
+    return new Date(date).toLocaleString([], {
+      dateStyle: "short",
+      timeStyle: "short",
+    });
+  };
+
+  if (plays.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400 py-6 text-center">
+        {history.isLoading ? "Loading..." : "Nothing has been played here yet."}
+      </p>
+    );
+  }
+
+  return (
+    <div className="max-h-64 overflow-y-auto">
+      <ol className="space-y-1">
+        {plays.map((play) => {
+          const status = playStatus(play);
+          return (
+            <li key={play.id} className="flex items-center space-x-2 rounded-lg px-2 py-1.5">
+              <TrackArtwork track={play.track} className="w-9 h-9" />
+              <div className="flex-1 min-w-0">
+                <a href={play.track.url} target="_blank" rel="noreferrer" className="block text-sm font-medium truncate hover:underline">
+                  {play.track.title}
+                </a>
+                <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                  {formatStarted(play.startedAt)}
+                  {play.playedMs !== null && ` · ${formatTrackDuration(play.playedMs)}`}
+                  {" · "}Queued by {play.queuedById === currentUser.id ? "you" : displayName(play.queuedBy)}
+                </p>
+              </div>
+              <Badge variant="outline" className={`text-xs ${status.className}`}>
+                {status.label}
+              </Badge>
+            </li>
+          );
+        })}
+      </ol>
+      {history.hasNextPage && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full"
+          disabled={history.isFetchingNextPage}
+          onClick={() => history.fetchNextPage()}
+        >
+          {history.isFetchingNextPage ? "Loading..." : "Show earlier plays"}
+        </Button>
+      )}
+    </div>
+  );
+}
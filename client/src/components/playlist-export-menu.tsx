@@ -0,0 +1,46 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download } from "lucide-react";
+import type { PlaylistFormat } from "@shared/schema";
+
+const FORMAT_LABELS: Record<PlaylistFormat, string> = {
+  m3u8: "M3U8",
+  m3u: "M3U",
+  xspf: "XSPF",
+  json: "JSON",
+};
+
+const SOURCES = [
+  { source: "queue", label: "Queue" },
+  { source: "history", label: "History" },
+] as const;
+
+// Downloads a music room's queue or play history as a playlist file
+export function PlaylistExportMenu({ chatId }: { chatId: number }) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon">
+          <Download className="w-4 h-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {SOURCES.map(({ source, label }, index) => (
+          <div key={source}>
+            {index > 0 && <DropdownMenuSeparator />}
+            <DropdownMenuLabel>Export {label}</DropdownMenuLabel>
+            {(Object.keys(FORMAT_LABELS) as PlaylistFormat[]).map((format) => (
+              <DropdownMenuItem key={format} asChild>
+                <a href={`/api/chats/${chatId}/playlist?source=${source}&format=${format}`} download>
+                  {FORMAT_LABELS[format]}
+                </a>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,29 @@
+import { cn } from "@/lib/utils";
+import { customStatus, presenceState, type PresenceState } from "@/hooks/use-presence";
+import type { User } from "@shared/schema";
+
+const DOT_COLORS: Record<PresenceState, string> = {
+  online: "bg-green-500",
+  away: "bg-amber-400",
+  busy: "bg-red-500",
+  offline: "bg-gray-400",
+};
+
+// Colored dot for a user's presence. Offline users get none unless `showOffline`.
+export function PresenceDot({ user, className, showOffline = false }: { user: User; className?: string; showOffline?: boolean }) {
+  const state = presenceState(user);
+  if (state === "offline" && !showOffline) return null;
+  return <span className={cn("block rounded-full", DOT_COLORS[state], className)} />;
+}
+
+// The user's custom status as "emoji text", or nothing when unset or expired
+export function CustomStatus({ user, now, className }: { user: User; now: number; className?: string }) {
+  const status = customStatus(user, now);
+  if (!status) return null;
+  return (
+    <span className={cn("truncate", className)} title={status.text ?? undefined}>
+      {status.emoji && <span className="mr-1">{status.emoji}</span>}
+      {status.text}
+    </span>
+  );
+}
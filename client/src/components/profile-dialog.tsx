@@ -0,0 +1,185 @@
+import { useRef, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { UserAvatar } from "@/components/user-avatar";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Upload } from "lucide-react";
+import { MAX_AVATAR_BYTES, ALLOWED_AVATAR_TYPES, type ProfileUpdate, type User } from "@shared/schema";
+
+interface ProfileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentUser: User;
+}
+
+type AvatarChange = { kind: "upload"; file: File } | { kind: "remove" };
+
+// Edits the current user's username, display name, pronouns, bio and avatar
+export function ProfileDialog({ open, onOpenChange, currentUser }: ProfileDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Edit profile</DialogTitle>
+        </DialogHeader>
+        {/* Mounted on open, so the form starts from the saved profile each time */}
+        <ProfileForm currentUser={currentUser} onDone={() => onOpenChange(false)} />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ProfileForm({ currentUser, onDone }: { currentUser: User; onDone: () => void }) {
+  const [username, setUsername] = useState(currentUser.username);
+  const [displayName, setDisplayName] = useState(currentUser.displayName ?? "");
+  const [pronouns, setPronouns] = useState(currentUser.pronouns ?? "");
+  const [bio, setBio] = useState(currentUser.bio ?? "");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const showError = (error: Error, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const profileMutation = useMutation({
+    mutationFn: async (profile: ProfileUpdate) => {
+      const response = await apiRequest("PATCH", "/api/user/profile", profile);
+      return response.json() as Promise<User>;
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(["/api/user"], user);
+      onDone();
+    },
+    onError: (error: Error) => showError(error, "Failed to update your profile"),
+  });
+
+  const avatarMutation = useMutation({
+    mutationFn: async (change: AvatarChange) => {
+      if (change.kind === "remove") {
+        const response = await apiRequest("DELETE", "/api/user/avatar");
+        return response.json() as Promise<User>;
+      }
+
+      const body = new FormData();
+      body.append("file", change.file);
+      const response = await fetch("/api/user/avatar", {
+        method: "PUT",
+        body,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const { message } = await response.json().catch(() => ({ message: response.statusText }));
+        throw new Error(message);
+      }
+      return response.json() as Promise<User>;
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(["/api/user"], user);
+    },
+    onError: (error: Error) => showError(error, "Failed to update your avatar"),
+  });
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    if (!ALLOWED_AVATAR_TYPES.includes(file.type)) {
+      return showError(new Error("Avatars must be PNG, JPEG, GIF or WebP images"), "");
+    }
+    if (file.size > MAX_AVATAR_BYTES) {
+      return showError(new Error(`Avatars must be ${MAX_AVATAR_BYTES / (1024 * 1024)} MB or smaller`), "");
+    }
+    avatarMutation.mutate({ kind: "upload", file });
+  };
+
+  const handleSave = () => {
+    profileMutation.mutate({ username, displayName, pronouns, bio });
+  };
+
+  return (
+    <>
+      <div className="space-y-4">
+        <div className="flex items-center space-x-4">
+          <UserAvatar user={currentUser} large className="w-16 h-16" fallbackClassName="text-2xl" />
+          <div className="flex space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={avatarMutation.isPending}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              {avatarMutation.isPending ? "Uploading..." : "Upload photo"}
+            </Button>
+            {currentUser.avatarUpdatedAt && (
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={avatarMutation.isPending}
+                onClick={() => avatarMutation.mutate({ kind: "remove" })}
+              >
+                Remove
+              </Button>
+            )}
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ALLOWED_AVATAR_TYPES.join(",")}
+            className="hidden"
+            onChange={handleFileChange}
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="profile-username">Username</Label>
+          <Input id="profile-username" value={username} maxLength={32} onChange={(e) => setUsername(e.target.value)} />
+        </div>
+        <div>
+          <Label htmlFor="profile-display-name">Display name</Label>
+          <Input
+            id="profile-display-name"
+            placeholder={username}
+            value={displayName}
+            maxLength={50}
+            onChange={(e) => setDisplayName(e.target.value)}
+          />
+        </div>
+        <div>
+          <Label htmlFor="profile-pronouns">Pronouns</Label>
+          <Input
+            id="profile-pronouns"
+            placeholder="e.g. they/them"
+            value={pronouns}
+            maxLength={30}
+            onChange={(e) => setPronouns(e.target.value)}
+          />
+        </div>
+        <div>
+          <Label htmlFor="profile-bio">Bio</Label>
+          <Textarea id="profile-bio" rows={3} value={bio} maxLength={300} onChange={(e) => setBio(e.target.value)} />
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} disabled={profileMutation.isPending || !username.trim()}>
+          Save
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
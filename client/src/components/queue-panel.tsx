@@ -0,0 +1,152 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { TrackArtwork, trackDetails } from "@/components/song-card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { displayName } from "@/lib/utils";
+import { ThumbsUp, ThumbsDown, ChevronUp, ChevronDown, X, ListMusic } from "lucide-react";
+import type { User, QueueItemWithVotes, QueueVoteValue } from "@shared/schema";
+
+export function queueQueryKey(chatId: number) {
+  return ["/api/chats/" + chatId + "/queue"];
+}
+
+type QueueChange =
+  | { kind: "vote"; itemId: number; value: QueueVoteValue }
+  | { kind: "move"; itemId: number; position: number }
+  | { kind: "remove"; itemId: number };
+
+interface QueuePanelProps {
+  chatId: number;
+  currentUser: User;
+  canVote: boolean;
+  canManage: boolean; // The host may reorder and remove songs
+}
+
+// Upcoming songs of a music room. Votes rank the queue; the arrows move a song
+// among others with the same score.
+export function QueuePanel({ chatId, currentUser, canVote, canManage }: QueuePanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: queue = [] } = useQuery<QueueItemWithVotes[]>({
+    queryKey: queueQueryKey(chatId),
+  });
+
+  const changeMutation = useMutation({
+    mutationFn: async (change: QueueChange) => {
+      const url = `/api/chats/${chatId}/queue/${change.itemId}`;
+      const response = change.kind === "vote"
+        ? await apiRequest("PUT", url + "/vote", { value: change.value })
+        : change.kind === "move"
+        ? await apiRequest("PATCH", url, { position: change.position })
+        : await apiRequest("DELETE", url);
+      return response.json() as Promise<QueueItemWithVotes[]>;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(queueQueryKey(chatId), updated);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update the queue",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const vote = (item: QueueItemWithVotes, value: 1 | -1) => {
+    // Clicking your current vote again takes it back
+    changeMutation.mutate({ kind: "vote", itemId: item.id, value: item.myVote === value ? 0 : value });
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold flex items-center">
+          <ListMusic className="w-4 h-4 mr-2" />
+          Up Next
+        </h3>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {queue.length} {queue.length === 1 ? "song" : "songs"}
+        </span>
+      </div>
+
+      {queue.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 py-6 text-center">
+          The queue is empty. Share a song to add it!
+        </p>
+      ) : (
+        <ol className="space-y-1 max-h-64 overflow-y-auto">
+          {queue.map((item, index) => (
+            <li
+              key={item.id}
+              className="flex items-center space-x-2 rounded-lg px-2 py-1.5 hover:bg-gray-50 dark:hover:bg-slate-700"
+            >
+              <span className="w-5 text-xs text-gray-400 text-right">{index + 1}</span>
+              <TrackArtwork track={item.track} className="w-9 h-9" />
+              <div className="flex-1 min-w-0">
+                <a href={item.track.url} target="_blank" rel="noreferrer" className="block text-sm font-medium truncate hover:underline">
+                  {item.track.title}
+                </a>
+                <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                  {trackDetails(item.track)} · Added by {item.addedById === currentUser.id ? "you" : displayName(item.addedBy)}
+                </p>
+              </div>
+              <div className="flex items-center">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className={`h-7 w-7 ${item.myVote === 1 ? "text-primary" : ""}`}
+                  disabled={!canVote || changeMutation.isPending}
+                  onClick={() => vote(item, 1)}
+                >
+                  <ThumbsUp className="w-3.5 h-3.5" />
+                </Button>
+                <span className="w-6 text-center text-xs font-semibold">{item.score}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className={`h-7 w-7 ${item.myVote === -1 ? "text-red-500" : ""}`}
+                  disabled={!canVote || changeMutation.isPending}
+                  onClick={() => vote(item, -1)}
+                >
+                  <ThumbsDown className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+              {canManage && (
+                <>
+                  <div className="flex flex-col">
+                    <button
+                      className="text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-30"
+                      disabled={index === 0 || changeMutation.isPending}
+                      onClick={() => changeMutation.mutate({ kind: "move", itemId: item.id, position: index - 1 })}
+                    >
+                      <ChevronUp className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      className="text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-30"
+                      disabled={index === queue.length - 1 || changeMutation.isPending}
+                      onClick={() => changeMutation.mutate({ kind: "move", itemId: item.id, position: index + 1 })}
+                    >
+                      <ChevronDown className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-gray-400 hover:text-red-500"
+                    disabled={changeMutation.isPending}
+                    onClick={() => changeMutation.mutate({ kind: "remove", itemId: item.id })}
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </Button>
+                </>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
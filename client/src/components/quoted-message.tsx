@@ -0,0 +1,41 @@
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { displayName } from "@/lib/utils";
+import type { MessageQuote, MessageWithSender } from "@shared/schema";
+
+interface QuotedMessageProps {
+  quote: MessageQuote;
+  // Shows a dismiss button, as used above the input while composing a reply
+  onDismiss?: () => void;
+  className?: string;
+}
+
+// Compact preview of the message being replied to
+export function QuotedMessage({ quote, onDismiss, className = "" }: QuotedMessageProps) {
+  return (
+    <div className={`flex items-start justify-between border-l-2 border-primary/60 pl-2 py-0.5 ${className}`}>
+      <div className="min-w-0">
+        <p className="text-xs font-semibold opacity-80">{quote.senderName}</p>
+        <p className="text-xs opacity-70 truncate">
+          {quote.deletedAt ? <span className="italic">Message deleted</span> : quote.content}
+        </p>
+      </div>
+      {onDismiss && (
+        <Button variant="ghost" size="icon" className="w-6 h-6 shrink-0" onClick={onDismiss}>
+          <X className="w-3 h-3" />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+// The quote shape for a message that is about to be replied to
+export function toQuote(message: MessageWithSender): MessageQuote {
+  return {
+    id: message.id,
+    senderId: message.senderId,
+    content: message.content,
+    deletedAt: message.deletedAt,
+    senderName: displayName(message.sender),
+  };
+}
@@ -0,0 +1,77 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { EmojiPicker } from "@/components/emoji-picker";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { chatMessagesQueryKey } from "@/hooks/use-chat-messages";
+import { SmilePlus } from "lucide-react";
+import type { MessageWithSender, User } from "@shared/schema";
+
+interface ReactionBarProps {
+  message: MessageWithSender;
+  currentUser: User;
+  align?: "start" | "end";
+}
+
+// Reaction chips under a message bubble plus a picker to add new ones
+export function ReactionBar({ message, currentUser, align = "start" }: ReactionBarProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const reactionMutation = useMutation({
+    mutationFn: async ({ emoji, remove }: { emoji: string; remove: boolean }) => {
+      const url = `/api/messages/${message.id}/reactions/${encodeURIComponent(emoji)}`;
+      const response = await apiRequest(remove ? "DELETE" : "PUT", url);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: chatMessagesQueryKey(message.chatId) });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update reaction",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (message.deletedAt) return null;
+
+  const hasReacted = (emoji: string) => {
+    return message.reactions.some(r => r.emoji === emoji && r.userIds.includes(currentUser.id));
+  };
+
+  const toggleReaction = (emoji: string) => {
+    reactionMutation.mutate({ emoji, remove: hasReacted(emoji) });
+  };
+
+  return (
+    <div className={`flex flex-wrap items-center gap-1 mt-1 ${align === "end" ? "justify-end" : ""}`}>
+      {message.reactions.map((reaction) => (
+        <button
+          key={reaction.emoji}
+          type="button"
+          onClick={() => toggleReaction(reaction.emoji)}
+          className={`flex items-center space-x-1 rounded-full border px-2 py-0.5 text-xs transition-colors ${
+            hasReacted(reaction.emoji)
+              ? "border-primary bg-primary/10 text-primary"
+              : "border-gray-200 bg-white hover:bg-gray-50 dark:border-slate-700 dark:bg-slate-800 dark:hover:bg-slate-700"
+          }`}
+        >
+          <span>{reaction.emoji}</span>
+          <span>{reaction.count}</span>
+        </button>
+      ))}
+      <EmojiPicker onSelect={toggleReaction}>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="w-6 h-6 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+        >
+          <SmilePlus className="w-3 h-3" />
+        </Button>
+      </EmojiPicker>
+    </div>
+  );
+}
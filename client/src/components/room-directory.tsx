@@ -0,0 +1,174 @@
+import { useState, useEffect } from "react";
+import { useInfiniteQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatRelativeTime } from "@/lib/utils";
+import { Music, Search, Users } from "lucide-react";
+import type { ChatWithMembers, DirectoryRoom, DirectorySort, RoomDirectoryPage } from "@shared/schema";
+
+const SORT_OPTIONS: { value: DirectorySort; label: string }[] = [
+  { value: "active", label: "Recently active" },
+  { value: "members", label: "Most members" },
+  { value: "newest", label: "Newest" },
+];
+
+// "active 5m ago", or the day a room that has been quiet for a week was last active
+function activityLabel(date: Date): string {
+  const relative = formatRelativeTime(date);
+  if (relative === "now") return "active now";
+  return /^\d+[mhd]$/.test(relative) ? `active ${relative} ago` : `last active ${relative}`;
+}
+
+interface RoomDirectoryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  roomType: "group" | "music";
+  onOpen: (chat: ChatWithMembers) => void;
+}
+
+// Browse and search the public groups or music rooms, and join one
+export function RoomDirectory({ open, onOpenChange, roomType, onOpen }: RoomDirectoryProps) {
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [sort, setSort] = useState<DirectorySort>("active");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Each opening starts a fresh search
+  useEffect(() => {
+    if (!open) return;
+    setQuery("");
+    setDebouncedQuery("");
+    setSort("active");
+  }, [open]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const params = new URLSearchParams({ type: roomType, sort });
+  if (debouncedQuery) params.set("q", debouncedQuery);
+  const directoryUrl = "/api/rooms?" + params.toString();
+
+  const directory = useInfiniteQuery<RoomDirectoryPage, Error, { pages: RoomDirectoryPage[] }, string[], number | undefined>({
+    queryKey: [directoryUrl],
+    queryFn: async ({ pageParam }) => {
+      const response = await apiRequest("GET", directoryUrl + (pageParam ? `&offset=${pageParam}` : ""));
+      return response.json();
+    },
+    initialPageParam: undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: open,
+    // Member counts and activity keep changing
+    staleTime: 0,
+  });
+  const rooms = directory.data?.pages.flatMap(page => page.rooms) ?? [];
+
+  // Members just open the room; everyone else joins it first
+  const openMutation = useMutation({
+    mutationFn: async (room: DirectoryRoom) => {
+      const response = room.isMember
+        ? await apiRequest("GET", `/api/chats/${room.id}`)
+        : await apiRequest("POST", `/api/chats/${room.id}/join`);
+      return response.json() as Promise<ChatWithMembers>;
+    },
+    onSuccess: (chat) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/chats"] });
+      onOpenChange(false);
+      onOpen(chat);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to join the room",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const noun = roomType === "music" ? "music rooms" : "groups";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Browse public {noun}</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-center space-x-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-2.5 w-4 h-4 text-gray-400" />
+            <Input
+              autoFocus
+              placeholder={`Search ${noun}...`}
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <Select value={sort} onValueChange={(value) => setSort(value as DirectorySort)}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SORT_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="max-h-96 overflow-y-auto space-y-1">
+          {directory.isSuccess && rooms.length === 0 && (
+            <p className="text-center text-sm text-gray-500 dark:text-gray-400 py-6">
+              {debouncedQuery ? `No public ${noun} found` : `No public ${noun} yet`}
+            </p>
+          )}
+          {rooms.map(room => (
+            <div key={room.id} className="flex items-center space-x-3 rounded-lg p-3 hover:bg-gray-100 dark:hover:bg-slate-700">
+              <div className="w-10 h-10 shrink-0 rounded-full bg-gradient-to-br from-pink-400 to-purple-500 text-white flex items-center justify-center">
+                {room.type === "music" ? <Music className="w-4 h-4" /> : <Users className="w-4 h-4" />}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="font-semibold text-sm truncate">{room.name || "Unnamed Group"}</p>
+                {(room.description || room.currentTrack) && (
+                  <p className="text-sm text-gray-600 dark:text-gray-300 truncate">
+                    {room.description || `Playing ${room.currentTrack!.title}`}
+                  </p>
+                )}
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {room.memberCount} {room.memberCount === 1 ? "member" : "members"}
+                  {" · "}{activityLabel(new Date(room.lastActivityAt))}
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant={room.isMember ? "outline" : "default"}
+                disabled={openMutation.isPending}
+                onClick={() => openMutation.mutate(room)}
+              >
+                {room.isMember ? "Open" : "Join"}
+              </Button>
+            </div>
+          ))}
+          {directory.hasNextPage && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full"
+              disabled={directory.isFetchingNextPage}
+              onClick={() => directory.fetchNextPage()}
+            >
+              {directory.isFetchingNextPage ? "Loading..." : `Show more ${noun}`}
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
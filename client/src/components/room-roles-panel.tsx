@@ -0,0 +1,174 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { useNow } from "@/hooks/use-presence";
+import { CustomStatus, PresenceDot } from "@/components/presence-indicator";
+import { UserAvatar } from "@/components/user-avatar";
+import { UserProfileCard } from "@/components/user-profile-card";
+import { RoomVisibilitySelect } from "@/components/room-visibility-select";
+import { apiRequest } from "@/lib/queryClient";
+import { displayName } from "@/lib/utils";
+import { isHost, rotationOrder } from "@shared/music-roles";
+import { Crown, Disc3, MoreHorizontal, Users } from "lucide-react";
+import type { User, ChatWithMembers, ChatVisibility, MusicRole } from "@shared/schema";
+
+const ROLE_LABELS: Record<MusicRole, string> = {
+  host: "Host",
+  dj: "DJ",
+  member: "Listener",
+};
+
+type RoomChange =
+  | { kind: "settings"; queueLocked?: boolean; djRotation?: boolean; visibility?: ChatVisibility }
+  | { kind: "role"; userId: number; role: MusicRole };
+
+interface RoomRolesPanelProps {
+  chat: ChatWithMembers;
+  currentUser: User;
+}
+
+// Who is in a music room and what they may do. The host hands out DJ roles,
+// locks the queue, runs the DJ rotation and opens the room to others from here.
+export function RoomRolesPanel({ chat, currentUser }: RoomRolesPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const now = useNow();
+
+  const ownMember = chat.members.find(m => m.userId === currentUser.id);
+  const amHost = isHost(ownMember);
+  const onDeck = chat.djRotation ? chat.members.find(m => m.userId === chat.onDeckUserId) : undefined;
+
+  // Host first, then DJs in turn order, then listeners
+  const djs = rotationOrder(chat.members);
+  const members = [
+    ...djs.filter(isHost),
+    ...djs.filter(m => !isHost(m)),
+    ...chat.members.filter(m => !djs.includes(m)),
+  ];
+
+  const changeMutation = useMutation({
+    mutationFn: async (change: RoomChange) => {
+      const response = change.kind === "settings"
+        ? await apiRequest("PATCH", `/api/chats/${chat.id}/music-settings`, {
+            queueLocked: change.queueLocked,
+            djRotation: change.djRotation,
+            visibility: change.visibility,
+          })
+        : await apiRequest("PUT", `/api/chats/${chat.id}/members/${change.userId}/role`, { role: change.role });
+      return response.json() as Promise<ChatWithMembers>;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/chats/" + chat.id], updated);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update the room",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold flex items-center">
+          <Users className="w-4 h-4 mr-2" />
+          In the Room
+        </h3>
+        {onDeck && (
+          <Badge variant="secondary" className="bg-purple-100 text-purple-700 dark:bg-purple-900 dark:text-purple-300">
+            <Disc3 className="w-3 h-3 mr-1" />
+            On deck: {onDeck.userId === currentUser.id ? "you" : displayName(onDeck.user)}
+          </Badge>
+        )}
+      </div>
+
+      {amHost && (
+        <div className="flex flex-wrap gap-x-6 gap-y-2 mb-3">
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="queue-locked"
+              checked={chat.queueLocked}
+              disabled={changeMutation.isPending}
+              onCheckedChange={(queueLocked) => changeMutation.mutate({ kind: "settings", queueLocked })}
+            />
+            <Label htmlFor="queue-locked" className="text-sm">Lock queue</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="dj-rotation"
+              checked={chat.djRotation}
+              disabled={changeMutation.isPending}
+              onCheckedChange={(djRotation) => changeMutation.mutate({ kind: "settings", djRotation })}
+            />
+            <Label htmlFor="dj-rotation" className="text-sm">DJ rotation</Label>
+          </div>
+          <div className="w-full">
+            <RoomVisibilitySelect
+              chat={chat}
+              disabled={changeMutation.isPending}
+              onChange={(visibility) => changeMutation.mutate({ kind: "settings", visibility })}
+            />
+          </div>
+        </div>
+      )}
+
+      <ul className="space-y-1 max-h-48 overflow-y-auto">
+        {members.map((member) => {
+          const role = member.role as MusicRole;
+          return (
+            <li key={member.id} className="flex items-center space-x-2 rounded-lg px-2 py-1.5">
+              <div className="relative">
+                <UserProfileCard user={member.user}>
+                  <UserAvatar user={member.user} className="w-7 h-7" fallbackClassName="from-purple-400 to-pink-500 text-xs" />
+                </UserProfileCard>
+                <PresenceDot user={member.user} className="absolute -bottom-0.5 -right-0.5 w-2.5 h-2.5 border-2 border-white dark:border-slate-800" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm truncate">
+                  {displayName(member.user)}
+                  {member.userId === currentUser.id && <span className="text-gray-500 dark:text-gray-400"> (you)</span>}
+                </p>
+                <CustomStatus user={member.user} now={now} className="block text-xs text-gray-500 dark:text-gray-400" />
+              </div>
+              <Badge variant={role === "member" ? "outline" : "secondary"} className="text-xs">
+                {role === "host" && <Crown className="w-3 h-3 mr-1" />}
+                {ROLE_LABELS[role] ?? role}
+              </Badge>
+              {amHost && member.userId !== currentUser.id && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" disabled={changeMutation.isPending}>
+                      <MoreHorizontal className="w-4 h-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    {role === "dj" ? (
+                      <DropdownMenuItem onClick={() => changeMutation.mutate({ kind: "role", userId: member.userId, role: "member" })}>
+                        Make listener
+                      </DropdownMenuItem>
+                    ) : (
+                      <DropdownMenuItem onClick={() => changeMutation.mutate({ kind: "role", userId: member.userId, role: "dj" })}>
+                        Make DJ
+                      </DropdownMenuItem>
+                    )}
+                    <DropdownMenuItem onClick={() => changeMutation.mutate({ kind: "role", userId: member.userId, role: "host" })}>
+                      Hand over host
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { TrackArtwork } from "@/components/song-card";
+import { displayName } from "@/lib/utils";
+import type { RoomStats } from "@shared/schema";
+
+export function roomStatsQueryKey(chatId: number) {
+  return ["/api/chats/" + chatId + "/stats"];
+}
+
+const chartConfig = {
+  hours: { label: "Hours", color: "#a855f7" },
+} satisfies ChartConfig;
+
+const TOP_SHOWN = 5;
+
+function formatWeek(weekStart: string) {
+  return new Date(`${weekStart}T00:00:00`).toLocaleDateString([], { month: "short", day: "numeric" });
+}
+
+// Top tracks, top contributors and listening hours per week of a music room
+export function RoomStatsPanel({ chatId }: { chatId: number }) {
+  const { data: stats, isLoading } = useQuery<RoomStats>({
+    queryKey: roomStatsQueryKey(chatId),
+  });
+
+  if (!stats || stats.topTracks.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400 py-6 text-center">
+        {isLoading ? "Loading..." : "Stats show up once the room has played something."}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4 max-h-64 overflow-y-auto">
+      <div>
+        <h4 className="text-xs font-semibold uppercase text-gray-500 dark:text-gray-400 mb-1">Listening per week</h4>
+        <ChartContainer config={chartConfig} className="aspect-auto h-32 w-full">
+          <BarChart data={stats.weeklyListening}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="weekStart" tickLine={false} axisLine={false} tickFormatter={formatWeek} />
+            <YAxis width={28} tickLine={false} axisLine={false} allowDecimals={false} />
+            <ChartTooltip content={<ChartTooltipContent labelFormatter={formatWeek} />} />
+            <Bar dataKey="hours" fill="var(--color-hours)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <h4 className="text-xs font-semibold uppercase text-gray-500 dark:text-gray-400 mb-1">Top tracks</h4>
+          <ol className="space-y-1">
+            {stats.topTracks.slice(0, TOP_SHOWN).map(({ track, plays }) => (
+              <li key={track.url} className="flex items-center space-x-2">
+                <TrackArtwork track={track} className="w-7 h-7" />
+                <span className="flex-1 min-w-0 text-sm truncate">{track.title}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">{plays}×</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+        <div>
+          <h4 className="text-xs font-semibold uppercase text-gray-500 dark:text-gray-400 mb-1">Top contributors</h4>
+          <ol className="space-y-1">
+            {stats.topContributors.slice(0, TOP_SHOWN).map(({ user, plays }) => (
+              <li key={user.id} className="flex items-center space-x-2">
+                <span className="flex-1 min-w-0 text-sm truncate">{displayName(user)}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {plays} {plays === 1 ? "song" : "songs"}
+                </span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      </div>
+    </div>
+  );
+}
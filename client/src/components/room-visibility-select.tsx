@@ -0,0 +1,66 @@
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Link } from "lucide-react";
+import type { Chat, ChatVisibility } from "@shared/schema";
+
+const VISIBILITY_OPTIONS: { value: ChatVisibility; label: string; description: string }[] = [
+  { value: "private", label: "Private", description: "Only people who are added or invited can join" },
+  { value: "unlisted", label: "Unlisted", description: "Anyone with the room link can join" },
+  { value: "public", label: "Public", description: "Listed in the room directory for anyone to join" },
+];
+
+// Where an unlisted or public room can be previewed and joined. Unlisted
+// rooms only open with the key in their link.
+export function roomUrl(chat: Pick<Chat, "id" | "visibility" | "linkToken">): string {
+  const url = `${window.location.origin}/rooms/${chat.id}`;
+  return chat.visibility === "unlisted" ? `${url}?key=${chat.linkToken}` : url;
+}
+
+interface RoomVisibilitySelectProps {
+  chat: Pick<Chat, "id" | "visibility" | "linkToken">;
+  disabled?: boolean;
+  onChange: (visibility: ChatVisibility) => void;
+}
+
+// Who can find and join a group or music room. Once others can join without
+// an invitation, the room's link can be copied from here.
+export function RoomVisibilitySelect({ chat, disabled, onChange }: RoomVisibilitySelectProps) {
+  const { toast } = useToast();
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(roomUrl(chat));
+      toast({ title: "Room link copied" });
+    } catch (error) {
+      toast({ title: "Room link", description: roomUrl(chat) });
+    }
+  };
+
+  return (
+    <div>
+      <Label htmlFor={`visibility-${chat.id}`}>Visibility</Label>
+      <div className="flex items-center space-x-2">
+        <Select value={chat.visibility} disabled={disabled} onValueChange={(value) => onChange(value as ChatVisibility)}>
+          <SelectTrigger id={`visibility-${chat.id}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {VISIBILITY_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {chat.visibility !== "private" && (
+          <Button variant="outline" size="icon" className="shrink-0" onClick={copyLink}>
+            <Link className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+        {VISIBILITY_OPTIONS.find(option => option.value === chat.visibility)?.description}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { Music, ExternalLink } from "lucide-react";
+import type { TrackMetadata, TrackProviderName } from "@shared/schema";
+
+const PROVIDER_LABELS: Record<TrackProviderName, string> = {
+  youtube: "YouTube",
+  spotify: "Spotify",
+  soundcloud: "SoundCloud",
+  audio: "Audio file",
+  link: "Link",
+};
+
+export function formatTrackDuration(ms: number) {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+export function TrackArtwork({ track, className = "w-12 h-12" }: { track: TrackMetadata | null; className?: string }) {
+  if (track?.artworkUrl) {
+    return <img src={track.artworkUrl} alt="" className={`${className} shrink-0 rounded-lg object-cover`} />;
+  }
+  return (
+    <div className={`${className} shrink-0 bg-gradient-to-br from-purple-400 to-pink-500 rounded-lg flex items-center justify-center`}>
+      <Music className="w-1/2 h-1/2 text-white" />
+    </div>
+  );
+}
+
+// "Artist · YouTube · 3:25", skipping whatever is unknown
+export function trackDetails(track: TrackMetadata) {
+  return [
+    track.artist,
+    PROVIDER_LABELS[track.provider],
+    track.durationMs !== null ? formatTrackDuration(track.durationMs) : null,
+  ].filter(Boolean).join(" · ");
+}
+
+interface SongCardProps {
+  track: TrackMetadata;
+  className?: string;
+}
+
+// A shared song with its artwork and details, linking to the original
+export function SongCard({ track, className = "" }: SongCardProps) {
+  return (
+    <a
+      href={track.url}
+      target="_blank"
+      rel="noreferrer"
+      className={`flex items-center space-x-3 rounded-lg bg-white/15 p-2 hover:bg-white/25 ${className}`}
+    >
+      <TrackArtwork track={track} />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-semibold truncate">{track.title}</p>
+        <p className="text-xs opacity-80 truncate">{trackDetails(track)}</p>
+      </div>
+      <ExternalLink className="w-4 h-4 shrink-0 opacity-75" />
+    </a>
+  );
+}
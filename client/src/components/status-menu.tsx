@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuRadioGroup,
+  DropdownMenuRadioItem, DropdownMenuSeparator, DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { EmojiPicker } from "@/components/emoji-picker";
+import { CustomStatus, PresenceDot } from "@/components/presence-indicator";
+import { ProfileDialog } from "@/components/profile-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { customStatus, useNow } from "@/hooks/use-presence";
+import { apiRequest } from "@/lib/queryClient";
+import { displayName } from "@/lib/utils";
+import { ChevronDown, Smile } from "lucide-react";
+import {
+  MAX_STATUS_TEXT_LENGTH, type Availability, type DirectMessageSenders, type User, type UserStatus,
+} from "@shared/schema";
+
+const AVAILABILITY_OPTIONS: { value: Availability; label: string; description: string }[] = [
+  { value: "auto", label: "Automatic", description: "Online, or away when idle" },
+  { value: "busy", label: "Do not disturb", description: "Shown as busy" },
+  { value: "invisible", label: "Invisible", description: "Appear offline" },
+];
+
+const DIRECT_MESSAGE_OPTIONS: { value: DirectMessageSenders; label: string }[] = [
+  { value: "everyone", label: "Everyone" },
+  { value: "friends", label: "Friends only" },
+];
+
+const EXPIRY_OPTIONS = [
+  { value: "never", label: "Don't clear" },
+  { value: "30m", label: "30 minutes" },
+  { value: "1h", label: "1 hour" },
+  { value: "4h", label: "4 hours" },
+  { value: "today", label: "Today" },
+  { value: "week", label: "This week" },
+] as const;
+
+type Expiry = typeof EXPIRY_OPTIONS[number]["value"];
+
+const MINUTE_MS = 60 * 1000;
+
+function expiryDate(expiry: Expiry): Date | null {
+  const date = new Date();
+  switch (expiry) {
+    case "never":
+      return null;
+    case "30m":
+      return new Date(date.getTime() + 30 * MINUTE_MS);
+    case "1h":
+      return new Date(date.getTime() + 60 * MINUTE_MS);
+    case "4h":
+      return new Date(date.getTime() + 240 * MINUTE_MS);
+    case "today":
+      date.setHours(23, 59, 59, 999);
+      return date;
+    case "week":
+      // Until the end of Sunday
+      date.setDate(date.getDate() + ((7 - date.getDay()) % 7));
+      date.setHours(23, 59, 59, 999);
+      return date;
+  }
+}
+
+// The current user's name in the sidebar header, which opens a menu to pick
+// an availability, set or clear a custom status, edit the profile and choose
+// who may start direct chats
+export function StatusMenu({ currentUser }: { currentUser: User }) {
+  const [editing, setEditing] = useState(false);
+  const [editingProfile, setEditingProfile] = useState(false);
+  const [statusText, setStatusText] = useState("");
+  const [statusEmoji, setStatusEmoji] = useState("");
+  const [expiry, setExpiry] = useState<Expiry>("never");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const now = useNow();
+
+  const status = customStatus(currentUser, now);
+  const current: UserStatus = {
+    availability: currentUser.availability as Availability,
+    statusText: status?.text ?? null,
+    statusEmoji: status?.emoji ?? null,
+    statusExpiresAt: status && currentUser.statusExpiresAt ? new Date(currentUser.statusExpiresAt) : null,
+  };
+
+  const statusMutation = useMutation({
+    mutationFn: async (update: Partial<UserStatus>) => {
+      const response = await apiRequest("PUT", "/api/user/status", { ...current, ...update });
+      return response.json() as Promise<User>;
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(["/api/user"], user);
+      setEditing(false);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update your status",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const privacyMutation = useMutation({
+    mutationFn: async (directMessagesFrom: DirectMessageSenders) => {
+      const response = await apiRequest("PUT", "/api/user/privacy", { directMessagesFrom });
+      return response.json() as Promise<User>;
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(["/api/user"], user);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update your privacy settings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openEditor = () => {
+    setStatusText(status?.text ?? "");
+    setStatusEmoji(status?.emoji ?? "");
+    setExpiry("never");
+    setEditing(true);
+  };
+
+  const handleSave = () => {
+    statusMutation.mutate({
+      statusText: statusText.trim() || null,
+      statusEmoji: statusEmoji || null,
+      statusExpiresAt: expiryDate(expiry),
+    });
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button className="flex flex-col items-start text-left max-w-[11rem] rounded-md hover:bg-gray-100 dark:hover:bg-slate-700 px-1 -mx-1">
+            <span className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+              <PresenceDot user={currentUser} showOffline className="w-2 h-2 mr-1.5" />
+              <span className="truncate">{displayName(currentUser)}</span>
+              <ChevronDown className="w-3 h-3 ml-1 shrink-0" />
+            </span>
+            {status ? (
+              <CustomStatus user={currentUser} now={now} className="block w-full text-xs text-gray-500 dark:text-gray-400" />
+            ) : (
+              <span className="text-xs text-gray-400">Set a status</span>
+            )}
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56">
+          <DropdownMenuLabel>Availability</DropdownMenuLabel>
+          <DropdownMenuRadioGroup
+            value={currentUser.availability}
+            onValueChange={(availability) => statusMutation.mutate({ availability: availability as Availability })}
+          >
+            {AVAILABILITY_OPTIONS.map(option => (
+              <DropdownMenuRadioItem key={option.value} value={option.value} disabled={statusMutation.isPending}>
+                <div>
+                  <p>{option.label}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">{option.description}</p>
+                </div>
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel>Direct messages from</DropdownMenuLabel>
+          <DropdownMenuRadioGroup
+            value={currentUser.directMessagesFrom}
+            onValueChange={(value) => privacyMutation.mutate(value as DirectMessageSenders)}
+          >
+            {DIRECT_MESSAGE_OPTIONS.map(option => (
+              <DropdownMenuRadioItem key={option.value} value={option.value} disabled={privacyMutation.isPending}>
+                {option.label}
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setEditingProfile(true)}>
+            Edit profile...
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={openEditor}>
+            {status ? "Edit status..." : "Set a status..."}
+          </DropdownMenuItem>
+          {status && (
+            <DropdownMenuItem
+              disabled={statusMutation.isPending}
+              onClick={() => statusMutation.mutate({ statusText: null, statusEmoji: null, statusExpiresAt: null })}
+            >
+              Clear status
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <ProfileDialog open={editingProfile} onOpenChange={setEditingProfile} currentUser={currentUser} />
+
+      <Dialog open={editing} onOpenChange={setEditing}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Set a status</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="status-text">What's happening?</Label>
+              <div className="flex items-center space-x-2">
+                <EmojiPicker onSelect={setStatusEmoji}>
+                  <Button variant="outline" size="icon" className="shrink-0">
+                    {statusEmoji || <Smile className="w-4 h-4" />}
+                  </Button>
+                </EmojiPicker>
+                <Input
+                  id="status-text"
+                  placeholder="In a meeting"
+                  value={statusText}
+                  maxLength={MAX_STATUS_TEXT_LENGTH}
+                  onChange={(e) => setStatusText(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label>Clear after</Label>
+              <Select value={expiry} onValueChange={(value) => setExpiry(value as Expiry)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={statusMutation.isPending || (!statusText.trim() && !statusEmoji)}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,241 @@
+import { useState, useEffect, useRef } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { MessageActions } from "@/components/message-actions";
+import { ReactionBar } from "@/components/reaction-bar";
+import { QuotedMessage, toQuote } from "@/components/quoted-message";
+import { AttachmentList } from "@/components/attachment-list";
+import { UserAvatar } from "@/components/user-avatar";
+import { UserProfileCard } from "@/components/user-profile-card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { displayName } from "@/lib/utils";
+import { useChatMessages, chatMessagesQueryKey } from "@/hooks/use-chat-messages";
+import { useMarkThreadRead } from "@/hooks/use-mark-read";
+import { Send, Check, X } from "lucide-react";
+import type { User, MessageWithSender, MessageQuote } from "@shared/schema";
+
+interface ThreadPanelProps {
+  currentUser: User;
+  root: MessageWithSender | null;
+  onClose: () => void;
+  onDelete: (message: MessageWithSender) => void;
+}
+
+// Side sheet listing the replies to one message, with its own composer
+export function ThreadPanel({ currentUser, root, onClose, onDelete }: ThreadPanelProps) {
+  const [replyInput, setReplyInput] = useState("");
+  const [replyingTo, setReplyingTo] = useState<MessageQuote | null>(null);
+  const [editingReply, setEditingReply] = useState<MessageWithSender | null>(null);
+  const repliesEndRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const chatId = root?.chatId ?? 0;
+  const { messages: replies, hasOlder, isFetchingOlder, fetchOlder } =
+    useChatMessages(chatId, { enabled: !!root, threadRootId: root?.id });
+
+  useMarkThreadRead(chatId, root?.id, replies, root?.thread?.unreadCount ?? 0);
+
+  const newestReplyId = replies[replies.length - 1]?.id;
+  useEffect(() => {
+    repliesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [newestReplyId]);
+
+  // Start fresh whenever a different thread is opened
+  useEffect(() => {
+    setReplyInput("");
+    setReplyingTo(null);
+    setEditingReply(null);
+  }, [root?.id]);
+
+  const onMutationError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const sendReplyMutation = useMutation({
+    mutationFn: async (content: string) => {
+      const response = await apiRequest("POST", "/api/messages", {
+        chatId,
+        content,
+        threadRootId: root!.id,
+        parentId: replyingTo?.id,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setReplyInput("");
+      setReplyingTo(null);
+      queryClient.invalidateQueries({ queryKey: chatMessagesQueryKey(chatId) });
+    },
+    onError: onMutationError("Failed to send reply"),
+  });
+
+  const editReplyMutation = useMutation({
+    mutationFn: async ({ messageId, content }: { messageId: number; content: string }) => {
+      const response = await apiRequest("PATCH", `/api/messages/${messageId}`, { content });
+      return response.json();
+    },
+    onSuccess: () => {
+      setEditingReply(null);
+      setReplyInput("");
+      queryClient.invalidateQueries({ queryKey: chatMessagesQueryKey(chatId) });
+    },
+    onError: onMutationError("Failed to edit reply"),
+  });
+
+  const isSaving = sendReplyMutation.isPending || editReplyMutation.isPending;
+
+  const handleSend = () => {
+    const content = replyInput.trim();
+    if (!content || !root) return;
+    if (editingReply) {
+      if (content !== editingReply.content) {
+        editReplyMutation.mutate({ messageId: editingReply.id, content });
+      } else {
+        handleCancel();
+      }
+      return;
+    }
+    sendReplyMutation.mutate(content);
+  };
+
+  const handleStartEdit = (message: MessageWithSender) => {
+    setReplyingTo(null);
+    setEditingReply(message);
+    setReplyInput(message.content);
+  };
+
+  const handleStartReply = (message: MessageWithSender) => {
+    setEditingReply(null);
+    setReplyingTo(toQuote(message));
+  };
+
+  const handleCancel = () => {
+    if (editingReply) setReplyInput("");
+    setEditingReply(null);
+    setReplyingTo(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    } else if (e.key === "Escape" && (editingReply || replyingTo)) {
+      handleCancel();
+    }
+  };
+
+  const formatMessageTime = (date: Date) => {
+    return new Date(date).toLocaleTimeString([], {
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  // The root is managed from the main timeline, so only replies get actions here
+  const renderMessage = (message: MessageWithSender, isRoot: boolean) => {
+    const body = message.deletedAt ? (
+      <p className="text-sm italic text-gray-500 dark:text-gray-400">This message was deleted</p>
+    ) : (
+      <div className="text-sm break-words">
+        {message.parent && <QuotedMessage quote={message.parent} className="mb-1" />}
+        <AttachmentList attachments={message.attachments} />
+        {message.content}
+      </div>
+    );
+
+    return (
+      <div key={message.id} className="flex items-start space-x-3">
+        <UserProfileCard user={message.sender}>
+          <UserAvatar user={message.sender} className="w-8 h-8" fallbackClassName="text-sm" />
+        </UserProfileCard>
+        <div className="flex-1 min-w-0">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            <span className="font-semibold text-gray-700 dark:text-gray-200">{displayName(message.sender)}</span>
+            {" · "}{formatMessageTime(message.sentAt)}
+            {message.editedAt && !message.deletedAt && " · edited"}
+          </p>
+          {isRoot ? body : (
+            <MessageActions
+              message={message}
+              isOwn={message.senderId === currentUser.id}
+              onEdit={handleStartEdit}
+              onDelete={onDelete}
+              onReply={handleStartReply}
+            >
+              {body}
+            </MessageActions>
+          )}
+          <ReactionBar message={message} currentUser={currentUser} />
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Sheet open={!!root} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="flex flex-col w-full sm:max-w-md p-0">
+        <SheetHeader className="p-4 border-b border-gray-200 dark:border-slate-700">
+          <SheetTitle>Thread</SheetTitle>
+          <SheetDescription>
+            {root?.thread?.replyCount
+              ? `${root.thread.replyCount} ${root.thread.replyCount === 1 ? "reply" : "replies"}`
+              : "No replies yet"}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {root && renderMessage(root, true)}
+          <div className="border-t border-gray-200 dark:border-slate-700" />
+          {hasOlder && (
+            <Button variant="ghost" size="sm" className="w-full" disabled={isFetchingOlder} onClick={() => fetchOlder()}>
+              {isFetchingOlder ? "Loading..." : "Load earlier replies"}
+            </Button>
+          )}
+          {replies.map(reply => renderMessage(reply, false))}
+          <div ref={repliesEndRef} />
+        </div>
+
+        <div className="border-t border-gray-200 dark:border-slate-700 p-4">
+          {editingReply && (
+            <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400 mb-2 px-2">
+              <span>Editing reply · press Esc to cancel</span>
+              <Button variant="ghost" size="icon" className="w-6 h-6" onClick={handleCancel}>
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+          )}
+          {replyingTo && (
+            <QuotedMessage quote={replyingTo} onDismiss={handleCancel} className="mb-2 mx-2" />
+          )}
+          <div className="flex items-center space-x-3">
+            <Input
+              type="text"
+              placeholder={editingReply ? "Edit reply..." : "Reply in thread..."}
+              value={replyInput}
+              onChange={(e) => setReplyInput(e.target.value)}
+              onKeyDown={handleKeyDown}
+              disabled={isSaving || !!root?.deletedAt}
+              className="rounded-full"
+            />
+            <Button
+              onClick={handleSend}
+              disabled={isSaving || !replyInput.trim()}
+              size="icon"
+              className="rounded-full"
+            >
+              {editingReply ? <Check className="w-4 h-4" /> : <Send className="w-4 h-4" />}
+            </Button>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
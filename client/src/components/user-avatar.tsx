@@ -0,0 +1,23 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { avatarUrl, cn, displayName } from "@/lib/utils";
+import type { User } from "@shared/schema";
+
+interface UserAvatarProps {
+  user: User;
+  className?: string;
+  fallbackClassName?: string;
+  large?: boolean; // Loads the bigger rendition, for profile cards and the like
+}
+
+// A user's uploaded avatar, falling back to the first letter of their name
+export function UserAvatar({ user, className, fallbackClassName, large = false }: UserAvatarProps) {
+  const src = avatarUrl(user, large ? 256 : 64);
+  return (
+    <Avatar className={className}>
+      {src && <AvatarImage src={src} alt={displayName(user)} className="object-cover" />}
+      <AvatarFallback className={cn("bg-gradient-to-br from-pink-400 to-purple-500 text-white font-semibold", fallbackClassName)}>
+        {displayName(user).charAt(0).toUpperCase()}
+      </AvatarFallback>
+    </Avatar>
+  );
+}
@@ -0,0 +1,55 @@
+import { useState, type ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
+import { UserAvatar } from "@/components/user-avatar";
+import { CustomStatus, PresenceDot } from "@/components/presence-indicator";
+import { presenceLabel, useNow } from "@/hooks/use-presence";
+import { displayName } from "@/lib/utils";
+import type { User } from "@shared/schema";
+
+interface UserProfileCardProps {
+  user: User;
+  children: ReactNode;
+}
+
+// Wraps an avatar or name so that hovering or clicking it shows the user's
+// profile. The profile is refetched on open so it is never stale.
+export function UserProfileCard({ user, children }: UserProfileCardProps) {
+  const [open, setOpen] = useState(false);
+  const now = useNow();
+
+  const { data: profile = user } = useQuery<User>({
+    queryKey: ["/api/users/" + user.id],
+    enabled: open,
+  });
+
+  return (
+    <HoverCard open={open} onOpenChange={setOpen} openDelay={400}>
+      <HoverCardTrigger asChild>
+        <button type="button" className="rounded-full shrink-0" onClick={() => setOpen(!open)}>
+          {children}
+        </button>
+      </HoverCardTrigger>
+      <HoverCardContent align="start" className="w-72">
+        <div className="flex items-start space-x-3">
+          <div className="relative">
+            <UserAvatar user={profile} large className="w-16 h-16" fallbackClassName="text-2xl" />
+            <PresenceDot user={profile} className="absolute bottom-0 right-0 w-4 h-4 border-2 border-white dark:border-slate-800" />
+          </div>
+          <div className="min-w-0 flex-1">
+            <p className="font-semibold truncate">{displayName(profile)}</p>
+            <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
+              @{profile.username}
+              {profile.pronouns && ` · ${profile.pronouns}`}
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">{presenceLabel(profile, now)}</p>
+          </div>
+        </div>
+        <CustomStatus user={profile} now={now} className="block mt-3 text-sm" />
+        {profile.bio && (
+          <p className="mt-3 text-sm whitespace-pre-wrap break-words">{profile.bio}</p>
+        )}
+      </HoverCardContent>
+    </HoverCard>
+  );
+}
@@ -0,0 +1,59 @@
+import { useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { MAX_ATTACHMENT_BYTES, ALLOWED_ATTACHMENT_TYPES, type Attachment } from "@shared/schema";
+
+// Files uploaded from the composer that are waiting to be sent with the next
+// message. Uploads start as soon as files are picked.
+export function useAttachmentUpload(chatId: number) {
+  const [pending, setPending] = useState<Attachment[]>([]);
+  const [uploadingCount, setUploadingCount] = useState(0);
+  const { toast } = useToast();
+
+  const uploadFile = async (file: File) => {
+    if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
+      throw new Error(`${file.name}: this file type is not supported`);
+    }
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      throw new Error(`${file.name}: files must be ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB or smaller`);
+    }
+
+    const body = new FormData();
+    body.append("file", file);
+    const response = await fetch(`/api/chats/${chatId}/attachments`, {
+      method: "POST",
+      body,
+      credentials: "include",
+    });
+    if (!response.ok) {
+      const { message } = await response.json().catch(() => ({ message: response.statusText }));
+      throw new Error(`${file.name}: ${message}`);
+    }
+    return response.json() as Promise<Attachment>;
+  };
+
+  const upload = async (files: File[]) => {
+    setUploadingCount(count => count + files.length);
+    await Promise.all(files.map(async (file) => {
+      try {
+        const attachment = await uploadFile(file);
+        setPending(current => [...current, attachment]);
+      } catch (error: any) {
+        toast({
+          title: "Upload failed",
+          description: error.message,
+          variant: "destructive",
+        });
+      } finally {
+        setUploadingCount(count => count - 1);
+      }
+    }));
+  };
+
+  return {
+    pending,
+    isUploading: uploadingCount > 0,
+    upload,
+    remove: (id: number) => setPending(current => current.filter(attachment => attachment.id !== id)),
+    clear: () => setPending([]),
+  };
+}
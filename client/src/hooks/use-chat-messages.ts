@@ -0,0 +1,94 @@
+import { useInfiniteQuery, type InfiniteData } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { MessagePage, MessageWithSender } from "@shared/schema";
+
+type PageParam = { before?: number; after?: number; around?: number } | undefined;
+
+// A loaded page plus the cursor for newer history. `newerCursor` is only set
+// while the timeline is anchored on an older message and has not caught up.
+export type TimelinePage = MessagePage & { newerCursor: number | null };
+export type MessagePages = InfiniteData<TimelinePage, PageParam>;
+
+const AROUND_LIMIT = 25;
+
+// The main timeline lives under the plain messages URL; each thread gets its
+// own entry below it so invalidating the timeline also refreshes open threads.
+export function chatMessagesQueryKey(chatId: number, threadRootId?: number) {
+  const key = ["/api/chats/" + chatId + "/messages"];
+  return threadRootId === undefined ? key : [...key, "thread", String(threadRootId)];
+}
+
+// Whether a cached messages query holds the main timeline (live or anchored)
+// rather than a thread
+export function isTimelineQueryKey(queryKey: readonly unknown[]) {
+  return queryKey[1] !== "thread";
+}
+
+// Flattens the loaded pages (newest page first) into one ascending timeline
+export function flattenMessagePages(data: MessagePages | undefined): MessageWithSender[] {
+  if (!data) return [];
+  return [...data.pages].reverse().flatMap(page => page.messages);
+}
+
+interface ChatMessagesOptions {
+  enabled?: boolean;
+  threadRootId?: number;
+  // Load the history around this message instead of the newest page
+  aroundMessageId?: number;
+}
+
+// A chat's history (or one thread's replies), newest page first, with older
+// pages fetched on demand. Anchored timelines can also fetch newer pages.
+export function useChatMessages(chatId: number, { enabled = true, threadRootId, aroundMessageId }: ChatMessagesOptions = {}) {
+  const baseKey = chatMessagesQueryKey(chatId, threadRootId);
+  const queryKey = aroundMessageId === undefined ? baseKey : [...baseKey, "around", String(aroundMessageId)];
+
+  const fetchPage = async (params: Record<string, number | undefined>): Promise<MessagePage> => {
+    const search = new URLSearchParams();
+    if (threadRootId !== undefined) search.set("thread", String(threadRootId));
+    Object.entries(params).forEach(([name, value]) => {
+      if (value !== undefined) search.set(name, String(value));
+    });
+
+    const query = search.toString();
+    const response = await apiRequest("GET", chatMessagesQueryKey(chatId)[0] + (query ? `?${query}` : ""));
+    return response.json();
+  };
+
+  const query = useInfiniteQuery<TimelinePage, Error, MessagePages, string[], PageParam>({
+    queryKey,
+    queryFn: async ({ pageParam }): Promise<TimelinePage> => {
+      if (pageParam?.around !== undefined) {
+        const [older, newer] = await Promise.all([
+          fetchPage({ before: pageParam.around + 1, limit: AROUND_LIMIT }),
+          fetchPage({ after: pageParam.around, limit: AROUND_LIMIT }),
+        ]);
+        return {
+          messages: [...older.messages, ...newer.messages],
+          nextCursor: older.nextCursor,
+          newerCursor: newer.nextCursor,
+        };
+      }
+      if (pageParam?.after !== undefined) {
+        const page = await fetchPage({ after: pageParam.after });
+        return { messages: page.messages, nextCursor: null, newerCursor: page.nextCursor };
+      }
+      const page = await fetchPage({ before: pageParam?.before });
+      return { ...page, newerCursor: null };
+    },
+    initialPageParam: aroundMessageId === undefined ? undefined : { around: aroundMessageId },
+    getNextPageParam: (lastPage) => lastPage.nextCursor ? { before: lastPage.nextCursor } : undefined,
+    getPreviousPageParam: (firstPage) => firstPage.newerCursor ? { after: firstPage.newerCursor } : undefined,
+    enabled,
+  });
+
+  return {
+    messages: flattenMessagePages(query.data),
+    hasOlder: query.hasNextPage,
+    isFetchingOlder: query.isFetchingNextPage,
+    fetchOlder: query.fetchNextPage,
+    hasNewer: query.hasPreviousPage,
+    isFetchingNewer: query.isFetchingPreviousPage,
+    fetchNewer: query.fetchPreviousPage,
+  };
+}
@@ -0,0 +1,50 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Contacts, User } from "@shared/schema";
+
+export type FriendAction = "request" | "accept" | "decline" | "remove" | "block" | "unblock" | "mute" | "unmute";
+
+const FRIEND_ACTION_REQUESTS: Record<FriendAction, (userId: number) => [method: string, url: string]> = {
+  request: (userId) => ["POST", `/api/friends/${userId}`],
+  accept: (userId) => ["POST", `/api/friends/${userId}/accept`],
+  decline: (userId) => ["POST", `/api/friends/${userId}/decline`],
+  remove: (userId) => ["DELETE", `/api/friends/${userId}`],
+  block: (userId) => ["POST", `/api/friends/${userId}/block`],
+  unblock: (userId) => ["DELETE", `/api/friends/${userId}/block`],
+  mute: (userId) => ["POST", `/api/friends/${userId}/mute`],
+  unmute: (userId) => ["DELETE", `/api/friends/${userId}/mute`],
+};
+
+// Blocks hide messages and mutes change unread counts all over the app
+const REFETCH_EVERYTHING: FriendAction[] = ["block", "unblock", "mute", "unmute"];
+
+export const NO_CONTACTS: Contacts = { friends: [], incoming: [], outgoing: [], blocked: [], muted: [] };
+
+// Changes how the current user stands towards someone else, keeping the
+// cached contacts in step
+export function useFriendshipMutation() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ action, user }: { action: FriendAction; user: User }) => {
+      const [method, url] = FRIEND_ACTION_REQUESTS[action](user.id);
+      const response = await apiRequest(method, url);
+      return response.json() as Promise<Contacts>;
+    },
+    onSuccess: (contacts, { action }) => {
+      queryClient.setQueryData(["/api/friends"], contacts);
+      if (REFETCH_EVERYTHING.includes(action)) {
+        queryClient.invalidateQueries({ predicate: (query) => query.queryKey[0] !== "/api/friends" });
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update your friends",
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -0,0 +1,95 @@
+import { useEffect, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { chatMessagesQueryKey, isTimelineQueryKey, type MessagePages } from "@/hooks/use-chat-messages";
+import type { Message } from "@shared/schema";
+
+// Moves the current user's read cursor to the newest message in the chat
+// whenever new messages arrive while the tab is visible.
+export function useMarkChatRead(
+  chatId: number,
+  messages: Message[],
+  lastReadMessageId: number | null | undefined,
+) {
+  const lastSentRef = useRef<number>(0);
+  const newestMessageId = messages.length > 0 ? messages[messages.length - 1].id : undefined;
+
+  useEffect(() => {
+    lastSentRef.current = 0;
+  }, [chatId]);
+
+  useEffect(() => {
+    if (newestMessageId === undefined) return;
+
+    const markRead = () => {
+      if (document.visibilityState !== "visible") return;
+      if (newestMessageId <= (lastReadMessageId ?? 0)) return;
+      if (newestMessageId <= lastSentRef.current) return;
+
+      lastSentRef.current = newestMessageId;
+      apiRequest("POST", `/api/chats/${chatId}/read`, { messageId: newestMessageId })
+        .catch(() => {
+          // Allow a retry on the next update
+          lastSentRef.current = 0;
+        });
+    };
+
+    markRead();
+    document.addEventListener("visibilitychange", markRead);
+    return () => document.removeEventListener("visibilitychange", markRead);
+  }, [chatId, newestMessageId, lastReadMessageId]);
+}
+
+// Moves the current user's thread cursor to the newest reply while the thread
+// panel is open, then clears the root's unread badge in the timeline cache.
+export function useMarkThreadRead(
+  chatId: number,
+  threadRootId: number | undefined,
+  replies: Message[],
+  unreadCount: number,
+) {
+  const queryClient = useQueryClient();
+  const lastSentRef = useRef<number>(0);
+  const newestReplyId = replies.length > 0 ? replies[replies.length - 1].id : undefined;
+
+  useEffect(() => {
+    lastSentRef.current = 0;
+  }, [threadRootId]);
+
+  useEffect(() => {
+    if (threadRootId === undefined || newestReplyId === undefined) return;
+
+    const markRead = () => {
+      if (document.visibilityState !== "visible") return;
+      if (unreadCount === 0) return;
+      if (newestReplyId <= lastSentRef.current) return;
+
+      lastSentRef.current = newestReplyId;
+      apiRequest("POST", `/api/messages/${threadRootId}/thread/read`, { messageId: newestReplyId })
+        .then(() => {
+          queryClient.setQueriesData<MessagePages>({
+            queryKey: chatMessagesQueryKey(chatId),
+            predicate: (query) => isTimelineQueryKey(query.queryKey),
+          }, (data) => data && {
+            ...data,
+            pages: data.pages.map(page => ({
+              ...page,
+              messages: page.messages.map(message =>
+                message.id === threadRootId && message.thread
+                  ? { ...message, thread: { ...message.thread, unreadCount: 0 } }
+                  : message
+              ),
+            })),
+          });
+        })
+        .catch(() => {
+          // Allow a retry on the next update
+          lastSentRef.current = 0;
+        });
+    };
+
+    markRead();
+    document.addEventListener("visibilitychange", markRead);
+    return () => document.removeEventListener("visibilitychange", markRead);
+  }, [chatId, threadRootId, newestReplyId, unreadCount, queryClient]);
+}
@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import { apiRequest } from "@/lib/queryClient";
+import { PRESENCE_HEARTBEAT_MS, PRESENCE_IDLE_MS } from "@shared/realtime";
+import type { User } from "@shared/schema";
+
+// Names this tab for the server, which tracks each of a user's tabs and
+// devices separately. The realtime socket passes it along too.
+export const presenceTabId = Math.random().toString(36).slice(2) + Date.now().toString(36);
+
+const ACTIVITY_EVENTS = ["pointerdown", "pointermove", "keydown", "wheel", "touchstart"] as const;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Keeps the server's view of this tab current: a heartbeat while the page is
+// open, an update as soon as the user goes idle or comes back, and a goodbye
+// when the page is closed.
+export function usePresence(currentUser: User | null) {
+  const userId = currentUser?.id;
+
+  useEffect(() => {
+    if (userId === undefined) return;
+
+    let lastActivity = Date.now();
+    let active = document.visibilityState === "visible";
+
+    const send = () => {
+      apiRequest("PUT", "/api/user/presence", { tabId: presenceTabId, active }).catch(() => {
+        // Presence is best-effort; the server times the tab out if this keeps failing
+      });
+    };
+
+    const setActive = (isActive: boolean) => {
+      if (active === isActive) return;
+      active = isActive;
+      send();
+    };
+
+    const handleActivity = () => {
+      lastActivity = Date.now();
+      setActive(document.visibilityState === "visible");
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") lastActivity = Date.now();
+      setActive(document.visibilityState === "visible");
+    };
+
+    const handlePageHide = () => {
+      const body = new Blob([JSON.stringify({ tabId: presenceTabId })], { type: "application/json" });
+      navigator.sendBeacon("/api/user/presence/leave", body);
+    };
+
+    send();
+    const heartbeat = setInterval(() => {
+      active = document.visibilityState === "visible" && Date.now() - lastActivity < PRESENCE_IDLE_MS;
+      send();
+    }, PRESENCE_HEARTBEAT_MS);
+
+    ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, handleActivity, { passive: true }));
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    window.addEventListener("pagehide", handlePageHide);
+    // Coming back from the back/forward cache
+    window.addEventListener("pageshow", send);
+
+    return () => {
+      clearInterval(heartbeat);
+      ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, handleActivity));
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.removeEventListener("pagehide", handlePageHide);
+      window.removeEventListener("pageshow", send);
+    };
+  }, [userId]);
+}
+
+// The current time, refreshed every minute so "last seen" labels stay current
+export function useNow(): number {
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), MINUTE_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  return now;
+}
+
+export function formatLastSeen(lastSeen: Date, now: number): string {
+  const date = new Date(lastSeen);
+  const elapsed = Math.max(now - date.getTime(), 0);
+
+  if (elapsed < MINUTE_MS) return "Last seen just now";
+  if (elapsed < HOUR_MS) return `Last seen ${Math.floor(elapsed / MINUTE_MS)} min ago`;
+  if (elapsed < DAY_MS) return `Last seen ${Math.floor(elapsed / HOUR_MS)} h ago`;
+  if (elapsed < 2 * DAY_MS) return "Last seen yesterday";
+  return `Last seen ${date.toLocaleDateString([], { month: "short", day: "numeric" })}`;
+}
+
+export type PresenceState = "online" | "away" | "busy" | "offline";
+
+type PresenceFields = Pick<User, "isOnline" | "isAway" | "lastSeen" | "availability">;
+
+// What others see. Invisible users are already saved as offline by the server.
+export function presenceState(user: PresenceFields): PresenceState {
+  if (!user.isOnline) return "offline";
+  if (user.availability === "busy") return "busy";
+  return user.isAway ? "away" : "online";
+}
+
+const PRESENCE_LABELS: Record<Exclude<PresenceState, "offline">, string> = {
+  online: "Online",
+  away: "Away",
+  busy: "Do not disturb",
+};
+
+// "Online", "Away", "Do not disturb" or when the user was last around
+export function presenceLabel(user: PresenceFields, now: number): string {
+  const state = presenceState(user);
+  return state === "offline" ? formatLastSeen(user.lastSeen, now) : PRESENCE_LABELS[state];
+}
+
+// The user's custom status, unless it has expired
+export function customStatus(user: Pick<User, "statusText" | "statusEmoji" | "statusExpiresAt">, now: number) {
+  if (!user.statusText && !user.statusEmoji) return null;
+  if (user.statusExpiresAt && new Date(user.statusExpiresAt).getTime() <= now) return null;
+  return { text: user.statusText, emoji: user.statusEmoji };
+}
@@ -0,0 +1,234 @@
+import { useEffect, useState } from "react";
+import { useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { REALTIME_PATH, type ServerEvent } from "@shared/realtime";
+import { chatMessagesQueryKey, isTimelineQueryKey, type MessagePages } from "@/hooks/use-chat-messages";
+import { setUserTyping } from "@/hooks/use-typing";
+import { presenceTabId } from "@/hooks/use-presence";
+import type { Contacts, MessageWithSender, User } from "@shared/schema";
+
+const MAX_RECONNECT_DELAY = 30000;
+
+// Applies `update` to every cached copy of a chat's messages: the main
+// timeline and any threads that have been opened.
+function updateCachedMessages(
+  queryClient: QueryClient,
+  chatId: number,
+  update: (message: MessageWithSender) => MessageWithSender,
+) {
+  queryClient.setQueriesData<MessagePages>({ queryKey: chatMessagesQueryKey(chatId) }, (data) => {
+    if (!data) return data;
+    return {
+      ...data,
+      pages: data.pages.map(page => ({
+        ...page,
+        messages: page.messages.map(update),
+      })),
+    };
+  });
+}
+
+function updateCachedMessage(
+  queryClient: QueryClient,
+  chatId: number,
+  messageId: number,
+  update: (message: MessageWithSender) => MessageWithSender,
+) {
+  updateCachedMessages(queryClient, chatId, message => message.id === messageId ? update(message) : message);
+}
+
+// A user's presence or profile changed: refresh everything that lists users
+function applyUserChange(queryClient: QueryClient, user: User, viewerId: number) {
+  if (user.id === viewerId) queryClient.setQueryData(["/api/user"], user);
+  queryClient.setQueryData(["/api/users/" + user.id], user);
+  queryClient.invalidateQueries({ queryKey: ["/api/users/online"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/friends"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/chats"] });
+  // Open chats show their members too
+  queryClient.invalidateQueries({
+    predicate: (query) => typeof query.queryKey[0] === "string" && /^\/api\/chats\/\d+$/.test(query.queryKey[0]),
+  });
+}
+
+function applyServerEvent(queryClient: QueryClient, event: ServerEvent, userId: number) {
+  switch (event.type) {
+    case "message.created": {
+      const { threadRootId } = event.message;
+      // Sending a message ends the sender's typing
+      setUserTyping(event.chatId, event.message.senderId, false);
+
+      // Append to the newest loaded page of the thread, or of every copy of the
+      // timeline that has caught up with the present
+      queryClient.setQueriesData<MessagePages>({
+        queryKey: chatMessagesQueryKey(event.chatId, threadRootId ?? undefined),
+        predicate: (query) => threadRootId !== null || isTimelineQueryKey(query.queryKey),
+      }, (data) => {
+        if (!data || data.pages.length === 0 || data.pages[0].newerCursor) return data;
+        if (data.pages.some(page => page.messages.some(message => message.id === event.message.id))) {
+          return data;
+        }
+        const [newest, ...older] = data.pages;
+        return {
+          ...data,
+          pages: [{ ...newest, messages: [...newest.messages, event.message] }, ...older],
+        };
+      });
+
+      if (threadRootId !== null) {
+        // Replies from muted users don't count, just as on the server
+        const contacts = queryClient.getQueryData<Contacts>(["/api/friends"]);
+        const countsAsUnread = event.message.senderId !== userId &&
+          !contacts?.muted.some(contact => contact.user.id === event.message.senderId);
+        updateCachedMessage(queryClient, event.chatId, threadRootId, (root) => {
+          const thread = root.thread ?? { replyCount: 0, lastReplyAt: null, unreadCount: 0 };
+          return {
+            ...root,
+            thread: {
+              replyCount: thread.replyCount + 1,
+              lastReplyAt: event.message.sentAt,
+              unreadCount: thread.unreadCount + (countsAsUnread ? 1 : 0),
+            },
+          };
+        });
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/chats"] });
+      break;
+    }
+    case "message.updated": {
+      const updated = event.message;
+      // Thread unread counts are per viewer, so keep the cached summary
+      updateCachedMessages(queryClient, event.chatId, (message) => {
+        if (message.id === updated.id) return { ...updated, thread: message.thread };
+        if (message.parent?.id === updated.id) {
+          return {
+            ...message,
+            parent: { ...message.parent, content: updated.content, deletedAt: updated.deletedAt },
+          };
+        }
+        return message;
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/messages/" + event.message.id + "/history"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/chats"] });
+      break;
+    }
+    case "reaction.updated":
+      updateCachedMessage(queryClient, event.chatId, event.messageId, (message) => ({
+        ...message,
+        reactions: event.reactions,
+      }));
+      break;
+    case "chat.updated":
+      queryClient.setQueryData(["/api/chats/" + event.chatId], event.chat);
+      queryClient.invalidateQueries({ queryKey: ["/api/chats"] });
+      // Someone may have joined through an invite link
+      queryClient.invalidateQueries({ queryKey: ["/api/chats/" + event.chatId + "/invites"] });
+      break;
+    case "member.added":
+      queryClient.invalidateQueries({ queryKey: ["/api/chats/" + event.chatId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/chats"] });
+      break;
+    case "member.removed":
+      // The chat is no longer readable, so drop it rather than refetch it
+      queryClient.removeQueries({ queryKey: ["/api/chats/" + event.chatId] });
+      queryClient.removeQueries({ queryKey: chatMessagesQueryKey(event.chatId) });
+      queryClient.invalidateQueries({ queryKey: ["/api/chats"] });
+      break;
+    case "chat.read":
+      queryClient.invalidateQueries({ queryKey: ["/api/chats/" + event.chatId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/chats"] });
+      break;
+    case "playback.updated":
+      queryClient.setQueryData(["/api/chats/" + event.chatId + "/playback"], event.playback);
+      // Track changes add to the room's play history
+      queryClient.invalidateQueries({ queryKey: ["/api/chats/" + event.chatId + "/history"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/chats/" + event.chatId + "/stats"] });
+      break;
+    case "typing.updated":
+      setUserTyping(event.chatId, event.userId, event.isTyping);
+      break;
+    case "queue.updated":
+      queryClient.invalidateQueries({ queryKey: ["/api/chats/" + event.chatId + "/queue"] });
+      break;
+    case "friends.updated":
+      queryClient.invalidateQueries({ queryKey: ["/api/friends"] });
+      break;
+    case "presence.changed":
+      applyUserChange(queryClient, event.user, userId);
+      break;
+    case "user.updated":
+      // Messages carry their sender, so patch every loaded copy
+      queryClient.setQueriesData<MessagePages>({
+        predicate: (query) => typeof query.queryKey[0] === "string" && query.queryKey[0].endsWith("/messages"),
+      }, (data) => {
+        if (!data) return data;
+        return {
+          ...data,
+          pages: data.pages.map(page => ({
+            ...page,
+            messages: page.messages.map(message =>
+              message.senderId === event.user.id ? { ...message, sender: event.user } : message),
+          })),
+        };
+      });
+      applyUserChange(queryClient, event.user, userId);
+      break;
+  }
+}
+
+// Keeps a WebSocket open for the logged-in user and feeds server events into
+// the React Query cache. Reports whether the socket is up so callers can fall
+// back to polling while it reconnects.
+export function useRealtime(currentUser: User | null) {
+  const [connected, setConnected] = useState(false);
+  const queryClient = useQueryClient();
+  const userId = currentUser?.id;
+
+  useEffect(() => {
+    if (userId === undefined) return;
+    const viewerId = userId;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let closed = false;
+
+    function connect() {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}${REALTIME_PATH}?tab=${presenceTabId}`);
+
+      socket.onopen = () => {
+        // Catch up on anything missed while the socket was down
+        if (attempts > 0) queryClient.invalidateQueries();
+        attempts = 0;
+        setConnected(true);
+      };
+
+      socket.onmessage = (message) => {
+        try {
+          applyServerEvent(queryClient, JSON.parse(message.data), viewerId);
+        } catch (error) {
+          // Ignore malformed events
+        }
+      };
+
+      socket.onclose = () => {
+        setConnected(false);
+        if (closed) return;
+
+        const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY);
+        attempts++;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    }
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+      setConnected(false);
+    };
+  }, [userId, queryClient]);
+
+  return { connected };
+}
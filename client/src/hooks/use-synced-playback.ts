@@ -0,0 +1,203 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { PlaybackAction, PlaybackState } from "@shared/schema";
+
+const SYNC_INTERVAL = 1000;
+const HARD_DRIFT_SECONDS = 1; // Beyond this, jump straight to the room's position
+const SOFT_DRIFT_SECONDS = 0.15; // Beyond this, nudge the playback rate to catch up
+const CATCH_UP_RATE = 0.05;
+
+const AUDIO_FILE_PATTERN = /\.(mp3|ogg|oga|opus|wav|m4a|aac|flac)$/i;
+
+// Whether a shared link can be played by a plain <audio> element. Streaming
+// services (YouTube, Spotify, ...) can only be opened in their own player.
+export function isPlayableAudioUrl(songUrl: string) {
+  try {
+    const { pathname } = new URL(songUrl, window.location.origin);
+    return AUDIO_FILE_PATTERN.test(pathname) || pathname.startsWith("/api/attachments/");
+  } catch (error) {
+    return false;
+  }
+}
+
+export function playbackQueryKey(chatId: number) {
+  return ["/api/chats/" + chatId + "/playback"];
+}
+
+// Keeps a local <audio> element in step with a music room's shared playback.
+// The server only stores (position, startedAt); every client derives where the
+// track should be from its estimate of the server clock and corrects drift.
+export function useSyncedPlayback(chatId: number) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const clockOffsetRef = useRef(0);
+  const finishedTrackRef = useRef<string | null>(null);
+  const [listening, setListening] = useState(false);
+  const [blocked, setBlocked] = useState(false);
+  const [volume, setVolume] = useState(0.8);
+  const [positionMs, setPositionMs] = useState(0);
+  const [durationMs, setDurationMs] = useState<number | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: playback } = useQuery<PlaybackState>({
+    queryKey: playbackQueryKey(chatId),
+  });
+
+  useEffect(() => {
+    if (playback) {
+      clockOffsetRef.current = new Date(playback.serverTime).getTime() - Date.now();
+    }
+  }, [playback]);
+
+  const expectedPositionMs = useCallback(() => {
+    if (!playback) return 0;
+    if (!playback.isPlaying || !playback.startedAt) return playback.positionMs;
+
+    const serverNow = Date.now() + clockOffsetRef.current;
+    return playback.positionMs + Math.max(0, serverNow - new Date(playback.startedAt).getTime());
+  }, [playback]);
+
+  const songUrl = playback?.songUrl ?? null;
+  const playable = !!songUrl && isPlayableAudioUrl(songUrl);
+
+  // Swap the source when the room changes track
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    setDurationMs(null);
+    if (songUrl && playable) {
+      audio.src = songUrl;
+    } else {
+      audio.pause();
+      audio.removeAttribute("src");
+      audio.load();
+    }
+  }, [songUrl, playable]);
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.volume = volume;
+  }, [volume]);
+
+  const controlMutation = useMutation({
+    mutationFn: async (action: PlaybackAction) => {
+      const response = await apiRequest("PUT", `/api/chats/${chatId}/playback`, action);
+      return response.json() as Promise<PlaybackState>;
+    },
+    onSuccess: (state) => {
+      queryClient.setQueryData(playbackQueryKey(chatId), state);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update playback",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Moving on after a track ends is best effort: another client may have got
+  // there first, or the server may not yet agree the track is over.
+  const advanceMutation = useMutation({
+    mutationFn: async (fromSongUrl: string) => {
+      const response = await apiRequest("PUT", `/api/chats/${chatId}/playback`, { action: "next", fromSongUrl });
+      return response.json() as Promise<PlaybackState>;
+    },
+    onSuccess: (state) => {
+      queryClient.setQueryData(playbackQueryKey(chatId), state);
+    },
+  });
+
+  // Once the track is over, ask the room to move on to the next queued song.
+  // Every client does this; the server only advances once per track.
+  const finishTrack = useCallback(() => {
+    if (!playback?.isPlaying || !playback.songUrl) return;
+
+    const track = `${playback.songUrl}@${playback.startedAt}`;
+    if (finishedTrackRef.current === track) return;
+    finishedTrackRef.current = track;
+    advanceMutation.mutate(playback.songUrl);
+  }, [playback, advanceMutation.mutate]);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !playback) return;
+
+    const sync = () => {
+      const expected = expectedPositionMs() / 1000;
+      setPositionMs(expected * 1000);
+      if (!playable) return;
+
+      // Also covers clients that are not listening along
+      if (playback.isPlaying && Number.isFinite(audio.duration) && expected >= audio.duration) {
+        finishTrack();
+        return;
+      }
+
+      const canSeek = audio.readyState >= HTMLMediaElement.HAVE_METADATA;
+      if (!playback.isPlaying || !listening) {
+        if (!audio.paused) audio.pause();
+        if (canSeek && Math.abs(audio.currentTime - expected) > SOFT_DRIFT_SECONDS) {
+          audio.currentTime = expected;
+        }
+        return;
+      }
+
+      const drift = audio.currentTime - expected;
+      if (canSeek && Math.abs(drift) > HARD_DRIFT_SECONDS) {
+        audio.currentTime = expected;
+        audio.playbackRate = 1;
+      } else if (Math.abs(drift) > SOFT_DRIFT_SECONDS) {
+        audio.playbackRate = drift > 0 ? 1 - CATCH_UP_RATE : 1 + CATCH_UP_RATE;
+      } else {
+        audio.playbackRate = 1;
+      }
+
+      if (audio.paused && !audio.ended) {
+        audio.play()
+          .then(() => setBlocked(false))
+          .catch(() => setBlocked(true)); // Autoplay refused until the user interacts
+      }
+    };
+
+    sync();
+    const id = setInterval(sync, SYNC_INTERVAL);
+    return () => clearInterval(id);
+  }, [playback, playable, listening, expectedPositionMs, finishTrack]);
+
+  // Called from a click so starting audio satisfies the browser's autoplay policy
+  const listen = () => {
+    setListening(true);
+    const audio = audioRef.current;
+    if (!audio || !playable || !playback?.isPlaying) return;
+
+    audio.play()
+      .then(() => setBlocked(false))
+      .catch(() => setBlocked(true));
+  };
+
+  const handleLoadedMetadata = () => {
+    const duration = audioRef.current?.duration;
+    setDurationMs(duration && Number.isFinite(duration) ? duration * 1000 : null);
+  };
+
+  return {
+    audioRef,
+    playback,
+    playable,
+    listening,
+    listen,
+    stopListening: () => setListening(false),
+    blocked,
+    volume,
+    setVolume,
+    positionMs: durationMs !== null ? Math.min(positionMs, durationMs) : positionMs,
+    durationMs,
+    handleLoadedMetadata,
+    handleEnded: finishTrack,
+    control: controlMutation.mutate,
+    isControlling: controlMutation.isPending,
+  };
+}
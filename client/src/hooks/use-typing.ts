@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from "react";
+import { apiRequest } from "@/lib/queryClient";
+import { TYPING_EXPIRY_MS, TYPING_THROTTLE_MS } from "@shared/realtime";
+
+// Who is typing in each chat, fed by "typing.updated" events. Kept out of the
+// React Query cache since there is nothing to fetch: signals only live until
+// they expire.
+const typingUsers = new Map<number, number[]>(); // chatId -> user ids
+const expiryTimers = new Map<string, ReturnType<typeof setTimeout>>(); // "chatId:userId"
+const listeners = new Set<() => void>();
+const NOBODY: number[] = [];
+
+export function setUserTyping(chatId: number, userId: number, isTyping: boolean) {
+  const key = `${chatId}:${userId}`;
+  clearTimeout(expiryTimers.get(key));
+  expiryTimers.delete(key);
+  if (isTyping) {
+    // The sender renews the signal while typing; without that it runs out
+    expiryTimers.set(key, setTimeout(() => setUserTyping(chatId, userId, false), TYPING_EXPIRY_MS));
+  }
+
+  const current = typingUsers.get(chatId) ?? NOBODY;
+  if (current.includes(userId) === isTyping) return;
+
+  const updated = isTyping ? [...current, userId] : current.filter(id => id !== userId);
+  if (updated.length > 0) {
+    typingUsers.set(chatId, updated);
+  } else {
+    typingUsers.delete(chatId);
+  }
+  listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Ids of the other members currently typing in a chat, in the order they started
+export function useTypingUsers(chatId: number): number[] {
+  return useSyncExternalStore(subscribe, () => typingUsers.get(chatId) ?? NOBODY);
+}
+
+// Announces the current user's typing in a chat. Call `typing` on every
+// keystroke; it is throttled. `stopped` ends the signal straight away, e.g.
+// once the message is sent or the input is cleared.
+export function useTypingSignal(chatId: number) {
+  const lastSentRef = useRef(0);
+
+  const send = useCallback((isTyping: boolean) => {
+    apiRequest("POST", `/api/chats/${chatId}/typing`, { isTyping }).catch(() => {
+      // Typing signals are best-effort
+    });
+  }, [chatId]);
+
+  const typing = useCallback(() => {
+    const now = Date.now();
+    if (now - lastSentRef.current < TYPING_THROTTLE_MS) return;
+    lastSentRef.current = now;
+    send(true);
+  }, [send]);
+
+  const stopped = useCallback(() => {
+    if (lastSentRef.current === 0) return;
+    lastSentRef.current = 0;
+    send(false);
+  }, [send]);
+
+  // Leaving the chat stops the signal
+  useEffect(() => stopped, [stopped]);
+
+  return { typing, stopped };
+}
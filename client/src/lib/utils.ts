@@ -1,10 +1,23 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
+import type { AvatarSize, User } from "@shared/schema";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+// The name to show for a user: their display name, or else their username
+export function displayName(user: Pick<User, "displayName" | "username">): string {
+  return user.displayName || user.username;
+}
+
+// Where the user's avatar is served at the given size, or null without one.
+// The upload time busts caches when the avatar changes.
+export function avatarUrl(user: Pick<User, "id" | "avatarUpdatedAt">, size: AvatarSize): string | null {
+  if (!user.avatarUpdatedAt) return null;
+  return `/api/users/${user.id}/avatar?size=${size}&v=${new Date(user.avatarUpdatedAt).getTime()}`;
+}
+
 export function getAvatarColor(userId: number): string {
   const colors = [
     "from-pink-400 to-purple-500",
@@ -1,84 +1,124 @@
-import { useState, useEffect } from "react";
-import { useLocation } from "wouter";
+import { useState, useEffect, useRef } from "react";
+import { useLocation, useSearch } from "wouter";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { ChatSidebar } from "@/components/chat-sidebar";
-import { ChatArea } from "@/components/chat-area";
+import { ChatArea, type MessageFocus } from "@/components/chat-area";
+import { MessageSearch } from "@/components/message-search";
 import { MusicRoom } from "@/components/music-room";
 import { usePolling } from "@/hooks/use-polling";
-import { apiRequest } from "@/lib/queryClient";
-import type { User, ChatWithMembers } from "@shared/schema";
+import { useRealtime } from "@/hooks/use-realtime";
+import { usePresence } from "@/hooks/use-presence";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+import { displayName } from "@/lib/utils";
+import type { User, ChatWithMembers, MessageSearchResult } from "@shared/schema";
 
 export default function Chat() {
   const [, setLocation] = useLocation();
-  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const searchParams = useSearch();
   const [activeTab, setActiveTab] = useState<"direct" | "groups" | "music">("direct");
   const [activeChat, setActiveChat] = useState<ChatWithMembers | null>(null);
+  const [focusMessage, setFocusMessage] = useState<MessageFocus | null>(null);
+  const [search, setSearch] = useState<{ query: string; chatId?: number } | null>(null);
   const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  // Load the logged-in user from the session or redirect to welcome
+  const { data: currentUser = null, isLoading } = useQuery<User | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
 
-  // Initialize current user from localStorage or redirect to welcome
   useEffect(() => {
-    const savedUser = localStorage.getItem("currentUser");
-    if (!savedUser) {
-      setLocation("/");
-      return;
-    }
-    
-    try {
-      const user = JSON.parse(savedUser);
-      setCurrentUser(user);
-      queryClient.setQueryData(["currentUser"], user);
-    } catch (error) {
-      localStorage.removeItem("currentUser");
+    if (!isLoading && !currentUser) {
       setLocation("/");
     }
-  }, [setLocation, queryClient]);
+  }, [isLoading, currentUser, setLocation]);
 
-  // Update user online status periodically
-  usePolling(() => {
-    if (currentUser) {
-      apiRequest("PUT", `/api/users/${currentUser.id}/status`, { isOnline: true })
-        .catch(() => {
-          // Silently fail - user might be offline
-        });
-      
-      // Refresh online users and chats
-      queryClient.invalidateQueries({ queryKey: ["/api/users/online"] });
+  const { connected: realtimeConnected } = useRealtime(currentUser);
+
+  // Close the open chat once the user leaves it or is removed from it. A chat
+  // that was only just created may not be listed yet, so watch for it going away.
+  const { data: chats } = useQuery<ChatWithMembers[]>({
+    queryKey: ["/api/chats"],
+    enabled: !!currentUser,
+  });
+  const listedChatIdsRef = useRef(new Set<number>());
+  useEffect(() => {
+    if (!chats) return;
+    const listed = new Set(chats.map(chat => chat.id));
+    if (activeChat && listedChatIdsRef.current.has(activeChat.id) && !listed.has(activeChat.id)) {
+      setActiveChat(null);
     }
-  }, 30000, !!currentUser); // Every 30 seconds
+    listedChatIdsRef.current = listed;
+  }, [chats]);
+
+  usePresence(currentUser);
 
-  // Cleanup on unmount
+  // Open the chat named in ?chat=<id>, as after joining through an invite link
   useEffect(() => {
-    return () => {
-      if (currentUser) {
-        apiRequest("PUT", `/api/users/${currentUser.id}/status`, { isOnline: false })
-          .catch(() => {
-            // Silently fail
-          });
-      }
-    };
-  }, [currentUser]);
+    const chatId = Number(new URLSearchParams(searchParams).get("chat"));
+    if (!currentUser || !chatId) return;
+    setLocation("/chat", { replace: true });
+    openChat(chatId).catch(error => console.error("Failed to open chat:", error));
+  }, [currentUser, searchParams]);
+
+  // Refresh who is online while the realtime socket is down
+  usePolling(() => {
+    queryClient.invalidateQueries({ queryKey: ["/api/users/online"] });
+  }, 30000, !!currentUser && !realtimeConnected); // Every 30 seconds
 
   const handleChatSelect = async (chat: ChatWithMembers) => {
+    setFocusMessage(null);
+    setActiveChat(chat);
+  };
+
+  const openChat = async (chatId: number) => {
+    const response = await apiRequest("GET", `/api/chats/${chatId}`);
+    const chat: ChatWithMembers = await response.json();
+    setActiveTab(chat.type === "direct" ? "direct" : chat.type === "music" ? "music" : "groups");
     setActiveChat(chat);
   };
 
+  const handleSearchSelect = async (result: MessageSearchResult) => {
+    setSearch(null);
+    try {
+      await openChat(result.chatId);
+      setFocusMessage({ messageId: result.id, threadRootId: result.threadRootId });
+    } catch (error) {
+      console.error("Failed to open search result:", error);
+    }
+  };
+
   const handleStartDirectChat = async (otherUser: User) => {
     if (!currentUser) return;
     
     try {
       const response = await apiRequest("POST", "/api/chats/direct", {
-        userId1: currentUser.id,
-        userId2: otherUser.id,
+        userId: otherUser.id,
       });
       const chat = await response.json();
+      setFocusMessage(null);
       setActiveChat(chat);
       setActiveTab("direct");
       
       queryClient.invalidateQueries({
-        queryKey: ["/api/users/" + currentUser.id + "/chats"]
+        queryKey: ["/api/chats"]
       });
     } catch (error) {
       console.error("Failed to create direct chat:", error);
+      // Refused because of a block, or because the other user only accepts
+      // direct messages from friends
+      const refused = error instanceof Error && error.message.startsWith("403");
+      toast({
+        title: "Error",
+        description: !refused
+          ? "Failed to start the chat"
+          : otherUser.directMessagesFrom === "friends"
+            ? `${displayName(otherUser)} only accepts direct messages from friends`
+            : "You can't message this person",
+        variant: "destructive",
+      });
     }
   };
 
@@ -95,6 +135,7 @@ export default function Chat() {
           onTabChange={setActiveTab}
           onChatSelect={handleChatSelect}
           onStartDirectChat={handleStartDirectChat}
+          onSearchMessages={(query) => setSearch({ query })}
           activeChatId={activeChat?.id}
         />
         {activeChat ? (
@@ -102,11 +143,16 @@ export default function Chat() {
             <MusicRoom
               currentUser={currentUser}
               activeChat={activeChat}
+              realtimeConnected={realtimeConnected}
             />
           ) : (
             <ChatArea
               currentUser={currentUser}
               activeChat={activeChat}
+              realtimeConnected={realtimeConnected}
+              focusMessage={focusMessage}
+              onClearFocus={() => setFocusMessage(null)}
+              onSearch={() => setSearch({ query: "", chatId: activeChat.id })}
             />
           )
         ) : (
@@ -117,7 +163,7 @@ export default function Chat() {
               <div className="mt-6 text-sm">
                 <p className="mb-2">How to chat with friends:</p>
                 <div className="space-y-1 text-gray-400">
-                  <p>• Click "Find Friends" to discover online users</p>
+                  <p>• Click "Friends" to add friends and find people to chat with</p>
                   <p>• Start direct conversations instantly</p>
                   <p>• Create group chats for multiple friends</p>
                   <p>• Join music rooms to listen together</p>
@@ -127,6 +173,14 @@ export default function Chat() {
           </div>
         )}
       </div>
+      <MessageSearch
+        open={!!search}
+        onOpenChange={(open) => !open && setSearch(null)}
+        currentUser={currentUser}
+        initialQuery={search?.query}
+        initialChatId={search?.chatId}
+        onSelect={handleSearchSelect}
+      />
     </div>
   );
 }
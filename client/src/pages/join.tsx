@@ -0,0 +1,153 @@
+import { useEffect } from "react";
+import { useLocation, useParams, useSearch } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { UserAvatar } from "@/components/user-avatar";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+import { displayName } from "@/lib/utils";
+import { AlertCircle, Music, Users } from "lucide-react";
+import type { Chat, ChatWithMembers, DirectoryRoom, InvitePreview, User } from "@shared/schema";
+
+// What both kinds of link show before joining
+type JoinPreview = {
+  chat: Pick<Chat, "id" | "name" | "type" | "description">;
+  memberCount: number;
+  invitedBy?: User;
+  expiresAt?: Date | null;
+  isMember: boolean;
+};
+
+function toJoinPreview(data: InvitePreview | DirectoryRoom): JoinPreview {
+  if ("chat" in data) return data;
+  return { chat: data, memberCount: data.memberCount, isMember: data.isMember };
+}
+
+// Why a link can't be used, from the "410: {...}" style error thrown for it
+function linkErrorMessage(error: Error, isInvite: boolean): string {
+  if (!isInvite) {
+    return "This room is private or no longer exists.";
+  }
+  if (error.message.startsWith("410")) {
+    return "This invite link has expired or has been used up. Ask for a new one.";
+  }
+  return "This invite link is invalid or has been revoked.";
+}
+
+// Landing page for an invite link (/join/:token) or the link of a public room
+// (/rooms/:chatId) or unlisted one (/rooms/:chatId?key=...): shows which chat
+// it leads to and joins it
+export default function JoinChat() {
+  const { token, chatId } = useParams<{ token?: string; chatId?: string }>();
+  const key = new URLSearchParams(useSearch()).get("key");
+  const isInvite = token !== undefined;
+  const keyQuery = key ? `?key=${encodeURIComponent(key)}` : "";
+  const linkPath = isInvite ? `/join/${token}` : `/rooms/${chatId}${keyQuery}`;
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: currentUser = null, isLoading } = useQuery<User | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  // Sign in first, then come back here
+  useEffect(() => {
+    if (!isLoading && !currentUser) {
+      setLocation(`/?next=${encodeURIComponent(linkPath)}`);
+    }
+  }, [isLoading, currentUser, linkPath, setLocation]);
+
+  const { data: preview, error } = useQuery<InvitePreview | DirectoryRoom, Error, JoinPreview>({
+    queryKey: [isInvite ? "/api/invites/" + token : "/api/rooms/" + chatId + keyQuery],
+    select: toJoinPreview,
+    enabled: !!currentUser,
+    retry: false,
+  });
+
+  const joinMutation = useMutation({
+    mutationFn: async () => {
+      const response = isInvite
+        ? await apiRequest("POST", `/api/invites/${token}/join`)
+        : await apiRequest("POST", `/api/chats/${chatId}/join`, key ? { key } : undefined);
+      return response.json() as Promise<ChatWithMembers>;
+    },
+    onSuccess: (chat) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/chats"] });
+      setLocation(`/chat?chat=${chat.id}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: linkErrorMessage(error, isInvite),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!currentUser) {
+    return <div className="min-h-screen flex items-center justify-center">Loading...</div>;
+  }
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center p-4 bg-gray-50 dark:bg-slate-900">
+      <Card className="w-full max-w-md">
+        <CardContent className="pt-6">
+          {error ? (
+            <div className="text-center space-y-4">
+              <AlertCircle className="w-10 h-10 text-red-500 mx-auto" />
+              <p className="text-gray-700 dark:text-gray-300">{linkErrorMessage(error, isInvite)}</p>
+              <Button variant="outline" onClick={() => setLocation("/chat")}>
+                Back to chats
+              </Button>
+            </div>
+          ) : !preview ? (
+            <p className="text-center text-gray-500">Loading...</p>
+          ) : (
+            <div className="text-center space-y-4">
+              <div className="inline-flex items-center justify-center w-14 h-14 bg-primary rounded-2xl">
+                {preview.chat.type === "music" ? (
+                  <Music className="w-6 h-6 text-white" />
+                ) : (
+                  <Users className="w-6 h-6 text-white" />
+                )}
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{preview.chat.name}</h1>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {preview.chat.type === "music" ? "Music room" : "Group"} · {preview.memberCount}{" "}
+                  {preview.memberCount === 1 ? "member" : "members"}
+                </p>
+              </div>
+              {preview.chat.description && (
+                <p className="text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{preview.chat.description}</p>
+              )}
+              {preview.invitedBy && (
+                <div className="flex items-center justify-center space-x-2 text-sm text-gray-500 dark:text-gray-400">
+                  <UserAvatar user={preview.invitedBy} className="w-6 h-6" />
+                  <span>Invited by {displayName(preview.invitedBy)}</span>
+                </div>
+              )}
+              {preview.expiresAt && !preview.isMember && (
+                <p className="text-xs text-gray-400">
+                  This invite expires {new Date(preview.expiresAt).toLocaleString()}
+                </p>
+              )}
+              {preview.isMember ? (
+                <Button className="w-full" onClick={() => setLocation(`/chat?chat=${preview.chat.id}`)}>
+                  You're already a member · Open
+                </Button>
+              ) : (
+                <Button className="w-full" disabled={joinMutation.isPending} onClick={() => joinMutation.mutate()}>
+                  {joinMutation.isPending ? "Joining..." : `Join ${preview.chat.name}`}
+                </Button>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
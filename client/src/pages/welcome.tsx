@@ -1,35 +1,56 @@
-import { useState } from "react";
-import { useLocation } from "wouter";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useState, useEffect } from "react";
+import { useLocation, useSearch } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { useTheme } from "@/components/theme-provider";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
 import { MessageCircle, Users, UserPlus, Zap, Moon, Sun } from "lucide-react";
+import type { User } from "@shared/schema";
+
+// Where to go after signing in: ?next=<path> when it stays on this site
+function nextLocation(search: string): string {
+  const next = new URLSearchParams(search).get("next");
+  return next && next.startsWith("/") && !next.startsWith("//") ? next : "/chat";
+}
 
 export default function Welcome() {
+  const [mode, setMode] = useState<"login" | "register">("login");
   const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
   const [, setLocation] = useLocation();
+  const next = nextLocation(useSearch());
   const { theme, toggleTheme } = useTheme();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const createUserMutation = useMutation({
-    mutationFn: async (username: string) => {
-      const response = await apiRequest("POST", "/api/users", { username });
+  const { data: currentUser } = useQuery<User | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  // Skip the form when the session is still valid
+  useEffect(() => {
+    if (currentUser) {
+      setLocation(next);
+    }
+  }, [currentUser, next, setLocation]);
+
+  const authMutation = useMutation({
+    mutationFn: async (credentials: { username: string; password: string }) => {
+      const response = await apiRequest("POST", mode === "login" ? "/api/login" : "/api/register", credentials);
       return response.json();
     },
-    onSuccess: (user) => {
-      localStorage.setItem("currentUser", JSON.stringify(user));
-      queryClient.setQueryData(["currentUser"], user);
-      setLocation("/chat");
+    onSuccess: (user: User) => {
+      queryClient.setQueryData(["/api/user"], user);
+      setLocation(next);
     },
     onError: (error: any) => {
       toast({
         title: "Error",
-        description: error.message || "Failed to create user",
+        description: error.message || (mode === "login" ? "Failed to sign in" : "Failed to create account"),
         variant: "destructive",
       });
     },
@@ -37,15 +58,23 @@ export default function Welcome() {
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!username.trim()) {
+    if (!username.trim() || !password) {
+      toast({
+        title: "Error",
+        description: "Please enter a username and password",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (mode === "register" && password.length < 6) {
       toast({
         title: "Error",
-        description: "Please enter a username",
+        description: "Password must be at least 6 characters",
         variant: "destructive",
       });
       return;
     }
-    createUserMutation.mutate(username.trim());
+    authMutation.mutate({ username: username.trim(), password });
   };
 
   return (
@@ -93,7 +122,9 @@ export default function Welcome() {
         
         <Card className="max-w-md mx-auto shadow-xl">
           <CardContent className="p-8">
-            <h2 className="text-2xl font-bold mb-6">Choose Your Username</h2>
+            <h2 className="text-2xl font-bold mb-6">
+              {mode === "login" ? "Welcome Back" : "Choose Your Username"}
+            </h2>
             <form onSubmit={handleSubmit} className="space-y-4">
               <div>
                 <Input
@@ -102,18 +133,40 @@ export default function Welcome() {
                   value={username}
                   onChange={(e) => setUsername(e.target.value)}
                   className="text-center"
-                  disabled={createUserMutation.isPending}
+                  autoComplete="username"
+                  disabled={authMutation.isPending}
                 />
-                <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">Your friends will see this name</p>
+                {mode === "register" && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">Your friends will see this name</p>
+                )}
               </div>
+              <Input
+                type="password"
+                placeholder="Enter your password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="text-center"
+                autoComplete={mode === "login" ? "current-password" : "new-password"}
+                disabled={authMutation.isPending}
+              />
               <Button 
                 type="submit" 
                 className="w-full"
-                disabled={createUserMutation.isPending}
+                disabled={authMutation.isPending}
               >
-                {createUserMutation.isPending ? "Creating..." : "Start Chatting"}
+                {authMutation.isPending
+                  ? mode === "login" ? "Signing in..." : "Creating..."
+                  : mode === "login" ? "Sign In" : "Start Chatting"}
               </Button>
             </form>
+            <Button
+              variant="link"
+              className="mt-4"
+              onClick={() => setMode(mode === "login" ? "register" : "login")}
+              disabled={authMutation.isPending}
+            >
+              {mode === "login" ? "New here? Create an account" : "Already have an account? Sign in"}
+            </Button>
           </CardContent>
         </Card>
         
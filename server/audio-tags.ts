@@ -0,0 +1,286 @@
+// Reads title, artist and duration from an audio file's own metadata: ID3v2
+// tags and MPEG frame headers for MP3, Vorbis comments for Ogg (Vorbis/Opus)
+// and FLAC, and RIFF INFO chunks for WAV. Malformed or unknown files give
+// empty tags rather than errors.
+
+export type AudioTags = {
+  title: string | null;
+  artist: string | null;
+  durationMs: number | null;
+};
+
+const EMPTY_TAGS: AudioTags = { title: null, artist: null, durationMs: null };
+
+export function readAudioTags(data: Buffer): AudioTags {
+  try {
+    const magic = data.subarray(0, 4).toString("latin1");
+    if (magic.startsWith("ID3") || findMpegFrame(data, 0) === 0) return readMp3(data);
+    if (magic === "OggS") return readOgg(data);
+    if (magic === "fLaC") return readFlac(data);
+    if (magic === "RIFF" && data.subarray(8, 12).toString("latin1") === "WAVE") return readWav(data);
+  } catch (error) {
+    // Truncated or corrupt file; fall through
+  }
+  return EMPTY_TAGS;
+}
+
+function cleanText(text: string): string | null {
+  const trimmed = text.replace(/\0[\s\S]*$/, "").trim(); // Keep the first of several null-separated values
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+function toMs(seconds: number): number | null {
+  return Number.isFinite(seconds) && seconds > 0 ? Math.round(seconds * 1000) : null;
+}
+
+// --- MP3 -------------------------------------------------------------------
+
+function synchsafe(data: Buffer, offset: number): number {
+  return (data[offset] << 21) | (data[offset + 1] << 14) | (data[offset + 2] << 7) | data[offset + 3];
+}
+
+function decodeId3Text(frame: Buffer): string | null {
+  const encoding = frame[0];
+  const body = frame.subarray(1);
+  switch (encoding) {
+    case 0:
+      return cleanText(body.toString("latin1"));
+    case 1: {
+      // UTF-16 with a byte order mark
+      const bigEndian = body[0] === 0xfe && body[1] === 0xff;
+      const text = body.subarray(2);
+      return cleanText((bigEndian ? Buffer.from(text).swap16() : text).toString("utf16le"));
+    }
+    case 2:
+      return cleanText(Buffer.from(body.subarray(0, body.length & ~1)).swap16().toString("utf16le"));
+    default:
+      return cleanText(body.toString("utf8"));
+  }
+}
+
+// Parses an ID3v2 tag at the start of `data`. Returns its text frames by id
+// and where the audio begins.
+function readId3(data: Buffer): { frames: Map<string, string>; end: number } {
+  const frames = new Map<string, string>();
+  if (data.subarray(0, 3).toString("latin1") !== "ID3") return { frames, end: 0 };
+
+  const version = data[3];
+  const flags = data[5];
+  const end = 10 + synchsafe(data, 6) + (flags & 0x10 ? 10 : 0);
+  const idLength = version === 2 ? 3 : 4;
+  const headerLength = version === 2 ? 6 : 10;
+
+  let offset = 10;
+  if (flags & 0x40 && version >= 3) {
+    offset += version === 4 ? synchsafe(data, offset) : data.readUInt32BE(offset) + 4;
+  }
+
+  while (offset + headerLength <= Math.min(end, data.length)) {
+    const id = data.subarray(offset, offset + idLength).toString("latin1");
+    if (!/^[A-Z0-9]+$/.test(id)) break; // Padding
+
+    const size = version === 2
+      ? data.readUIntBE(offset + 3, 3)
+      : version === 4 ? synchsafe(data, offset + 4) : data.readUInt32BE(offset + 4);
+    const body = data.subarray(offset + headerLength, offset + headerLength + size);
+    if (id.startsWith("T") && body.length > 1) {
+      const text = decodeId3Text(body);
+      if (text) frames.set(id, text);
+    }
+    offset += headerLength + size;
+  }
+
+  return { frames, end };
+}
+
+const MPEG1_LAYER3_KBPS = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MPEG2_LAYER3_KBPS = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+const MPEG1_SAMPLE_RATES = [44100, 48000, 32000];
+
+// Offset of the first MPEG audio frame header at or after `from`, or -1
+function findMpegFrame(data: Buffer, from: number): number {
+  const limit = Math.min(data.length - 4, from + 64 * 1024);
+  for (let offset = from; offset <= limit; offset++) {
+    if (data[offset] === 0xff && (data[offset + 1] & 0xe0) === 0xe0) {
+      const versionBits = (data[offset + 1] >> 3) & 3;
+      const layerBits = (data[offset + 1] >> 1) & 3;
+      const bitrateIndex = data[offset + 2] >> 4;
+      const rateIndex = (data[offset + 2] >> 2) & 3;
+      if (versionBits !== 1 && layerBits === 1 && bitrateIndex > 0 && bitrateIndex < 15 && rateIndex < 3) {
+        return offset;
+      }
+    }
+  }
+  return -1;
+}
+
+// Duration from the first Layer III frame: exact when the encoder wrote a
+// Xing/Info or VBRI frame count, otherwise estimated from a constant bitrate
+function mp3DurationMs(data: Buffer, audioStart: number): number | null {
+  const frame = findMpegFrame(data, audioStart);
+  if (frame < 0) return null;
+
+  const versionBits = (data[frame + 1] >> 3) & 3; // 3: MPEG-1, 2: MPEG-2, 0: MPEG-2.5
+  const isMpeg1 = versionBits === 3;
+  const sampleRate = MPEG1_SAMPLE_RATES[(data[frame + 2] >> 2) & 3] / (isMpeg1 ? 1 : versionBits === 2 ? 2 : 4);
+  const samplesPerFrame = isMpeg1 ? 1152 : 576;
+  const mono = data[frame + 3] >> 6 === 3;
+
+  const xing = frame + 4 + (isMpeg1 ? (mono ? 17 : 32) : (mono ? 9 : 17));
+  const xingTag = data.subarray(xing, xing + 4).toString("latin1");
+  if ((xingTag === "Xing" || xingTag === "Info") && data.readUInt32BE(xing + 4) & 1) {
+    return toMs(data.readUInt32BE(xing + 8) * samplesPerFrame / sampleRate);
+  }
+  const vbri = frame + 4 + 32;
+  if (data.subarray(vbri, vbri + 4).toString("latin1") === "VBRI") {
+    return toMs(data.readUInt32BE(vbri + 14) * samplesPerFrame / sampleRate);
+  }
+
+  const kbps = (isMpeg1 ? MPEG1_LAYER3_KBPS : MPEG2_LAYER3_KBPS)[data[frame + 2] >> 4];
+  return toMs((data.length - frame) * 8 / (kbps * 1000));
+}
+
+function readMp3(data: Buffer): AudioTags {
+  const { frames, end } = readId3(data);
+  const length = Number(frames.get("TLEN") ?? frames.get("TLE"));
+  return {
+    title: frames.get("TIT2") ?? frames.get("TT2") ?? null,
+    artist: frames.get("TPE1") ?? frames.get("TP1") ?? null,
+    durationMs: length > 0 ? Math.round(length) : mp3DurationMs(data, end),
+  };
+}
+
+// --- Vorbis comments (Ogg and FLAC) ----------------------------------------
+
+function readVorbisComments(data: Buffer, offset: number): Pick<AudioTags, "title" | "artist"> {
+  const fields = new Map<string, string>();
+  offset += 4 + data.readUInt32LE(offset); // Vendor string
+  const count = data.readUInt32LE(offset);
+  offset += 4;
+
+  for (let i = 0; i < count && offset + 4 <= data.length; i++) {
+    const length = data.readUInt32LE(offset);
+    const comment = data.subarray(offset + 4, offset + 4 + length).toString("utf8");
+    offset += 4 + length;
+
+    const separator = comment.indexOf("=");
+    const key = comment.slice(0, separator).toUpperCase();
+    if (separator > 0 && !fields.has(key)) {
+      fields.set(key, comment.slice(separator + 1));
+    }
+  }
+
+  return {
+    title: cleanText(fields.get("TITLE") ?? ""),
+    artist: cleanText(fields.get("ARTIST") ?? ""),
+  };
+}
+
+// The first `count` packets of the file's first logical stream
+function readOggPackets(data: Buffer, count: number): Buffer[] {
+  const packets: Buffer[] = [];
+  let pending: Buffer[] = [];
+  let offset = 0;
+
+  while (packets.length < count && data.subarray(offset, offset + 4).toString("latin1") === "OggS") {
+    const segments = data[offset + 26];
+    let bodyOffset = offset + 27 + segments;
+    for (let i = 0; i < segments && packets.length < count; i++) {
+      const size = data[offset + 27 + i];
+      pending.push(data.subarray(bodyOffset, bodyOffset + size));
+      bodyOffset += size;
+      if (size < 255) {
+        packets.push(Buffer.concat(pending));
+        pending = [];
+      }
+    }
+    offset = bodyOffset;
+  }
+  return packets;
+}
+
+// Granule position of the last page, i.e. the sample count at the end
+function lastOggGranule(data: Buffer): number | null {
+  let offset = data.lastIndexOf("OggS");
+  while (offset >= 0) {
+    const granule = data.readBigInt64LE(offset + 6);
+    if (granule >= BigInt(0)) return Number(granule);
+    offset = data.lastIndexOf("OggS", offset - 1);
+  }
+  return null;
+}
+
+function readOgg(data: Buffer): AudioTags {
+  const [identification, comments] = readOggPackets(data, 2);
+  if (!identification || !comments) return EMPTY_TAGS;
+
+  const granule = lastOggGranule(data);
+  if (identification.subarray(0, 7).toString("latin1") === "\x01vorbis" && comments.subarray(0, 7).toString("latin1") === "\x03vorbis") {
+    const sampleRate = identification.readUInt32LE(12);
+    return { ...readVorbisComments(comments, 7), durationMs: granule !== null ? toMs(granule / sampleRate) : null };
+  }
+  if (identification.subarray(0, 8).toString("latin1") === "OpusHead" && comments.subarray(0, 8).toString("latin1") === "OpusTags") {
+    const preSkip = identification.readUInt16LE(10);
+    return { ...readVorbisComments(comments, 8), durationMs: granule !== null ? toMs((granule - preSkip) / 48000) : null };
+  }
+  return EMPTY_TAGS;
+}
+
+function readFlac(data: Buffer): AudioTags {
+  const tags: AudioTags = { ...EMPTY_TAGS };
+  let offset = 4;
+  let last = false;
+
+  while (!last && offset + 4 <= data.length) {
+    last = (data[offset] & 0x80) !== 0;
+    const type = data[offset] & 0x7f;
+    const length = data.readUIntBE(offset + 1, 3);
+    const block = offset + 4;
+
+    if (type === 0) {
+      // STREAMINFO: 20-bit sample rate, then a 36-bit total sample count
+      const sampleRate = (data[block + 10] << 12) | (data[block + 11] << 4) | (data[block + 12] >> 4);
+      const totalSamples = (data[block + 13] & 0x0f) * 2 ** 32 + data.readUInt32BE(block + 14);
+      tags.durationMs = sampleRate > 0 ? toMs(totalSamples / sampleRate) : null;
+    } else if (type === 4) {
+      Object.assign(tags, readVorbisComments(data, block));
+    }
+    offset = block + length;
+  }
+  return tags;
+}
+
+// --- WAV -------------------------------------------------------------------
+
+function readWav(data: Buffer): AudioTags {
+  const tags: AudioTags = { ...EMPTY_TAGS };
+  let byteRate = 0;
+  let dataSize = 0;
+  let offset = 12;
+
+  while (offset + 8 <= data.length) {
+    const id = data.subarray(offset, offset + 4).toString("latin1");
+    const size = data.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (id === "fmt ") {
+      byteRate = data.readUInt32LE(body + 8);
+    } else if (id === "data") {
+      dataSize = size;
+    } else if (id === "LIST" && data.subarray(body, body + 4).toString("latin1") === "INFO") {
+      let info = body + 4;
+      while (info + 8 <= body + size) {
+        const infoId = data.subarray(info, info + 4).toString("latin1");
+        const infoSize = data.readUInt32LE(info + 4);
+        const text = cleanText(data.subarray(info + 8, info + 8 + infoSize).toString("utf8"));
+        if (infoId === "INAM") tags.title = text;
+        if (infoId === "IART") tags.artist = text;
+        info += 8 + infoSize + (infoSize % 2);
+      }
+    }
+    offset = body + size + (size % 2);
+  }
+
+  tags.durationMs = byteRate > 0 ? toMs(dataSize / byteRate) : null;
+  return tags;
+}
@@ -0,0 +1,213 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { storage } from "./storage";
+import { isHost, musicRoomRules } from "@shared/music-roles";
+import { groupRules } from "@shared/group-roles";
+import type { Attachment, Chat, ChatMember, Message } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface Request {
+      chat?: Chat;
+      chatMember?: ChatMember;
+      message?: Message;
+      attachment?: Attachment;
+    }
+  }
+}
+
+export type ChatType = "direct" | "group" | "music";
+export type ChatAction =
+  | "view" | "post" | "addMember" | "join" | "leave"
+  | "manageGroup" | "removeMember" | "changeRole" | "transferOwnership" | "manageInvites"
+  | "controlPlayback" | "queueSong" | "voteQueue" | "hostRoom";
+
+type ChatPolicy = Record<ChatAction, (member: ChatMember | undefined, chat: Chat) => boolean>;
+
+const isMember = (member: ChatMember | undefined) => member !== undefined;
+const never = () => false;
+// Public rooms can be joined by anyone. Unlisted ones need the key from their
+// link instead, which routes check with hasRoomLinkKey.
+const isPublic = (_member: ChatMember | undefined, chat: Chat) => chat.visibility === "public";
+
+// Who may do what in each kind of chat. Anything not listed here is denied.
+export const chatPolicies: Record<ChatType, ChatPolicy> = {
+  // A direct chat is fixed to its two participants
+  direct: {
+    view: isMember,
+    post: isMember,
+    addMember: never,
+    join: never,
+    leave: never,
+    manageGroup: never,
+    removeMember: never,
+    changeRole: never,
+    transferOwnership: never,
+    manageInvites: never,
+    controlPlayback: never,
+    queueSong: never,
+    voteQueue: never,
+    hostRoom: never,
+  },
+  // Groups are run by their owner and admins
+  group: {
+    view: isMember,
+    post: isMember,
+    join: isPublic,
+    leave: isMember,
+    ...groupRules,
+    controlPlayback: never,
+    queueSong: never,
+    voteQueue: never,
+    hostRoom: never,
+  },
+  // Only music rooms have shared playback, run by their host and DJs
+  music: {
+    view: isMember,
+    post: isMember,
+    // Others come in through the room's link or an invite
+    addMember: musicRoomRules.hostRoom,
+    join: isPublic,
+    // The host stays with the room
+    leave: (member) => isMember(member) && !isHost(member),
+    manageGroup: never,
+    removeMember: never,
+    changeRole: musicRoomRules.hostRoom,
+    transferOwnership: never,
+    manageInvites: musicRoomRules.hostRoom,
+    ...musicRoomRules,
+  },
+};
+
+export class ChatAccessError extends Error {
+  constructor(public status: 400 | 403 | 404, message: string) {
+    super(message);
+  }
+}
+
+// Whether `key` opens an unlisted room. Room ids are sequential, so the link of
+// an unlisted room carries this key to keep it from being found by counting.
+export function hasRoomLinkKey(chat: Chat, key: unknown): boolean {
+  return chat.visibility === "unlisted" && typeof key === "string" && key === chat.linkToken;
+}
+
+export function canPerform(action: ChatAction, member: ChatMember | undefined, chat: Chat): boolean {
+  const policy = chatPolicies[chat.type as ChatType];
+  return !!policy && policy[action](member, chat);
+}
+
+// Loads the chat and the caller's membership, then applies the chat type's
+// policy for `action`. Throws ChatAccessError when the caller is not allowed.
+export async function authorizeChatAction(
+  chatId: number,
+  userId: number,
+  action: ChatAction,
+): Promise<{ chat: Chat; member: ChatMember | undefined }> {
+  if (!Number.isInteger(chatId)) {
+    throw new ChatAccessError(400, "Invalid chat id");
+  }
+
+  const chat = await storage.getChat(chatId);
+  if (!chat) {
+    throw new ChatAccessError(404, "Chat not found");
+  }
+
+  const member = await storage.getChatMember(chatId, userId);
+  if (!canPerform(action, member, chat)) {
+    throw new ChatAccessError(403, member ? "You are not allowed to do that in this chat" : "You do not have access to this chat");
+  }
+
+  return { chat, member };
+}
+
+// Route guard for chat-scoped routes. Reads the chat id from `:chatId` or, for
+// routes that carry it in the payload, from `req.body.chatId`.
+export function authorizeChat(action: ChatAction): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const rawChatId = req.params.chatId ?? req.body?.chatId;
+    try {
+      const { chat, member } = await authorizeChatAction(Number(rawChatId), req.user!.id, action);
+      req.chat = chat;
+      req.chatMember = member;
+      next();
+    } catch (error) {
+      if (error instanceof ChatAccessError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to authorize chat access" });
+    }
+  };
+}
+
+// Route guard for message-scoped routes (`:messageId`). Authorizes `action` on
+// the message's chat and, with `senderOnly`, also requires the caller to be
+// the message's sender.
+export function authorizeMessage(action: ChatAction, options: { senderOnly?: boolean } = {}): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const messageId = Number(req.params.messageId);
+      if (!Number.isInteger(messageId)) {
+        throw new ChatAccessError(400, "Invalid message id");
+      }
+
+      const message = await storage.getMessage(messageId);
+      if (!message) {
+        throw new ChatAccessError(404, "Message not found");
+      }
+
+      const { chat, member } = await authorizeChatAction(message.chatId, req.user!.id, action);
+      if (options.senderOnly && message.senderId !== req.user!.id) {
+        throw new ChatAccessError(403, "Only the sender can change this message");
+      }
+
+      req.chat = chat;
+      req.chatMember = member;
+      req.message = message;
+      next();
+    } catch (error) {
+      if (error instanceof ChatAccessError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to authorize message access" });
+    }
+  };
+}
+
+// Route guard for attachment downloads (`:attachmentId`). Files are readable by
+// anyone who may view their chat, except while unsent (uploader only) or once
+// their message has been deleted.
+export function authorizeAttachment(action: ChatAction): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const attachmentId = Number(req.params.attachmentId);
+      if (!Number.isInteger(attachmentId)) {
+        throw new ChatAccessError(400, "Invalid attachment id");
+      }
+
+      const attachment = await storage.getAttachment(attachmentId);
+      if (!attachment) {
+        throw new ChatAccessError(404, "Attachment not found");
+      }
+
+      const { chat, member } = await authorizeChatAction(attachment.chatId, req.user!.id, action);
+      if (attachment.messageId === null && attachment.uploaderId !== req.user!.id) {
+        throw new ChatAccessError(404, "Attachment not found");
+      }
+      if (attachment.messageId !== null) {
+        const message = await storage.getMessage(attachment.messageId);
+        if (!message || message.deletedAt) {
+          throw new ChatAccessError(404, "Attachment not found");
+        }
+      }
+
+      req.chat = chat;
+      req.chatMember = member;
+      req.attachment = attachment;
+      next();
+    } catch (error) {
+      if (error instanceof ChatAccessError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to authorize attachment access" });
+    }
+  };
+}
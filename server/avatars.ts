@@ -0,0 +1,21 @@
+import sharp from "sharp";
+import { AVATAR_SIZES, type AvatarSize } from "@shared/schema";
+
+export const AVATAR_CONTENT_TYPE = "image/webp";
+
+// The upload could not be decoded as an image
+export class AvatarImageError extends Error {}
+
+// Crops an uploaded image to a centered square and renders it at every
+// avatar size. Only the first frame of an animated image is kept.
+export async function resizeAvatar(data: Buffer): Promise<Record<AvatarSize, Buffer>> {
+  try {
+    const image = sharp(data, { animated: false }).rotate(); // Honour EXIF orientation
+    const resized = await Promise.all(AVATAR_SIZES.map(size =>
+      image.clone().resize(size, size, { fit: "cover" }).webp({ quality: 85 }).toBuffer(),
+    ));
+    return Object.fromEntries(AVATAR_SIZES.map((size, index) => [size, resized[index]])) as Record<AvatarSize, Buffer>;
+  } catch (error) {
+    throw new AvatarImageError("Not a readable image");
+  }
+}
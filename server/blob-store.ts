@@ -0,0 +1,41 @@
+import { promises as fs, createReadStream } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { Readable } from "stream";
+
+// Where attachment bytes live. Rows in `attachments` only hold the key, so a
+// different backend (S3, GCS, ...) can be swapped in behind this interface.
+export interface BlobStore {
+  put(data: Buffer): Promise<string>;
+  read(key: string): Readable;
+  delete(key: string): Promise<void>;
+}
+
+export class LocalDiskBlobStore implements BlobStore {
+  constructor(private root: string) {}
+
+  // Keys are generated here, never taken from user input, so they cannot
+  // escape the upload directory
+  async put(data: Buffer): Promise<string> {
+    const key = randomUUID();
+    await fs.mkdir(this.root, { recursive: true });
+    await fs.writeFile(this.pathFor(key), data);
+    return key;
+  }
+
+  read(key: string): Readable {
+    return createReadStream(this.pathFor(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.pathFor(key), { force: true });
+  }
+
+  private pathFor(key: string) {
+    return path.join(this.root, path.basename(key));
+  }
+}
+
+export const blobStore: BlobStore = new LocalDiskBlobStore(
+  path.resolve(process.env.UPLOAD_DIR || "uploads")
+);
@@ -0,0 +1,145 @@
+import type { Chat, User } from "@shared/schema";
+import { storage } from "./storage";
+
+export class FriendshipError extends Error {
+  constructor(public status: 400 | 403 | 404 | 409, message: string) {
+    super(message);
+  }
+}
+
+export async function areFriends(userId: number, otherId: number): Promise<boolean> {
+  const friendship = await storage.getFriendship(userId, otherId);
+  return friendship?.status === "accepted";
+}
+
+// Whether either user blocked the other
+export async function isBlockedBetween(userId: number, otherId: number): Promise<boolean> {
+  const [mine, theirs] = await Promise.all([
+    storage.getFriendship(userId, otherId),
+    storage.getFriendship(otherId, userId),
+  ]);
+  return mine?.status === "blocked" || theirs?.status === "blocked";
+}
+
+// Users that `userId` can't find and who can't find them, because one blocked
+// the other
+export async function hiddenUserIds(userId: number): Promise<Set<number>> {
+  const [blocked, blockers] = await Promise.all([storage.getBlockedUserIds(userId), storage.getBlockerIds(userId)]);
+  return new Set([...blocked, ...blockers]);
+}
+
+// A block between the two people in a direct chat keeps both from posting in it
+export async function isDirectChatBlocked(chat: Chat, senderId: number): Promise<boolean> {
+  if (chat.type !== "direct") return false;
+
+  const members = await storage.getChatMembers(chat.id);
+  const other = members.find(member => member.userId !== senderId);
+  return !!other && await isBlockedBetween(senderId, other.userId);
+}
+
+// Whether `sender` may open a new direct chat with `recipient`, given who the
+// recipient accepts direct messages from
+export async function canStartDirectChat(sender: User, recipient: User): Promise<boolean> {
+  return recipient.directMessagesFrom !== "friends" || await areFriends(sender.id, recipient.id);
+}
+
+// The other user of a friendship route (`:userId`), who must exist and not be
+// the caller
+export async function loadFriendTarget(userId: number, rawTargetId: string): Promise<User> {
+  const targetId = Number(rawTargetId);
+  if (!Number.isInteger(targetId) || targetId === userId) {
+    throw new FriendshipError(400, "Invalid user");
+  }
+
+  const target = await storage.getUser(targetId);
+  if (!target) {
+    throw new FriendshipError(404, "User not found");
+  }
+  return target;
+}
+
+// Asks `friendId` to be friends. If they already asked the caller, the two
+// simply become friends. Asking again after being declined renews the request.
+export async function requestFriendship(userId: number, friendId: number): Promise<void> {
+  const [mine, theirs] = await Promise.all([
+    storage.getFriendship(userId, friendId),
+    storage.getFriendship(friendId, userId),
+  ]);
+
+  if (mine?.status === "blocked" || theirs?.status === "blocked") {
+    throw new FriendshipError(403, "You can't send this person a friend request");
+  }
+  if (mine?.status === "accepted") {
+    throw new FriendshipError(409, "You are already friends");
+  }
+
+  if (theirs?.status === "pending") {
+    await acceptFriendship(userId, friendId);
+  } else {
+    await storage.setFriendship(userId, friendId, "pending");
+  }
+}
+
+// Accepts the pending request `requesterId` sent the caller
+export async function acceptFriendship(userId: number, requesterId: number): Promise<void> {
+  const request = await storage.getFriendship(requesterId, userId);
+  if (request?.status !== "pending") {
+    throw new FriendshipError(404, "No friend request from this user");
+  }
+
+  await storage.setFriendship(requesterId, userId, "accepted");
+  await storage.setFriendship(userId, requesterId, "accepted");
+}
+
+// Turns down the request, which drops out of both users' lists. The requester
+// may ask again.
+export async function declineFriendship(userId: number, requesterId: number): Promise<void> {
+  const request = await storage.getFriendship(requesterId, userId);
+  if (request?.status !== "pending") {
+    throw new FriendshipError(404, "No friend request from this user");
+  }
+
+  await storage.setFriendship(requesterId, userId, "declined");
+}
+
+// Ends a friendship on both sides, or withdraws the caller's own request
+export async function removeFriendship(userId: number, friendId: number): Promise<void> {
+  const mine = await storage.getFriendship(userId, friendId);
+  if (mine?.status === "accepted") {
+    await storage.deleteFriendship(userId, friendId);
+    await storage.deleteFriendship(friendId, userId);
+  } else if (mine?.status === "pending") {
+    await storage.deleteFriendship(userId, friendId);
+  } else {
+    throw new FriendshipError(404, "You are not friends with this user");
+  }
+}
+
+// Ends any friendship or request between the two. Afterwards the caller no
+// longer sees the blocked user's messages, and the blocked user can't message
+// them or add them to groups.
+export async function blockUser(userId: number, targetId: number): Promise<void> {
+  const theirs = await storage.getFriendship(targetId, userId);
+  // If they blocked the caller too, their block stays
+  if (theirs && theirs.status !== "blocked") {
+    await storage.deleteFriendship(targetId, userId);
+  }
+  await storage.setFriendship(userId, targetId, "blocked");
+}
+
+export async function unblockUser(userId: number, targetId: number): Promise<void> {
+  const mine = await storage.getFriendship(userId, targetId);
+  if (mine?.status !== "blocked") {
+    throw new FriendshipError(404, "You have not blocked this user");
+  }
+  await storage.deleteFriendship(userId, targetId);
+}
+
+// Muted users' messages still arrive but never count as unread
+export async function muteUser(userId: number, targetId: number): Promise<void> {
+  await storage.setMute(userId, targetId, true);
+}
+
+export async function unmuteUser(userId: number, targetId: number): Promise<void> {
+  await storage.setMute(userId, targetId, false);
+}
@@ -0,0 +1,200 @@
+import type { Chat, PlaybackAction, PlaybackState, PlayEndReason, TrackMetadata } from "@shared/schema";
+import { storage, type PlaybackUpdate } from "./storage";
+import { ChatAccessError } from "./authorization";
+
+// Slack for clock and metadata differences when a client reports a track ended
+const TRACK_END_TOLERANCE_MS = 2000;
+
+// A track without a known duration ends early only on the host's word. Anyone
+// else needs it to have played this long, and END_REPORTS_NEEDED members (or
+// everyone online, if fewer) to have seen it end.
+const MIN_PLAYED_MS = 30000;
+const END_REPORTS_NEEDED = 2;
+
+// Where the room's track is right now on the server clock
+export function currentPositionMs(chat: Chat, now: Date): number {
+  if (!chat.isPlaying || !chat.playbackStartedAt) return chat.playbackPositionMs;
+  return chat.playbackPositionMs + Math.max(0, now.getTime() - chat.playbackStartedAt.getTime());
+}
+
+// Whether the room's track has played to its end, as far as the server can
+// tell. Without a known duration it can't; see agreesTrackEnded.
+function hasFinished(chat: Chat, now: Date): boolean {
+  const durationMs = chat.currentTrack?.durationMs;
+  return durationMs != null && currentPositionMs(chat, now) >= durationMs - TRACK_END_TOLERANCE_MS;
+}
+
+// Members who reported the end of each room's current track
+const endReports = new Map<number, { songUrl: string; userIds: Set<number> }>();
+
+// Counts `actorId`'s report that the room's current track, which has no known
+// duration, has ended, and whether enough has been heard to believe it.
+async function agreesTrackEnded(chat: Chat, actorId: number, canSkip: boolean, now: Date): Promise<boolean> {
+  if (canSkip) return true;
+  if (chat.songUrl === null || currentPositionMs(chat, now) < MIN_PLAYED_MS) return false;
+
+  let reports = endReports.get(chat.id);
+  if (reports?.songUrl !== chat.songUrl) {
+    reports = { songUrl: chat.songUrl, userIds: new Set() };
+    endReports.set(chat.id, reports);
+  }
+  reports.userIds.add(actorId);
+
+  const members = await storage.getChatMembers(chat.id);
+  const online = members.filter(member => member.user.isOnline).length;
+  return reports.userIds.size >= Math.max(1, Math.min(END_REPORTS_NEEDED, online));
+}
+
+// Whether the room's current track is over as far as the server is concerned:
+// it played to its known end, or this "next" reports an end the server agrees
+// with. Decides both who may move on and how the play is recorded.
+async function trackEnded(chat: Chat, action: PlaybackAction, canSkip: boolean, actorId: number, now: Date): Promise<boolean> {
+  if (chat.songUrl === null) return false;
+  if (chat.currentTrack?.durationMs != null) return hasFinished(chat, now);
+  return action.action === "next" && action.fromSongUrl === chat.songUrl &&
+    agreesTrackEnded(chat, actorId, canSkip, now);
+}
+
+export function toPlaybackState(chat: Chat, now = new Date()): PlaybackState {
+  return {
+    chatId: chat.id,
+    currentSong: chat.currentSong,
+    songUrl: chat.songUrl,
+    track: chat.currentTrack,
+    isPlaying: !!chat.isPlaying,
+    positionMs: chat.playbackPositionMs,
+    startedAt: chat.playbackStartedAt,
+    serverTime: now,
+  };
+}
+
+const stopped: PlaybackUpdate = {
+  currentSong: null,
+  songUrl: null,
+  currentTrack: null,
+  isPlaying: false,
+  playbackPositionMs: 0,
+  playbackStartedAt: null,
+};
+
+function loaded(track: TrackMetadata, now: Date): PlaybackUpdate {
+  return {
+    currentSong: track.title,
+    songUrl: track.url,
+    currentTrack: track,
+    isPlaying: true,
+    playbackPositionMs: 0,
+    playbackStartedAt: now,
+  };
+}
+
+// Applies a control action to the room's playback. Every change re-anchors the
+// position at `now` so clients only need (position, startedAt) to stay in sync.
+// `track` is what a "load" or "next" action switches to; "next" stops playback
+// when there is nothing left in the queue.
+export function nextPlayback(chat: Chat, action: PlaybackAction, now: Date, track?: TrackMetadata): PlaybackUpdate {
+  const current: PlaybackUpdate = {
+    currentSong: chat.currentSong,
+    songUrl: chat.songUrl,
+    currentTrack: chat.currentTrack,
+    isPlaying: !!chat.isPlaying,
+    playbackPositionMs: currentPositionMs(chat, now),
+    playbackStartedAt: now,
+  };
+
+  switch (action.action) {
+    case "load":
+      return track ? loaded(track, now) : current;
+    case "play":
+      return { ...current, isPlaying: !!current.songUrl, playbackPositionMs: action.positionMs ?? current.playbackPositionMs };
+    case "pause":
+      return { ...current, isPlaying: false, playbackPositionMs: action.positionMs ?? current.playbackPositionMs };
+    case "seek":
+      return { ...current, playbackPositionMs: action.positionMs };
+    case "stop":
+      return stopped;
+    case "next":
+      return track ? loaded(track, now) : stopped;
+  }
+}
+
+const pending = new Map<number, Promise<unknown>>();
+
+// Runs a room's playback changes one at a time, so that e.g. several clients
+// reporting the end of the same track only advance the queue once. Like the
+// realtime hub, this assumes a single server process.
+function serialize<T>(chatId: number, task: () => Promise<T>): Promise<T> {
+  const run = (pending.get(chatId) ?? Promise.resolve()).then(task);
+  const settled = run.catch(() => undefined);
+  pending.set(chatId, settled);
+  settled.then(() => {
+    if (pending.get(chatId) === settled) pending.delete(chatId);
+  });
+  return run;
+}
+
+export type PlaybackChange = {
+  chat: Chat;
+  playback: PlaybackState;
+  queueChanged: boolean; // A queued track was taken off the queue
+};
+
+// Closes the play of the track the room is leaving and opens one for the track
+// it moves on to, if any
+async function recordPlays(chat: Chat, updated: Chat, action: PlaybackAction, now: Date, queuedById: number, ended: boolean) {
+  if (action.action !== "load" && action.action !== "next" && action.action !== "stop") return;
+
+  if (chat.songUrl !== null) {
+    const endReason: PlayEndReason = ended ? "completed" : "skipped";
+    const durationMs = chat.currentTrack?.durationMs;
+    const playedMs = currentPositionMs(chat, now);
+    await storage.endPlay(chat.id, {
+      endedAt: now,
+      playedMs: durationMs != null ? Math.min(playedMs, durationMs) : playedMs,
+      endReason,
+    });
+  }
+  if (updated.currentTrack) {
+    await storage.startPlay({ chatId: chat.id, queuedById, track: updated.currentTrack, startedAt: now });
+  }
+}
+
+// Loads the room's current state and applies `action` to it; a "load" action
+// plays `loadTrack`. Callers who may not skip can only move on from a track
+// that has ended; until enough of them report the end of a track with no known
+// duration, their reports leave playback as it is. Track changes are recorded in the room's play history,
+// crediting loaded tracks to `actorId`. Returns undefined if the chat no
+// longer exists.
+export function changePlayback(
+  chatId: number,
+  action: PlaybackAction,
+  options: { loadTrack?: TrackMetadata; canSkip: boolean; actorId: number },
+): Promise<PlaybackChange | undefined> {
+  return serialize(chatId, async () => {
+    const chat = await storage.getChat(chatId);
+    if (!chat) return undefined;
+
+    // Someone already moved past the track this client saw finish
+    if (action.action === "next" && action.fromSongUrl !== undefined && action.fromSongUrl !== chat.songUrl) {
+      return { chat, playback: toPlaybackState(chat), queueChanged: false };
+    }
+    const now = new Date();
+    const ended = await trackEnded(chat, action, options.canSkip, options.actorId, now);
+    if (action.action === "next" && !options.canSkip && chat.songUrl !== null && !ended) {
+      if (action.fromSongUrl === chat.songUrl && chat.currentTrack?.durationMs == null) {
+        return { chat, playback: toPlaybackState(chat, now), queueChanged: false };
+      }
+      throw new ChatAccessError(403, "Only the host can skip songs");
+    }
+
+    const upNext = action.action === "next" ? await storage.takeNextQueueItem(chatId) : undefined;
+    const track = action.action === "next" ? upNext?.track : options.loadTrack;
+    const updated = await storage.updatePlayback(chatId, nextPlayback(chat, action, now, track));
+    if (!updated) return undefined;
+    if (action.action === "next" || action.action === "load" || action.action === "stop") endReports.delete(chatId);
+
+    await recordPlays(chat, updated, action, now, upNext?.addedById ?? options.actorId, ended);
+
+    return { chat: updated, playback: toPlaybackState(updated, now), queueChanged: upNext !== undefined };
+  });
+}
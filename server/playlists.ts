@@ -0,0 +1,244 @@
+import {
+  MAX_SONG_TITLE_LENGTH, songTitleSchema, type PlaylistEntryError, type PlaylistFormat, type TrackMetadata,
+} from "@shared/schema";
+
+// One song read from a playlist file, before its link has been checked.
+// `entry` is its 1-based position in the file.
+export type PlaylistEntry = {
+  entry: number;
+  location: string | null;
+  title: string | null;
+  artist: string | null;
+  durationMs: number | null;
+};
+
+export type ParsedPlaylist = {
+  name: string | null;
+  entries: PlaylistEntry[];
+  errors: PlaylistEntryError[]; // Entries that could not be read at all
+};
+
+// The whole file is unreadable as the given (or detected) format
+export class PlaylistFormatError extends Error {}
+
+const CONTENT_TYPES: Record<PlaylistFormat, string> = {
+  m3u: "audio/x-mpegurl; charset=iso-8859-1",
+  m3u8: "application/vnd.apple.mpegurl; charset=utf-8",
+  xspf: "application/xspf+xml; charset=utf-8",
+  json: "application/json; charset=utf-8",
+};
+
+const XML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'" };
+
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&${Object.keys(XML_ENTITIES).find(name => XML_ENTITIES[name] === char)};`);
+}
+
+function unescapeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+      if (entity[0] !== "#") return XML_ENTITIES[entity] ?? match;
+      const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    });
+}
+
+function xmlField(xml: string, tag: string): string | null {
+  const match = xml.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`));
+  const value = match ? unescapeXml(match[1]).trim() : "";
+  return value || null;
+}
+
+// Each M3U entry is a single line
+function oneLine(text: string): string {
+  return text.replace(/[\r\n]+/g, " ");
+}
+
+function durationSeconds(track: TrackMetadata): number {
+  return track.durationMs !== null ? Math.round(track.durationMs / 1000) : -1;
+}
+
+function toM3u(name: string, tracks: TrackMetadata[]): string {
+  const lines = ["#EXTM3U", `#PLAYLIST:${oneLine(name)}`];
+  for (const track of tracks) {
+    const label = track.artist ? `${track.artist} - ${track.title}` : track.title;
+    lines.push(`#EXTINF:${durationSeconds(track)},${oneLine(label)}`, track.url);
+  }
+  return lines.join("\n") + "\n";
+}
+
+function toXspf(name: string, tracks: TrackMetadata[]): string {
+  const trackList = tracks.map(track => [
+    "    <track>",
+    `      <location>${escapeXml(track.url)}</location>`,
+    `      <title>${escapeXml(track.title)}</title>`,
+    track.artist ? `      <creator>${escapeXml(track.artist)}</creator>` : null,
+    track.durationMs !== null ? `      <duration>${track.durationMs}</duration>` : null,
+    track.artworkUrl ? `      <image>${escapeXml(track.artworkUrl)}</image>` : null,
+    "    </track>",
+  ].filter(line => line !== null).join("\n"));
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<playlist version="1" xmlns="http://xspf.org/ns/0/">`,
+    `  <title>${escapeXml(name)}</title>`,
+    "  <trackList>",
+    ...trackList,
+    "  </trackList>",
+    "</playlist>",
+  ].join("\n") + "\n";
+}
+
+function toJson(name: string, tracks: TrackMetadata[]): string {
+  return JSON.stringify({
+    name,
+    tracks: tracks.map(({ url, title, artist, durationMs }) => ({ url, title, artist, durationMs })),
+  }, null, 2);
+}
+
+// Serializes tracks as a playlist file. Plain M3U is Latin-1, so characters
+// outside it are replaced.
+export function writePlaylist(name: string, tracks: TrackMetadata[], format: PlaylistFormat): { body: Buffer; contentType: string } {
+  const text = format === "xspf" ? toXspf(name, tracks)
+    : format === "json" ? toJson(name, tracks)
+    : toM3u(name, tracks);
+  const body = format === "m3u"
+    ? Buffer.from(text.replace(/[^\x00-\xff]/g, "?"), "latin1")
+    : Buffer.from(text, "utf8");
+  return { body, contentType: CONTENT_TYPES[format] };
+}
+
+function parseM3u(content: string): ParsedPlaylist {
+  let name: string | null = null;
+  let info: Pick<PlaylistEntry, "title" | "artist" | "durationMs"> | null = null;
+  const entries: PlaylistEntry[] = [];
+
+  for (const rawLine of content.replace(/^\uFEFF/, "").split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (line.startsWith("#EXTINF:")) {
+      // #EXTINF:<seconds>[ attributes],[<artist> - ]<title>
+      const match = line.match(/^#EXTINF:\s*(-?\d+(?:\.\d+)?)[^,]*,(.*)$/);
+      const seconds = match ? Number(match[1]) : -1;
+      const label = match?.[2].trim() ?? "";
+      const separator = label.indexOf(" - ");
+      info = {
+        title: (separator > 0 ? label.slice(separator + 3) : label).trim() || null,
+        artist: separator > 0 ? label.slice(0, separator).trim() : null,
+        durationMs: seconds > 0 ? Math.round(seconds * 1000) : null,
+      };
+    } else if (line.startsWith("#PLAYLIST:")) {
+      name = line.slice("#PLAYLIST:".length).trim() || null;
+    } else if (!line.startsWith("#")) {
+      entries.push({ entry: entries.length + 1, location: line, title: null, artist: null, durationMs: null, ...info });
+      info = null;
+    }
+  }
+
+  return { name, entries, errors: [] };
+}
+
+function parseXspf(content: string): ParsedPlaylist {
+  const playlist = content.match(/<playlist\b[\s\S]*<\/playlist>/);
+  if (!playlist) {
+    throw new PlaylistFormatError("Not an XSPF playlist");
+  }
+
+  const trackList = playlist[0].replace(/<track\b[^>]*>[\s\S]*?<\/track>/g, "");
+  const entries = Array.from(playlist[0].matchAll(/<track\b[^>]*>([\s\S]*?)<\/track>/g), (match, index): PlaylistEntry => {
+    const duration = Number(xmlField(match[1], "duration"));
+    return {
+      entry: index + 1,
+      location: xmlField(match[1], "location"),
+      title: xmlField(match[1], "title"),
+      artist: xmlField(match[1], "creator"),
+      durationMs: Number.isInteger(duration) && duration > 0 ? duration : null,
+    };
+  });
+
+  // The playlist's own <title>, outside of any track
+  return { name: xmlField(trackList, "title"), entries, errors: [] };
+}
+
+function parseJson(content: string): ParsedPlaylist {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new PlaylistFormatError("Not a JSON playlist");
+  }
+
+  // Either { name, tracks: [...] } or a bare array. Tracks are URL strings or
+  // objects with at least a `url`.
+  const record = typeof data === "object" && data !== null && !Array.isArray(data) ? data as Record<string, unknown> : null;
+  const tracks = Array.isArray(data) ? data : record?.tracks;
+  if (!Array.isArray(tracks)) {
+    throw new PlaylistFormatError("A JSON playlist needs a list of tracks");
+  }
+
+  const text = (value: unknown) => typeof value === "string" && value.trim() ? value.trim() : null;
+  const entries: PlaylistEntry[] = [];
+  const errors: PlaylistEntryError[] = [];
+  tracks.forEach((track: unknown, index) => {
+    const entry = index + 1;
+    if (typeof track === "string") {
+      entries.push({ entry, location: track.trim(), title: null, artist: null, durationMs: null });
+    } else if (typeof track === "object" && track !== null) {
+      const fields = track as Record<string, unknown>;
+      const durationMs = fields.durationMs;
+      entries.push({
+        entry,
+        location: text(fields.url),
+        title: text(fields.title),
+        artist: text(fields.artist),
+        durationMs: typeof durationMs === "number" && Number.isInteger(durationMs) && durationMs > 0 ? durationMs : null,
+      });
+    } else {
+      errors.push({ entry, location: null, message: "Expected a URL or a track object" });
+    }
+  });
+
+  return { name: text(record?.name), entries, errors };
+}
+
+export function detectPlaylistFormat(content: string): PlaylistFormat {
+  const start = content.replace(/^\uFEFF/, "").trimStart();
+  if (start.startsWith("<")) return "xspf";
+  if (start.startsWith("{") || start.startsWith("[")) return "json";
+  return "m3u8";
+}
+
+// Reads a playlist file. Throws PlaylistFormatError when the file as a whole
+// can't be read; problems with single entries are reported in `errors`.
+export function parsePlaylist(content: string, format = detectPlaylistFormat(content)): ParsedPlaylist {
+  switch (format) {
+    case "xspf":
+      return parseXspf(content);
+    case "json":
+      return parseJson(content);
+    case "m3u":
+    case "m3u8":
+      return parseM3u(content);
+  }
+}
+
+// A title or artist from the file, held to the same rules as a title given
+// when queueing a song. Overlong ones are cut short rather than dropped.
+function songDetail(text: string | null): string | null {
+  if (text === null) return null;
+  const parsed = songTitleSchema.safeParse(text.trim().slice(0, MAX_SONG_TITLE_LENGTH));
+  return parsed.success ? parsed.data : null;
+}
+
+// What the resolver found, with details from the playlist filling the gaps.
+// A title given by the playlist wins over generic ones like "YouTube video".
+export function withPlaylistDetails(track: TrackMetadata, entry: PlaylistEntry): TrackMetadata {
+  return {
+    ...track,
+    title: songDetail(entry.title) ?? track.title,
+    artist: songDetail(entry.artist) ?? track.artist,
+    durationMs: track.durationMs ?? entry.durationMs,
+  };
+}
@@ -0,0 +1,161 @@
+import { storage, type UserPresence } from "./storage";
+import { realtime } from "./realtime";
+import { PRESENCE_TIMEOUT_MS } from "@shared/realtime";
+
+const SWEEP_INTERVAL = 10000;
+
+const OFFLINE: UserPresence = { isOnline: false, isAway: false };
+
+function samePresence(a: UserPresence, b: UserPresence): boolean {
+  return a.isOnline === b.isOnline && a.isAway === b.isAway;
+}
+
+// One open tab or device. It stays alive while its socket is open or its
+// heartbeats keep coming, whichever lasts longer.
+type Tab = {
+  socketOpen: boolean;
+  expiresAt: number;
+  active: boolean;
+};
+
+// Works out who is online from their open tabs rather than trusting clients
+// to report it: a user is online while any tab is active, away while all of
+// them are idle and offline once the last one closes or goes quiet. Invisible
+// users are saved as offline, so nothing that reads users can give them away.
+// The same sweep clears custom statuses once they expire.
+// Tabs only live in memory, so this assumes a single server process.
+export class PresenceTracker {
+  private tabs = new Map<number, Map<string, Tab>>(); // userId -> tabId -> tab
+  private seen = new Map<number, UserPresence>(); // What the tabs said at the last update
+  private updates = new Map<number, Promise<void>>();
+
+  async start(): Promise<void> {
+    // Nobody has a tab open with a server that just started
+    await storage.resetPresence();
+
+    realtime.onConnectionChange((userId, tabId, connected) => {
+      if (connected) {
+        this.tab(userId, tabId).socketOpen = true;
+      } else {
+        // Its heartbeats may still keep the tab alive, e.g. while reconnecting
+        const tab = this.tabs.get(userId)?.get(tabId);
+        if (tab) tab.socketOpen = false;
+        this.dropDeadTabs(userId);
+      }
+      this.update(userId);
+    });
+
+    setInterval(() => this.sweep(), SWEEP_INTERVAL);
+  }
+
+  heartbeat(userId: number, tabId: string, active: boolean): void {
+    const tab = this.tab(userId, tabId);
+    tab.expiresAt = Date.now() + PRESENCE_TIMEOUT_MS;
+    tab.active = active;
+    this.update(userId);
+  }
+
+  // The tab is closing, so there is no need to wait for it to time out
+  leave(userId: number, tabId: string): void {
+    const tabs = this.tabs.get(userId);
+    if (!tabs?.delete(tabId)) return;
+    if (tabs.size === 0) this.tabs.delete(userId);
+    this.update(userId);
+  }
+
+  // Re-applies the user's presence after they changed their availability or
+  // custom status, and announces the change
+  refresh(userId: number): Promise<void> {
+    return this.update(userId, true);
+  }
+
+  statusOf(userId: number): UserPresence {
+    const tabs = Array.from(this.tabs.get(userId)?.values() ?? []);
+    if (tabs.length === 0) return OFFLINE;
+    return { isOnline: true, isAway: !tabs.some(tab => tab.active) };
+  }
+
+  private tab(userId: number, tabId: string): Tab {
+    let tabs = this.tabs.get(userId);
+    if (!tabs) {
+      tabs = new Map();
+      this.tabs.set(userId, tabs);
+    }
+
+    let tab = tabs.get(tabId);
+    if (!tab) {
+      tab = { socketOpen: false, expiresAt: 0, active: true };
+      tabs.set(tabId, tab);
+    }
+    return tab;
+  }
+
+  private dropDeadTabs(userId: number): void {
+    const tabs = this.tabs.get(userId);
+    if (!tabs) return;
+
+    const now = Date.now();
+    tabs.forEach((tab, tabId) => {
+      if (!tab.socketOpen && tab.expiresAt <= now) tabs.delete(tabId);
+    });
+    if (tabs.size === 0) this.tabs.delete(userId);
+  }
+
+  private sweep(): void {
+    Array.from(this.tabs.keys()).forEach(userId => {
+      this.dropDeadTabs(userId);
+      this.update(userId);
+    });
+    this.clearExpiredStatuses();
+  }
+
+  private async clearExpiredStatuses(): Promise<void> {
+    try {
+      const cleared = await storage.clearExpiredStatuses(new Date());
+      await Promise.all(cleared.map(user => realtime.publishAboutUser(user.id, { type: "user.updated", user })));
+    } catch (error) {
+      // Retried on the next sweep
+    }
+  }
+
+  // Saves and announces the user's status if it changed. Updates for a user
+  // run one at a time so a stale status can't overwrite a newer one.
+  private update(userId: number, force = false): Promise<void> {
+    const previous = this.updates.get(userId) ?? Promise.resolve();
+    const next = previous
+      .then(() => this.store(userId, force))
+      .catch(() => {
+        // Presence update is best-effort
+      })
+      .finally(() => {
+        if (this.updates.get(userId) === next) this.updates.delete(userId);
+      });
+    this.updates.set(userId, next);
+    return next;
+  }
+
+  private async store(userId: number, force: boolean): Promise<void> {
+    const status = this.statusOf(userId);
+    const seen = this.seen.get(userId) ?? OFFLINE;
+    if (!force && samePresence(status, seen)) return;
+
+    let user = await storage.getUser(userId);
+    if (!user) return;
+
+    if (status.isOnline) {
+      this.seen.set(userId, status);
+    } else {
+      this.seen.delete(userId);
+    }
+
+    const shown = user.availability === "invisible" ? OFFLINE : status;
+    if (!samePresence(shown, user)) {
+      user = await storage.updateUserPresence(userId, shown);
+    } else if (!force) {
+      return;
+    }
+    if (user) await realtime.publishAboutUser(userId, { type: "presence.changed", user });
+  }
+}
+
+export const presence = new PresenceTracker();
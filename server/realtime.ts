@@ -0,0 +1,123 @@
+import type { Server } from "http";
+import { randomUUID } from "crypto";
+import { WebSocketServer, WebSocket } from "ws";
+import { storage } from "./storage";
+import { getSessionUserId } from "./auth";
+import { REALTIME_PATH, type ServerEvent } from "@shared/realtime";
+
+const HEARTBEAT_INTERVAL = 30000;
+
+type Client = {
+  socket: WebSocket;
+  userId: number;
+  tabId: string;
+  isAlive: boolean;
+};
+
+export type ConnectionListener = (userId: number, tabId: string, connected: boolean) => void;
+
+export class RealtimeHub {
+  private clients: Set<Client> = new Set();
+  private connectionListeners: ConnectionListener[] = [];
+
+  attach(server: Server): void {
+    const wss = new WebSocketServer({ noServer: true });
+
+    // Only claim upgrades on our own path so Vite's HMR socket keeps working
+    server.on("upgrade", (req, socket, head) => {
+      const { pathname, searchParams } = new URL(req.url || "/", "http://localhost");
+      if (pathname !== REALTIME_PATH) return;
+      // Clients name their tab so its socket and presence heartbeats line up
+      const tabId = searchParams.get("tab")?.slice(0, 64) || randomUUID();
+
+      getSessionUserId(req).then((userId) => {
+        if (userId === undefined) {
+          socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+          socket.destroy();
+          return;
+        }
+
+        wss.handleUpgrade(req, socket, head, (ws) => {
+          wss.emit("connection", ws, userId, tabId);
+        });
+      });
+    });
+
+    wss.on("connection", (socket: WebSocket, userId: number, tabId: string) => {
+      const client: Client = { socket, userId, tabId, isAlive: true };
+      this.clients.add(client);
+      this.connectionListeners.forEach(listener => listener(userId, tabId, true));
+
+      socket.on("pong", () => {
+        client.isAlive = true;
+      });
+
+      socket.on("close", () => {
+        this.clients.delete(client);
+        this.connectionListeners.forEach(listener => listener(userId, tabId, false));
+      });
+    });
+
+    // Drop sockets that stopped answering pings
+    const interval = setInterval(() => {
+      this.clients.forEach(client => {
+        if (!client.isAlive) {
+          client.socket.terminate();
+          return;
+        }
+        client.isAlive = false;
+        client.socket.ping();
+      });
+    }, HEARTBEAT_INTERVAL);
+
+    wss.on("close", () => clearInterval(interval));
+  }
+
+  publishToUsers(userIds: number[], event: ServerEvent): void {
+    const recipients = new Set(userIds);
+    const payload = JSON.stringify(event);
+
+    this.clients.forEach(client => {
+      if (recipients.has(client.userId)) {
+        this.send(client, payload);
+      }
+    });
+  }
+
+  // `exceptUserIds` are members who must not receive the event
+  async publishToChat(chatId: number, event: ServerEvent, exceptUserIds: number[] = []): Promise<void> {
+    const members = await storage.getChatMembers(chatId);
+    const excluded = new Set(exceptUserIds);
+    this.publishToUsers(members.map(member => member.userId).filter(userId => !excluded.has(userId)), event);
+  }
+
+  // `exceptUserIds` are users who must not receive the event
+  publishToAll(event: ServerEvent, exceptUserIds: number[] = []): void {
+    const excluded = new Set(exceptUserIds);
+    const payload = JSON.stringify(event);
+    this.clients.forEach(client => {
+      if (!excluded.has(client.userId)) {
+        this.send(client, payload);
+      }
+    });
+  }
+
+  // Sends news about a user's profile or presence to everyone but those who
+  // blocked them
+  async publishAboutUser(userId: number, event: ServerEvent): Promise<void> {
+    this.publishToAll(event, await storage.getBlockerIds(userId));
+  }
+
+  // Called whenever a socket opens or closes
+  onConnectionChange(listener: ConnectionListener): void {
+    this.connectionListeners.push(listener);
+  }
+
+  private send(client: Client, payload: string): void {
+    if (client.socket.readyState === WebSocket.OPEN) {
+      client.socket.send(payload);
+    }
+  }
+}
+
+export const realtime = new RealtimeHub();
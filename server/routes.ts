@@ -1,53 +1,503 @@
-import type { Express } from "express";
+import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertUserSchema, insertChatSchema, insertMessageSchema } from "@shared/schema";
+import { createHash, randomBytes } from "crypto";
+import multer from "multer";
+import { storage, UsernameTakenError } from "./storage";
+import { realtime } from "./realtime";
+import type { ServerEvent } from "@shared/realtime";
+import { presence } from "./presence";
+import { blobStore } from "./blob-store";
+import { changePlayback, toPlaybackState, type PlaybackChange } from "./playback";
+import { trackResolver } from "./track-resolver";
+import { resizeAvatar, AvatarImageError, AVATAR_CONTENT_TYPE } from "./avatars";
+import { parsePlaylist, writePlaylist, withPlaylistDetails, PlaylistFormatError } from "./playlists";
+import { setupAuth, requireAuth } from "./auth";
+import {
+  FriendshipError, loadFriendTarget, canStartDirectChat, isBlockedBetween, hiddenUserIds, isDirectChatBlocked,
+  requestFriendship, acceptFriendship, declineFriendship, removeFriendship,
+  blockUser, unblockUser, muteUser, unmuteUser,
+} from "./friendships";
+import { authorizeChat, authorizeMessage, authorizeAttachment, canPerform, hasRoomLinkKey, ChatAccessError } from "./authorization";
+import { nextOnDeck, rotationOrder } from "@shared/music-roles";
+import { canRemoveMember, isOwner, nextOwner } from "@shared/group-roles";
+import {
+  insertChatSchema, sendMessageSchema, editMessageSchema, messagePageQuerySchema, reactionSchema,
+  messageSearchQuerySchema, roomDirectoryQuerySchema, playbackActionSchema, addQueueItemSchema, moveQueueItemSchema, queueVoteSchema,
+  typingSchema, presenceHeartbeatSchema, presenceLeaveSchema, userStatusSchema, profileUpdateSchema, avatarQuerySchema,
+  privacySettingsSchema, userSearchQuerySchema,
+  memberRoleSchema, groupRoleSchema, groupSettingsSchema, addMembersSchema, transferOwnershipSchema, createInviteSchema, musicRoomSettingsSchema, playHistoryQuerySchema, roomStatsQuerySchema,
+  playlistExportQuerySchema, playlistImportSchema, songUrlSchema, MAX_PLAYLIST_ENTRIES,
+  MAX_ATTACHMENT_BYTES, ALLOWED_ATTACHMENT_TYPES, MAX_AVATAR_BYTES, ALLOWED_AVATAR_TYPES, AVATAR_SIZES,
+  type InsertMessage, type Message, type Chat, type User, type SystemEvent, type ChatInvite, type InvitePreview, type AvatarKeys, type PlayHistoryQuery, type TrackMetadata, type PlaylistEntryError
+} from "@shared/schema";
 import { z } from "zod";
 
+// Uploads are buffered in memory (they are capped in size) so the checksum
+// can be taken, or the image resized, before anything reaches the blob store
+function singleFileUpload(maxBytes: number, allowedTypes: string[]) {
+  return multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: maxBytes, files: 1 },
+    fileFilter: (_req, file, callback) => {
+      callback(null, allowedTypes.includes(file.mimetype));
+    },
+  }).single("file");
+}
+
+function receiveUpload(upload: ReturnType<typeof singleFileUpload>) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    upload(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError && error.code === "LIMIT_FILE_SIZE") {
+        return res.status(413).json({ message: "File is too large" });
+      }
+      if (error) {
+        return res.status(400).json({ message: "Invalid upload" });
+      }
+      next();
+    });
+  };
+}
+
+const receiveAttachment = receiveUpload(singleFileUpload(MAX_ATTACHMENT_BYTES, ALLOWED_ATTACHMENT_TYPES));
+const receiveAvatar = receiveUpload(singleFileUpload(MAX_AVATAR_BYTES, ALLOWED_AVATAR_TYPES));
+
+async function deleteAvatarBlobs(avatarKeys: AvatarKeys): Promise<void> {
+  await Promise.all(Object.values(avatarKeys).map(key => blobStore.delete(key)));
+}
+
+// Attachments may only be sent once, by their uploader, into the chat they were
+// uploaded to. Returns an error message when any id is unusable.
+async function validateAttachments(chatId: number, senderId: number, ids: number[]): Promise<string | undefined> {
+  for (const id of ids) {
+    const attachment = await storage.getAttachment(id);
+    if (!attachment || attachment.chatId !== chatId || attachment.uploaderId !== senderId || attachment.messageId !== null) {
+      return "Invalid attachment";
+    }
+  }
+}
+
+// A quoted parent must be in the same chat, and a thread can only hang off a
+// top-level message of that chat. Returns an error message when invalid.
+async function validateReplyTarget(chatId: number, data: InsertMessage): Promise<string | undefined> {
+  if (data.parentId != null) {
+    const parent = await storage.getMessage(data.parentId);
+    if (!parent || parent.chatId !== chatId) {
+      return "Replied-to message is not in this chat";
+    }
+  }
+
+  if (data.threadRootId != null) {
+    const root = await storage.getMessage(data.threadRootId);
+    if (!root || root.chatId !== chatId || root.threadRootId !== null) {
+      return "Thread root must be a top-level message in this chat";
+    }
+    if (root.deletedAt) {
+      return "Cannot reply in the thread of a deleted message";
+    }
+    if (root.systemEvent) {
+      return "Cannot start a thread on a system message";
+    }
+  }
+}
+
+// Resolves a song shared in the request's chat. An explicit title from the
+// sharer wins over the resolved one.
+async function resolveSong(req: Request, songUrl: string, title?: string) {
+  const track = await trackResolver.resolve(songUrl, { chatId: req.chat!.id, host: req.get("host") });
+  return title ? { ...track, title } : track;
+}
+
+// The distinct tracks of the room's most recent plays, oldest first
+async function historyTracks(chatId: number, filters: Pick<PlayHistoryQuery, "queuedBy" | "from" | "to">) {
+  const tracks = new Map<string, TrackMetadata>();
+  let before: number | undefined;
+  do {
+    const page = await storage.getPlayHistory(chatId, { ...filters, before, limit: 100 });
+    for (const play of page.plays) {
+      if (tracks.size < MAX_PLAYLIST_ENTRIES && !tracks.has(play.track.url)) tracks.set(play.track.url, play.track);
+    }
+    before = page.nextCursor ?? undefined;
+  } while (before !== undefined && tracks.size < MAX_PLAYLIST_ENTRIES);
+
+  return Array.from(tracks.values()).reverse();
+}
+
+// Each member gets the chat as they see it, with their own unread count and
+// a last message that isn't from someone they blocked
+async function publishChatUpdate(chatId: number) {
+  const members = await storage.getChatMembers(chatId);
+  await Promise.all(members.map(async ({ userId }) => {
+    const chat = await storage.getChatWithMembers(chatId, userId);
+    if (chat) {
+      realtime.publishToUsers([userId], { type: "chat.updated", chatId, chat });
+    }
+  }));
+}
+
+// Sends an event about something `actorId` did to the chat, except to members
+// who blocked them and so shouldn't see it
+async function publishFromUser(chatId: number, actorId: number, event: ServerEvent, exceptUserIds: number[] = []) {
+  const blockerIds = await storage.getBlockerIds(actorId);
+  await realtime.publishToChat(chatId, event, [...exceptUserIds, ...blockerIds]);
+}
+
+// Like publishFromUser, but each member gets the event built for them, for
+// events carrying reactions, which leave out those from users they blocked
+async function publishViewsFromUser(chatId: number, actorId: number, eventFor: (viewerId: number) => Promise<ServerEvent>) {
+  const [members, blockerIds] = await Promise.all([storage.getChatMembers(chatId), storage.getBlockerIds(actorId)]);
+  const blockers = new Set(blockerIds);
+  await Promise.all(members.filter(({ userId }) => !blockers.has(userId)).map(async ({ userId }) => {
+    realtime.publishToUsers([userId], await eventFor(userId));
+  }));
+}
+
+// An edited or deleted message, as each member sees it
+async function publishMessageUpdate(message: Message) {
+  await publishViewsFromUser(message.chatId, message.senderId, async (viewerId) => ({
+    type: "message.updated",
+    chatId: message.chatId,
+    message: (await storage.getMessageWithSender(message.id, viewerId))!,
+  }));
+}
+
+const nameOf = (user: User) => user.displayName || user.username;
+
+// Records a change to a group in its timeline, e.g. "Bob added Carol". The
+// text is kept as it was at the time, like any other message.
+async function postSystemMessage(chatId: number, actor: User, event: SystemEvent, content: string) {
+  const message = await storage.createMessage({ chatId, content, senderId: actor.id, systemEvent: event });
+  await publishNewMessage(message);
+}
+
+// Members who blocked the sender don't get the message, as they wouldn't see
+// it in the timeline either
+async function publishNewMessage(message: Message) {
+  await publishFromUser(message.chatId, message.senderId, {
+    type: "message.created",
+    chatId: message.chatId,
+    message: (await storage.getMessageWithSender(message.id))!,
+  });
+}
+
+// Adds someone who joined by themselves, through an invite link or because
+// the room is open. Groups announce it with `announcement`.
+async function addJoiningMember(chat: Chat, user: User, announcement: string) {
+  await storage.addChatMember(chat.id, user.id);
+  realtime.publishToUsers([user.id], { type: "member.added", chatId: chat.id, userId: user.id });
+  if (chat.type === "group") {
+    await postSystemMessage(chat.id, user, { kind: "memberJoined", userId: null }, announcement);
+  }
+  await publishChatUpdate(chat.id);
+}
+
+// Why an invite can't be used (anymore), with the status to answer with
+function inviteProblem(invite: ChatInvite): { status: number; message: string } | undefined {
+  if (invite.revokedAt) {
+    return { status: 404, message: "Invite not found" };
+  }
+  if (invite.expiresAt && invite.expiresAt.getTime() <= Date.now()) {
+    return { status: 410, message: "This invite has expired" };
+  }
+  if (invite.maxUses !== null && invite.useCount >= invite.maxUses) {
+    return { status: 410, message: "This invite has been used up" };
+  }
+}
+
+// Keeps the DJ rotation pointing at an actual DJ, e.g. after roles change.
+// `advance` hands the turn to the next DJ.
+async function updateOnDeck(chat: Chat, advance = false): Promise<Chat> {
+  if (!chat.djRotation) return chat;
+
+  const members = await storage.getChatMembers(chat.id);
+  const onDeckIsDj = rotationOrder(members).some(dj => dj.userId === chat.onDeckUserId);
+  if (onDeckIsDj && !advance) return chat;
+
+  const onDeckUserId = nextOnDeck(members, onDeckIsDj ? chat.onDeckUserId : null);
+  return (await storage.updateMusicRoom(chat.id, { onDeckUserId })) ?? chat;
+}
+
+// Pushes a playback change, and the queue if a track was taken off it, to the room
+async function publishPlaybackChange(change: PlaybackChange) {
+  const { chat, playback, queueChanged } = change;
+  await realtime.publishToChat(chat.id, { type: "playback.updated", chatId: chat.id, playback });
+  if (queueChanged) {
+    await realtime.publishToChat(chat.id, { type: "queue.updated", chatId: chat.id });
+  }
+}
+
+const MAX_USER_SEARCH_RESULTS = 20;
+
+// Runs a friendship change between the caller and `:userId`, tells both of
+// them (or only the caller, for `private` changes), and answers with the
+// caller's updated contacts
+function friendshipChange(
+  change: (userId: number, friendId: number) => Promise<void>,
+  failure: string,
+  { private: isPrivate = false } = {},
+) {
+  return async (req: Request, res: Response) => {
+    try {
+      const user = req.user!;
+      const friend = await loadFriendTarget(user.id, req.params.userId);
+      await change(user.id, friend.id);
+      realtime.publishToUsers(isPrivate ? [user.id] : [user.id, friend.id], { type: "friends.updated" });
+      res.json(await storage.getContacts(user.id));
+    } catch (error) {
+      if (error instanceof FriendshipError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: failure });
+    }
+  };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions, login/logout and /api/user
+  setupAuth(app);
+
+  // Every route below acts on behalf of the logged-in user
+  app.use("/api", requireAuth);
+
   // Users
-  app.post("/api/users", async (req, res) => {
+  app.get("/api/users/online", async (req, res) => {
     try {
-      const userData = insertUserSchema.parse(req.body);
-      
-      // Check if username already exists
-      const existingUser = await storage.getUserByUsername(userData.username);
-      if (existingUser) {
-        return res.status(400).json({ message: "Username already taken" });
+      const [users, hidden] = await Promise.all([storage.getOnlineUsers(), hiddenUserIds(req.user!.id)]);
+      res.json(users.filter(user => !hidden.has(user.id)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch online users" });
+    }
+  });
+
+  // Find people to befriend, online or not
+  app.get("/api/users/search", async (req, res) => {
+    try {
+      const parsed = userSearchQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid search" });
+      }
+
+      // Leave room for the caller and anyone hidden by a block
+      const hidden = await hiddenUserIds(req.user!.id);
+      hidden.add(req.user!.id);
+      const users = await storage.searchUsers(parsed.data.q, MAX_USER_SEARCH_RESULTS + hidden.size);
+      res.json(users.filter(user => !hidden.has(user.id)).slice(0, MAX_USER_SEARCH_RESULTS));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to search users" });
+    }
+  });
+
+  // Every open tab checks in regularly; see PresenceTracker
+  app.put("/api/user/presence", (req, res) => {
+    const parsed = presenceHeartbeatSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid presence heartbeat" });
+    }
+
+    presence.heartbeat(req.user!.id, parsed.data.tabId, parsed.data.active);
+    res.json({ success: true });
+  });
+
+  // Sent as the tab closes, usually through navigator.sendBeacon
+  app.post("/api/user/presence/leave", (req, res) => {
+    const parsed = presenceLeaveSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid tab" });
+    }
+
+    presence.leave(req.user!.id, parsed.data.tabId);
+    res.json({ success: true });
+  });
+
+  // Availability (e.g. do-not-disturb) and the custom status shown next to the user
+  app.put("/api/user/status", async (req, res) => {
+    try {
+      const parsed = userStatusSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid status" });
+      }
+
+      const userId = req.user!.id;
+      const user = await storage.updateUserStatus(userId, parsed.data);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      // Going invisible or coming back changes what others see
+      await presence.refresh(userId);
+      res.json(await storage.getUser(userId));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update status" });
+    }
+  });
+
+  // Who may start a direct chat with the user
+  app.put("/api/user/privacy", async (req, res) => {
+    try {
+      const parsed = privacySettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid privacy settings" });
+      }
+
+      const user = await storage.updateUserPrivacy(req.user!.id, parsed.data);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
 
-      const user = await storage.createUser(userData);
+      await realtime.publishAboutUser(user.id, { type: "user.updated", user });
       res.json(user);
     } catch (error) {
-      res.status(400).json({ message: "Invalid user data" });
+      res.status(500).json({ message: "Failed to update privacy settings" });
     }
   });
 
-  app.get("/api/users/online", async (req, res) => {
+  // Friends and friend requests. Changes answer with the caller's contacts.
+  app.get("/api/friends", async (req, res) => {
     try {
-      const users = await storage.getOnlineUsers();
-      res.json(users);
+      res.json(await storage.getContacts(req.user!.id));
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch online users" });
+      res.status(500).json({ message: "Failed to fetch friends" });
     }
   });
 
-  app.put("/api/users/:id/status", async (req, res) => {
+  app.post("/api/friends/:userId", friendshipChange(requestFriendship, "Failed to send friend request"));
+  app.post("/api/friends/:userId/accept", friendshipChange(acceptFriendship, "Failed to accept friend request"));
+  app.post("/api/friends/:userId/decline", friendshipChange(declineFriendship, "Failed to decline friend request"));
+  // Unfriends, or withdraws a request the caller sent
+  app.delete("/api/friends/:userId", friendshipChange(removeFriendship, "Failed to remove friend"));
+
+  // Blocking and muting. Nobody is told they were muted.
+  app.post("/api/friends/:userId/block", friendshipChange(blockUser, "Failed to block user"));
+  app.delete("/api/friends/:userId/block", friendshipChange(unblockUser, "Failed to unblock user"));
+  app.post("/api/friends/:userId/mute", friendshipChange(muteUser, "Failed to mute user", { private: true }));
+  app.delete("/api/friends/:userId/mute", friendshipChange(unmuteUser, "Failed to unmute user", { private: true }));
+
+  // Profiles
+  app.get("/api/users/:userId", async (req, res) => {
     try {
-      const userId = parseInt(req.params.id);
-      const { isOnline } = req.body;
-      await storage.updateUserOnlineStatus(userId, isOnline);
-      res.json({ success: true });
+      const userId = Number(req.params.userId);
+      if (!Number.isInteger(userId)) {
+        return res.status(400).json({ message: "Invalid user id" });
+      }
+
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(user);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch user" });
+    }
+  });
+
+  app.patch("/api/user/profile", async (req, res) => {
+    try {
+      const parsed = profileUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid profile" });
+      }
+
+      const userId = req.user!.id;
+      const { username } = parsed.data;
+      if (username !== undefined && username !== req.user!.username) {
+        const existingUser = await storage.getUserByUsername(username);
+        if (existingUser) {
+          return res.status(409).json({ message: "Username already taken" });
+        }
+      }
+
+      const user = Object.keys(parsed.data).length > 0
+        ? await storage.updateUserProfile(userId, parsed.data)
+        : await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await realtime.publishAboutUser(user.id, { type: "user.updated", user });
+      res.json(user);
     } catch (error) {
-      res.status(500).json({ message: "Failed to update user status" });
+      if (error instanceof UsernameTakenError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update profile" });
+    }
+  });
+
+  app.put("/api/user/avatar", receiveAvatar, async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "Unsupported or missing image" });
+      }
+
+      const images = await resizeAvatar(req.file.buffer);
+      const keys = await Promise.all(AVATAR_SIZES.map(size => blobStore.put(images[size])));
+      const avatarKeys = Object.fromEntries(AVATAR_SIZES.map((size, index) => [size, keys[index]])) as AvatarKeys;
+
+      const previous = req.user!.avatarKeys;
+      const user = await storage.setUserAvatar(req.user!.id, avatarKeys);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (previous) await deleteAvatarBlobs(previous);
+
+      await realtime.publishAboutUser(user.id, { type: "user.updated", user });
+      res.json(user);
+    } catch (error) {
+      if (error instanceof AvatarImageError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to store avatar" });
+    }
+  });
+
+  app.delete("/api/user/avatar", async (req, res) => {
+    try {
+      const previous = req.user!.avatarKeys;
+      const user = await storage.setUserAvatar(req.user!.id, null);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (previous) await deleteAvatarBlobs(previous);
+
+      await realtime.publishAboutUser(user.id, { type: "user.updated", user });
+      res.json(user);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove avatar" });
+    }
+  });
+
+  app.get("/api/users/:userId/avatar", async (req, res) => {
+    try {
+      const userId = Number(req.params.userId);
+      const parsed = avatarQuerySchema.safeParse(req.query);
+      if (!Number.isInteger(userId) || !parsed.success) {
+        return res.status(400).json({ message: "Invalid avatar request" });
+      }
+
+      const user = await storage.getUser(userId);
+      const key = user?.avatarKeys?.[parsed.data.size];
+      if (!key) {
+        return res.status(404).json({ message: "No avatar" });
+      }
+
+      res.setHeader("Content-Type", AVATAR_CONTENT_TYPE);
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      // Avatar URLs carry the upload time, so a new avatar gets a new URL
+      res.setHeader("Cache-Control", "private, max-age=86400");
+      blobStore.read(key)
+        .on("error", () => {
+          if (res.headersSent) return res.destroy();
+          res.type("json").status(404).json({ message: "No avatar" });
+        })
+        .pipe(res);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch avatar" });
     }
   });
 
   // Chats
-  app.get("/api/users/:userId/chats", async (req, res) => {
+  app.get("/api/chats", async (req, res) => {
     try {
-      const userId = parseInt(req.params.userId);
-      const chats = await storage.getUserChats(userId);
+      const chats = await storage.getUserChats(req.user!.id);
       res.json(chats);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch chats" });
@@ -56,33 +506,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/chats", async (req, res) => {
     try {
+      const createdBy = req.user!.id;
+      // Direct chats are only started through /api/chats/direct, which checks
+      // who the other user accepts messages from
       const chatData = insertChatSchema.extend({
-        createdBy: z.number(),
+        type: z.enum(["group", "music"]),
         memberIds: z.array(z.number()).optional()
       }).parse(req.body);
 
-      const chat = await storage.createChat(chatData);
+      // Nobody shares a new room with someone they blocked or were blocked by
+      const memberIds = chatData.memberIds?.filter(memberId => memberId !== createdBy) ?? [];
+      const blocked = await Promise.all(memberIds.map(memberId => isBlockedBetween(createdBy, memberId)));
+      if (blocked.some(Boolean)) {
+        return res.status(403).json({ message: "Some of these people can't be added" });
+      }
+
+      const chat = await storage.createChat({ ...chatData, createdBy });
 
       // Add additional members for group chats
       if (chatData.memberIds) {
         for (const memberId of chatData.memberIds) {
-          if (memberId !== chatData.createdBy) {
+          if (memberId !== createdBy) {
             await storage.addChatMember(chat.id, memberId);
+            realtime.publishToUsers([memberId], { type: "member.added", chatId: chat.id, userId: memberId });
           }
         }
       }
 
-      const chatWithMembers = await storage.getChatWithMembers(chat.id);
-      res.json(chatWithMembers);
+      await publishChatUpdate(chat.id);
+      res.json(await storage.getChatWithMembers(chat.id, createdBy));
     } catch (error) {
       res.status(400).json({ message: "Invalid chat data" });
     }
   });
 
-  app.get("/api/chats/:chatId", async (req, res) => {
+  app.get("/api/chats/:chatId", authorizeChat("view"), async (req, res) => {
     try {
-      const chatId = parseInt(req.params.chatId);
-      const chat = await storage.getChatWithMembers(chatId);
+      const chat = await storage.getChatWithMembers(req.chat!.id, req.user!.id);
       
       if (!chat) {
         return res.status(404).json({ message: "Chat not found" });
@@ -94,59 +554,945 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Group administration. Every change is announced in the group's timeline.
+  app.patch("/api/chats/:chatId", authorizeChat("manageGroup"), async (req, res) => {
+    try {
+      const parsed = groupSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid group settings" });
+      }
+
+      const chat = req.chat!;
+      const actor = req.user!;
+      const { name, description, visibility } = parsed.data;
+      const renamed = name !== undefined && name !== chat.name;
+      const described = description !== undefined && description !== chat.description;
+      const madeVisible = visibility !== undefined && visibility !== chat.visibility;
+      await storage.updateGroupSettings(chat.id, {
+        ...(renamed ? { name } : {}),
+        ...(described ? { description } : {}),
+        ...(madeVisible ? { visibility } : {}),
+      });
+
+      if (renamed) {
+        await postSystemMessage(chat.id, actor, { kind: "renamed", userId: null }, `${nameOf(actor)} renamed the group to "${name}"`);
+      }
+      if (described) {
+        await postSystemMessage(
+          chat.id, actor, { kind: "descriptionChanged", userId: null },
+          description ? `${nameOf(actor)} changed the group description` : `${nameOf(actor)} removed the group description`,
+        );
+      }
+      if (madeVisible) {
+        await postSystemMessage(chat.id, actor, { kind: "visibilityChanged", userId: null }, `${nameOf(actor)} made the group ${visibility}`);
+      }
+
+      await publishChatUpdate(chat.id);
+      res.json(await storage.getChatWithMembers(chat.id, actor.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update group" });
+    }
+  });
+
+  app.post("/api/chats/:chatId/members", authorizeChat("addMember"), async (req, res) => {
+    try {
+      const parsed = addMembersSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid members" });
+      }
+
+      const chat = req.chat!;
+      const actor = req.user!;
+      const users = await Promise.all(Array.from(new Set(parsed.data.userIds), userId => storage.getUser(userId)));
+      if (users.some(user => !user)) {
+        return res.status(400).json({ message: "Invalid user" });
+      }
+
+      const blocked = await Promise.all((users as User[]).map(user => isBlockedBetween(actor.id, user.id)));
+      const blocking = (users as User[]).find((_, i) => blocked[i]);
+      if (blocking) {
+        return res.status(403).json({ message: `You can't add ${nameOf(blocking)}` });
+      }
+
+      const memberIds = new Set((await storage.getChatMembers(chat.id)).map(member => member.userId));
+      for (const user of users as User[]) {
+        if (memberIds.has(user.id)) continue;
+
+        await storage.addChatMember(chat.id, user.id);
+        realtime.publishToUsers([user.id], { type: "member.added", chatId: chat.id, userId: user.id });
+        // Like joining, being added is only announced in groups
+        if (chat.type === "group") {
+          await postSystemMessage(chat.id, actor, { kind: "memberAdded", userId: user.id }, `${nameOf(actor)} added ${nameOf(user)}`);
+        }
+      }
+
+      await publishChatUpdate(chat.id);
+      res.json(await storage.getChatWithMembers(chat.id, actor.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to add members" });
+    }
+  });
+
+  app.delete("/api/chats/:chatId/members/:userId", authorizeChat("removeMember"), async (req, res) => {
+    try {
+      const chat = req.chat!;
+      const actor = req.user!;
+      const target = await storage.getChatMember(chat.id, Number(req.params.userId));
+      const targetUser = target && await storage.getUser(target.userId);
+      if (!target || !targetUser) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      if (!canRemoveMember(req.chatMember, target)) {
+        return res.status(403).json({ message: "You are not allowed to remove this member" });
+      }
+
+      await storage.removeChatMember(chat.id, target.userId);
+      // They no longer receive the chat's events, so tell them directly
+      realtime.publishToUsers([target.userId], { type: "member.removed", chatId: chat.id, userId: target.userId });
+      await postSystemMessage(chat.id, actor, { kind: "memberRemoved", userId: target.userId }, `${nameOf(actor)} removed ${nameOf(targetUser)}`);
+
+      await publishChatUpdate(chat.id);
+      res.json(await storage.getChatWithMembers(chat.id, actor.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove member" });
+    }
+  });
+
+  // The owner hands the group over and stays on as an admin
+  app.put("/api/chats/:chatId/owner", authorizeChat("transferOwnership"), async (req, res) => {
+    try {
+      const parsed = transferOwnershipSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid member" });
+      }
+
+      const chat = req.chat!;
+      const actor = req.user!;
+      const target = await storage.getChatMember(chat.id, parsed.data.userId);
+      const targetUser = target && await storage.getUser(target.userId);
+      if (!target || !targetUser) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      if (target.userId === actor.id) {
+        return res.status(400).json({ message: "You already own this group" });
+      }
+
+      await storage.setMemberRole(chat.id, target.userId, "owner");
+      await storage.setMemberRole(chat.id, actor.id, "admin");
+      await postSystemMessage(chat.id, actor, { kind: "ownerChanged", userId: target.userId }, `${nameOf(actor)} made ${nameOf(targetUser)} the owner`);
+
+      await publishChatUpdate(chat.id);
+      res.json(await storage.getChatWithMembers(chat.id, actor.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to transfer ownership" });
+    }
+  });
+
+  // Public groups and music rooms can be joined without an invitation, and
+  // unlisted ones with the `key` from their link. Joining again as a member is
+  // a no-op. Rooms the caller can't join are not found, whatever their kind.
+  app.post("/api/chats/:chatId/join", async (req, res) => {
+    try {
+      const user = req.user!;
+      const chat = await storage.getChat(Number(req.params.chatId));
+      const member = chat && await storage.getChatMember(chat.id, user.id);
+      if (!chat || (!member && !canPerform("join", member, chat) && !hasRoomLinkKey(chat, req.body?.key))) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+
+      if (!member) {
+        await addJoiningMember(chat, user, `${nameOf(user)} joined`);
+      }
+      res.json(await storage.getChatWithMembers(chat.id, user.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to join" });
+    }
+  });
+
+  // Leaving as the owner passes the group on; see nextOwner. A music room's
+  // host cannot leave.
+  app.post("/api/chats/:chatId/leave", authorizeChat("leave"), async (req, res) => {
+    try {
+      const chat = req.chat!;
+      const actor = req.user!;
+      const members = await storage.getChatMembers(chat.id);
+
+      await storage.removeChatMember(chat.id, actor.id);
+      realtime.publishToUsers([actor.id], { type: "member.removed", chatId: chat.id, userId: actor.id });
+      if (chat.type === "music") {
+        // A DJ leaving on deck passes the turn on
+        await updateOnDeck(chat);
+        await publishChatUpdate(chat.id);
+        return res.json({ success: true });
+      }
+      await postSystemMessage(chat.id, actor, { kind: "memberLeft", userId: null }, `${nameOf(actor)} left`);
+
+      const successor = isOwner(req.chatMember) ? nextOwner(members, actor.id) : undefined;
+      if (successor) {
+        await storage.setMemberRole(chat.id, successor.userId, "owner");
+        await postSystemMessage(chat.id, actor, { kind: "ownerChanged", userId: successor.userId }, `${nameOf(successor.user)} is now the owner`);
+      }
+
+      await publishChatUpdate(chat.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to leave chat" });
+    }
+  });
+
   // Messages
-  app.get("/api/chats/:chatId/messages", async (req, res) => {
+  app.get("/api/chats/:chatId/messages", authorizeChat("view"), async (req, res) => {
     try {
-      const chatId = parseInt(req.params.chatId);
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
+      const chatId = req.chat!.id;
+      const query = messagePageQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid message cursor" });
+      }
       
-      const messages = await storage.getChatMessages(chatId, limit);
-      res.json(messages);
+      const page = await storage.getChatMessages(chatId, query.data, req.user!.id);
+      res.json(page);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch messages" });
     }
   });
 
-  app.post("/api/messages", async (req, res) => {
+  // Advance the caller's read cursor up to a message
+  app.post("/api/chats/:chatId/read", authorizeChat("view"), async (req, res) => {
     try {
-      const messageData = insertMessageSchema.extend({
-        senderId: z.number()
-      }).parse(req.body);
+      const chatId = req.chat!.id;
+      const userId = req.user!.id;
+      const { messageId } = z.object({ messageId: z.number() }).parse(req.body);
+
+      const message = await storage.getMessage(messageId);
+      if (!message || message.chatId !== chatId) {
+        return res.status(400).json({ message: "Message is not in this chat" });
+      }
+
+      const member = await storage.markChatRead(chatId, userId, messageId);
+      const lastReadMessageId = member?.lastReadMessageId ?? messageId;
+      await realtime.publishToChat(chatId, { type: "chat.read", chatId, userId, lastReadMessageId });
+      res.json({ lastReadMessageId });
+    } catch (error) {
+      res.status(400).json({ message: "Invalid read receipt" });
+    }
+  });
+
+  // Typing signals are only relayed to the chat's other members, never stored
+  app.post("/api/chats/:chatId/typing", authorizeChat("post"), async (req, res) => {
+    try {
+      const parsed = typingSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid typing signal" });
+      }
+
+      const chatId = req.chat!.id;
+      const userId = req.user!.id;
+      await publishFromUser(chatId, userId, { type: "typing.updated", chatId, userId, isTyping: parsed.data.isTyping }, [userId]);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to send typing signal" });
+    }
+  });
+
+  app.post("/api/messages", authorizeChat("post"), async (req, res) => {
+    try {
+      const sender = req.user!;
+      const { attachmentIds = [], songUrl, ...messageData } = sendMessageSchema.parse(req.body);
+      const invalid = await validateReplyTarget(req.chat!.id, messageData)
+        ?? await validateAttachments(req.chat!.id, sender.id, attachmentIds);
+      if (invalid) {
+        return res.status(400).json({ message: invalid });
+      }
+      if (await isDirectChatBlocked(req.chat!, sender.id)) {
+        return res.status(403).json({ message: "You can't message this person" });
+      }
 
-      const message = await storage.createMessage(messageData);
+      const track = songUrl ? await resolveSong(req, songUrl) : null;
+      const message = await storage.createMessage({ ...messageData, senderId: sender.id, track });
+      await storage.linkAttachments(attachmentIds, message.id);
+      await publishNewMessage(message);
       res.json(message);
     } catch (error) {
       res.status(400).json({ message: "Invalid message data" });
     }
   });
 
-  // Find or create direct chat between two users
+  app.patch("/api/messages/:messageId", authorizeMessage("post", { senderOnly: true }), async (req, res) => {
+    try {
+      const { content } = editMessageSchema.parse(req.body);
+      if (req.message!.systemEvent) {
+        return res.status(409).json({ message: "System messages cannot be edited" });
+      }
+
+      const message = await storage.updateMessageContent(req.message!.id, content);
+      if (!message) {
+        return res.status(409).json({ message: "Deleted messages cannot be edited" });
+      }
+
+      await publishMessageUpdate(message);
+      res.json(message);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid message data" });
+    }
+  });
+
+  app.delete("/api/messages/:messageId", authorizeMessage("post", { senderOnly: true }), async (req, res) => {
+    try {
+      if (req.message!.systemEvent) {
+        return res.status(409).json({ message: "System messages cannot be deleted" });
+      }
+
+      const message = await storage.deleteMessage(req.message!.id);
+      if (!message) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      await publishMessageUpdate(message);
+      res.json(message);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete message" });
+    }
+  });
+
+  app.get("/api/messages/:messageId/history", authorizeMessage("view"), async (req, res) => {
+    try {
+      // A retracted message keeps its history server-side but no longer shows it
+      if (req.message!.deletedAt) {
+        return res.json([]);
+      }
+
+      const edits = await storage.getMessageEdits(req.message!.id);
+      res.json(edits);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch message history" });
+    }
+  });
+
+  // Shared playback in music rooms
+  app.get("/api/chats/:chatId/playback", authorizeChat("view"), async (req, res) => {
+    if (req.chat!.type !== "music") {
+      return res.status(404).json({ message: "Not a music room" });
+    }
+    res.json(toPlaybackState(req.chat!));
+  });
+
+  // The host and DJs control playback. Skipping is up to the host, but any
+  // member may move on once a track has finished ("next" with fromSongUrl).
+  app.put("/api/chats/:chatId/playback", authorizeChat("view"), async (req, res) => {
+    try {
+      if (req.chat!.type !== "music") {
+        return res.status(404).json({ message: "Not a music room" });
+      }
+
+      const parsed = playbackActionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid playback action" });
+      }
+
+      const action = parsed.data;
+      const canSkip = canPerform("hostRoom", req.chatMember, req.chat!);
+      if (action.action === "next" && !canSkip && action.fromSongUrl === undefined) {
+        return res.status(403).json({ message: "Only the host can skip songs" });
+      }
+      if (action.action !== "next" && !canPerform("controlPlayback", req.chatMember, req.chat!)) {
+        return res.status(403).json({ message: "Only the host and DJs can control playback" });
+      }
+
+      const loadTrack = action.action === "load" ? await resolveSong(req, action.songUrl, action.title) : undefined;
+      const change = await changePlayback(req.chat!.id, action, { loadTrack, canSkip, actorId: req.user!.id });
+      if (!change) {
+        return res.status(404).json({ message: "Chat not found" });
+      }
+
+      await publishPlaybackChange(change);
+      res.json(change.playback);
+    } catch (error) {
+      if (error instanceof ChatAccessError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update playback" });
+    }
+  });
+
+  // Collaborative queue of upcoming tracks in music rooms
+  app.get("/api/chats/:chatId/queue", authorizeChat("view"), async (req, res) => {
+    try {
+      if (req.chat!.type !== "music") {
+        return res.status(404).json({ message: "Not a music room" });
+      }
+      const queue = await storage.getQueue(req.chat!.id, req.user!.id);
+      res.json(queue);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch queue" });
+    }
+  });
+
+  app.post("/api/chats/:chatId/queue", authorizeChat("queueSong"), async (req, res) => {
+    try {
+      const parsed = addQueueItemSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid song" });
+      }
+
+      const { songUrl, title } = parsed.data;
+      const item = await storage.addQueueItem({
+        chatId: req.chat!.id,
+        addedById: req.user!.id,
+        songUrl,
+        track: await resolveSong(req, songUrl, title),
+      });
+      await realtime.publishToChat(item.chatId, { type: "queue.updated", chatId: item.chatId });
+
+      // In DJ rotation, picking a song ends the DJ's turn
+      if (req.chat!.djRotation && req.chat!.onDeckUserId === req.user!.id) {
+        await updateOnDeck(req.chat!, true);
+        await publishChatUpdate(item.chatId);
+      }
+
+      // An idle room starts playing the first track that is queued
+      const change = await changePlayback(item.chatId, { action: "next", fromSongUrl: null }, { canSkip: false, actorId: req.user!.id });
+      if (change) await publishPlaybackChange(change);
+
+      res.status(201).json(item);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to add song to queue" });
+    }
+  });
+
+  app.patch("/api/chats/:chatId/queue/:itemId", authorizeChat("hostRoom"), async (req, res) => {
+    try {
+      const item = await storage.getQueueItem(Number(req.params.itemId));
+      if (!item || item.chatId !== req.chat!.id) {
+        return res.status(404).json({ message: "Queued song not found" });
+      }
+
+      const parsed = moveQueueItemSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid position" });
+      }
+
+      await storage.moveQueueItem(item.id, parsed.data.position);
+      await realtime.publishToChat(item.chatId, { type: "queue.updated", chatId: item.chatId });
+      res.json(await storage.getQueue(item.chatId, req.user!.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to move song" });
+    }
+  });
+
+  app.delete("/api/chats/:chatId/queue/:itemId", authorizeChat("hostRoom"), async (req, res) => {
+    try {
+      const item = await storage.getQueueItem(Number(req.params.itemId));
+      if (!item || item.chatId !== req.chat!.id) {
+        return res.status(404).json({ message: "Queued song not found" });
+      }
+
+      await storage.removeQueueItem(item.id);
+      await realtime.publishToChat(item.chatId, { type: "queue.updated", chatId: item.chatId });
+      res.json(await storage.getQueue(item.chatId, req.user!.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove song" });
+    }
+  });
+
+  app.put("/api/chats/:chatId/queue/:itemId/vote", authorizeChat("voteQueue"), async (req, res) => {
+    try {
+      const item = await storage.getQueueItem(Number(req.params.itemId));
+      if (!item || item.chatId !== req.chat!.id) {
+        return res.status(404).json({ message: "Queued song not found" });
+      }
+
+      const parsed = queueVoteSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid vote" });
+      }
+
+      await storage.setQueueVote(item.id, req.user!.id, parsed.data.value);
+      await realtime.publishToChat(item.chatId, { type: "queue.updated", chatId: item.chatId });
+      res.json(await storage.getQueue(item.chatId, req.user!.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to record vote" });
+    }
+  });
+
+  // What a music room has played, newest first. Filter by who queued the
+  // tracks or when they started, e.g. to build a playlist.
+  app.get("/api/chats/:chatId/history", authorizeChat("view"), async (req, res) => {
+    try {
+      if (req.chat!.type !== "music") {
+        return res.status(404).json({ message: "Not a music room" });
+      }
+
+      const query = playHistoryQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid history query" });
+      }
+
+      res.json(await storage.getPlayHistory(req.chat!.id, query.data));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch play history" });
+    }
+  });
+
+  app.get("/api/chats/:chatId/stats", authorizeChat("view"), async (req, res) => {
+    try {
+      if (req.chat!.type !== "music") {
+        return res.status(404).json({ message: "Not a music room" });
+      }
+
+      const query = roomStatsQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid stats query" });
+      }
+
+      res.json(await storage.getRoomStats(req.chat!.id, query.data.weeks));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch room stats" });
+    }
+  });
+
+  // Download the room's queue or history as a playlist file
+  app.get("/api/chats/:chatId/playlist", authorizeChat("view"), async (req, res) => {
+    try {
+      const chat = req.chat!;
+      if (chat.type !== "music") {
+        return res.status(404).json({ message: "Not a music room" });
+      }
+
+      const query = playlistExportQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid playlist query" });
+      }
+
+      const { source, format, ...filters } = query.data;
+      const tracks = source === "queue"
+        ? (await storage.getQueue(chat.id, req.user!.id)).map(item => item.track)
+        : await historyTracks(chat.id, filters);
+      const name = `${chat.name || "Music Room"} ${source === "queue" ? "queue" : "history"}`;
+      const { body, contentType } = writePlaylist(name, tracks, format);
+
+      res.setHeader("Content-Type", contentType);
+      res.setHeader("Content-Disposition", `attachment; filename*=UTF-8''${encodeURIComponent(`${name}.${format}`)}`);
+      res.send(body);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to export playlist" });
+    }
+  });
+
+  // Seed the room's queue from a playlist file. Entries that are not web
+  // links, or beyond the size limit, are reported back instead of queued.
+  app.post("/api/chats/:chatId/playlist", authorizeChat("hostRoom"), async (req, res) => {
+    try {
+      const parsed = playlistImportSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid playlist" });
+      }
+
+      let playlist;
+      try {
+        playlist = parsePlaylist(parsed.data.content, parsed.data.format);
+      } catch (error) {
+        if (error instanceof PlaylistFormatError) {
+          return res.status(400).json({ message: error.message });
+        }
+        throw error;
+      }
+
+      const chatId = req.chat!.id;
+      const errors: PlaylistEntryError[] = [...playlist.errors];
+      let added = 0;
+      for (const entry of playlist.entries) {
+        const songUrl = songUrlSchema.safeParse(entry.location ?? "");
+        if (!entry.location) {
+          errors.push({ entry: entry.entry, location: null, message: "Missing a link" });
+        } else if (!songUrl.success || !/^https?:$/.test(new URL(songUrl.data).protocol)) {
+          errors.push({ entry: entry.entry, location: entry.location, message: "Not a web link" });
+        } else if (added >= MAX_PLAYLIST_ENTRIES) {
+          errors.push({ entry: entry.entry, location: entry.location, message: `Over the limit of ${MAX_PLAYLIST_ENTRIES} songs` });
+        } else {
+          const track = withPlaylistDetails(await resolveSong(req, songUrl.data), entry);
+          await storage.addQueueItem({ chatId, addedById: req.user!.id, songUrl: track.url, track });
+          added++;
+        }
+      }
+      errors.sort((a, b) => a.entry - b.entry);
+
+      if (added > 0) {
+        await realtime.publishToChat(chatId, { type: "queue.updated", chatId });
+        const change = await changePlayback(chatId, { action: "next", fromSongUrl: null }, { canSkip: false, actorId: req.user!.id });
+        if (change) await publishPlaybackChange(change);
+      }
+
+      res.json({ added, errors });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to import playlist" });
+    }
+  });
+
+  // Invite links, created and revoked by a group's admins or a music room's
+  // host. Anyone signed in who has the link can preview the chat and join.
+  app.get("/api/chats/:chatId/invites", authorizeChat("manageInvites"), async (req, res) => {
+    try {
+      const invites = await storage.getChatInvites(req.chat!.id);
+      res.json(invites);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch invites" });
+    }
+  });
+
+  app.post("/api/chats/:chatId/invites", authorizeChat("manageInvites"), async (req, res) => {
+    try {
+      const parsed = createInviteSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid invite" });
+      }
+
+      const invite = await storage.createInvite({
+        ...parsed.data,
+        chatId: req.chat!.id,
+        token: randomBytes(16).toString("base64url"),
+        createdById: req.user!.id,
+      });
+      res.json(invite);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create invite" });
+    }
+  });
+
+  // Revoked invites stop working but stay listed with who joined through them
+  app.delete("/api/chats/:chatId/invites/:inviteId", authorizeChat("manageInvites"), async (req, res) => {
+    try {
+      const invite = await storage.revokeInvite(req.chat!.id, Number(req.params.inviteId));
+      if (!invite) {
+        return res.status(404).json({ message: "Invite not found" });
+      }
+      res.json(invite);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to revoke invite" });
+    }
+  });
+
+  app.get("/api/invites/:token", async (req, res) => {
+    try {
+      const invite = await storage.getInviteByToken(req.params.token);
+      if (!invite) {
+        return res.status(404).json({ message: "Invite not found" });
+      }
+
+      const [chat, invitedBy, members] = await Promise.all([
+        storage.getChat(invite.chatId),
+        storage.getUser(invite.createdById),
+        storage.getChatMembers(invite.chatId),
+      ]);
+      if (!chat || !invitedBy) {
+        return res.status(404).json({ message: "Invite not found" });
+      }
+
+      // Members can always follow the link back to the chat
+      const isMember = members.some(member => member.userId === req.user!.id);
+      const problem = isMember ? undefined : inviteProblem(invite);
+      if (problem) {
+        return res.status(problem.status).json({ message: problem.message });
+      }
+
+      const preview: InvitePreview = {
+        chat: { id: chat.id, name: chat.name, type: chat.type, description: chat.description },
+        memberCount: members.length,
+        invitedBy,
+        expiresAt: invite.expiresAt,
+        isMember,
+      };
+      res.json(preview);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch invite" });
+    }
+  });
+
+  // Joining again as a member is a no-op and does not use up the invite
+  app.post("/api/invites/:token/join", async (req, res) => {
+    try {
+      const user = req.user!;
+      const invite = await storage.getInviteByToken(req.params.token);
+      const chat = invite && await storage.getChat(invite.chatId);
+      if (!invite || !chat) {
+        return res.status(404).json({ message: "Invite not found" });
+      }
+
+      if (!await storage.getChatMember(chat.id, user.id)) {
+        const problem = inviteProblem(invite);
+        if (problem) {
+          return res.status(problem.status).json({ message: problem.message });
+        }
+        if (!await storage.redeemInvite(invite.id, user.id)) {
+          return res.status(410).json({ message: "This invite has been used up" });
+        }
+        await addJoiningMember(chat, user, `${nameOf(user)} joined with an invite link`);
+      }
+
+      res.json(await storage.getChatWithMembers(chat.id, user.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to join" });
+    }
+  });
+
+  // Music room settings and roles, managed by the host
+  app.patch("/api/chats/:chatId/music-settings", authorizeChat("hostRoom"), async (req, res) => {
+    try {
+      const parsed = musicRoomSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid room settings" });
+      }
+
+      const { queueLocked, djRotation, visibility } = parsed.data;
+      const updated = await storage.updateMusicRoom(req.chat!.id, {
+        queueLocked,
+        djRotation,
+        visibility,
+        ...(djRotation === false ? { onDeckUserId: null } : {}),
+      });
+      if (!updated) {
+        return res.status(404).json({ message: "Chat not found" });
+      }
+
+      await updateOnDeck(updated);
+      await publishChatUpdate(updated.id);
+      res.json(await storage.getChatWithMembers(updated.id, req.user!.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update room settings" });
+    }
+  });
+
+  // Music room hosts hand out DJ roles; group owners promote admins
+  app.put("/api/chats/:chatId/members/:userId/role", authorizeChat("changeRole"), async (req, res) => {
+    try {
+      const chat = req.chat!;
+      const parsed = (chat.type === "music" ? memberRoleSchema : groupRoleSchema).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid role" });
+      }
+
+      const target = await storage.getChatMember(chat.id, Number(req.params.userId));
+      const targetUser = target && await storage.getUser(target.userId);
+      if (!target || !targetUser) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      if (target.userId === req.user!.id) {
+        const handOver = chat.type === "music" ? "Hand the room" : "Hand the group";
+        return res.status(400).json({ message: `${handOver} to someone else to change your own role` });
+      }
+
+      const { role } = parsed.data;
+      if (chat.type === "music") {
+        // Handing over the room keeps the previous host on as a DJ
+        await storage.setMemberRole(chat.id, target.userId, role);
+        if (role === "host") {
+          await storage.setMemberRole(chat.id, req.user!.id, "dj");
+        }
+        await updateOnDeck(chat);
+      } else if (role !== target.role) {
+        const actor = req.user!;
+        await storage.setMemberRole(chat.id, target.userId, role);
+        await postSystemMessage(
+          chat.id, actor, { kind: "roleChanged", userId: target.userId },
+          role === "admin"
+            ? `${nameOf(actor)} made ${nameOf(targetUser)} an admin`
+            : `${nameOf(actor)} removed ${nameOf(targetUser)} as an admin`,
+        );
+      }
+
+      await publishChatUpdate(chat.id);
+      res.json(await storage.getChatWithMembers(chat.id, req.user!.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to change role" });
+    }
+  });
+
+  // Directory of public groups and music rooms
+  app.get("/api/rooms", async (req, res) => {
+    try {
+      const parsed = roomDirectoryQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid directory query" });
+      }
+
+      res.json(await storage.getRoomDirectory(req.user!.id, parsed.data));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch rooms" });
+    }
+  });
+
+  // What a room's link shows before joining. Besides members, public rooms
+  // show to anyone and unlisted ones to whoever has the `key` from their link.
+  app.get("/api/rooms/:chatId", async (req, res) => {
+    try {
+      const chatId = Number(req.params.chatId);
+      if (!Number.isInteger(chatId)) {
+        return res.status(400).json({ message: "Invalid chat id" });
+      }
+
+      const chat = await storage.getChat(chatId);
+      const room = chat && await storage.getDirectoryRoom(chatId, req.user!.id);
+      if (!chat || !room || !(room.isMember || canPerform("join", undefined, chat) || hasRoomLinkKey(chat, req.query.key))) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+      res.json(room);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch room" });
+    }
+  });
+
+  // Search across every chat the caller belongs to
+  app.get("/api/search/messages", async (req, res) => {
+    try {
+      const query = messageSearchQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid search query" });
+      }
+
+      const page = await storage.searchMessages(req.user!.id, query.data);
+      res.json(page);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to search messages" });
+    }
+  });
+
+  // Attachments
+  app.post("/api/chats/:chatId/attachments", authorizeChat("post"), receiveAttachment, async (req, res) => {
+    try {
+      const file = req.file;
+      if (!file) {
+        return res.status(400).json({ message: "Unsupported or missing file" });
+      }
+
+      const storageKey = await blobStore.put(file.buffer);
+      const attachment = await storage.createAttachment({
+        chatId: req.chat!.id,
+        uploaderId: req.user!.id,
+        fileName: file.originalname.slice(0, 255) || "file",
+        mimeType: file.mimetype,
+        size: file.size,
+        checksum: createHash("sha256").update(file.buffer).digest("hex"),
+        storageKey,
+      });
+      res.status(201).json(attachment);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to store attachment" });
+    }
+  });
+
+  app.get("/api/attachments/:attachmentId", authorizeAttachment("view"), (req, res) => {
+    const attachment = req.attachment!;
+    // Only images render inline; everything else is always a download
+    const inline = attachment.mimeType.startsWith("image/") && req.query.download === undefined;
+
+    res.setHeader("Content-Type", attachment.mimeType);
+    res.setHeader("Content-Length", attachment.size);
+    res.setHeader("Content-Disposition",
+      `${inline ? "inline" : "attachment"}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`);
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    res.setHeader("ETag", `"${attachment.checksum}"`);
+    res.setHeader("Cache-Control", "private, max-age=86400");
+
+    blobStore.read(attachment.storageKey)
+      .on("error", () => {
+        if (res.headersSent) return res.destroy();
+        res.removeHeader("Content-Length");
+        res.removeHeader("Content-Disposition");
+        res.type("json").status(404).json({ message: "Attachment not found" });
+      })
+      .pipe(res);
+  });
+
+  // Threads
+  app.post("/api/messages/:messageId/thread/read", authorizeMessage("view"), async (req, res) => {
+    try {
+      const root = req.message!;
+      const { messageId } = z.object({ messageId: z.number() }).parse(req.body);
+
+      const reply = await storage.getMessage(messageId);
+      if (!reply || reply.threadRootId !== root.id) {
+        return res.status(400).json({ message: "Message is not in this thread" });
+      }
+
+      await storage.markThreadRead(root.id, req.user!.id, messageId);
+      res.json({ lastReadMessageId: messageId });
+    } catch (error) {
+      res.status(400).json({ message: "Invalid read receipt" });
+    }
+  });
+
+  // Reactions
+  const updateReaction = (mode: "add" | "remove") => async (req: Request, res: Response) => {
+    try {
+      const { emoji } = reactionSchema.parse({ emoji: req.params.emoji });
+      const message = req.message!;
+      if (message.deletedAt) {
+        return res.status(409).json({ message: "Deleted messages cannot be reacted to" });
+      }
+
+      if (mode === "add") {
+        await storage.addReaction(message.id, req.user!.id, emoji);
+      } else {
+        await storage.removeReaction(message.id, req.user!.id, emoji);
+      }
+
+      const reactionsFor = async (viewerId: number) =>
+        (await storage.getReactionSummaries([message.id], viewerId)).get(message.id) ?? [];
+      await publishViewsFromUser(message.chatId, req.user!.id, async (viewerId) => ({
+        type: "reaction.updated",
+        chatId: message.chatId,
+        messageId: message.id,
+        reactions: await reactionsFor(viewerId),
+      }));
+      res.json(await reactionsFor(req.user!.id));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid reaction" });
+    }
+  };
+
+  app.put("/api/messages/:messageId/reactions/:emoji", authorizeMessage("post"), updateReaction("add"));
+  app.delete("/api/messages/:messageId/reactions/:emoji", authorizeMessage("post"), updateReaction("remove"));
+
+  // Find or create direct chat between the current user and another user
   app.post("/api/chats/direct", async (req, res) => {
     try {
-      const { userId1, userId2 } = req.body;
+      const currentUserId = req.user!.id;
+      const { userId } = z.object({ userId: z.number() }).parse(req.body);
+
+      const otherUser = await storage.getUser(userId);
+      if (!otherUser || otherUser.id === currentUserId) {
+        return res.status(400).json({ message: "Invalid user" });
+      }
       
       // Check if direct chat already exists
-      const user1Chats = await storage.getUserChats(userId1);
-      const existingChat = user1Chats.find(chat => 
+      const userChats = await storage.getUserChats(currentUserId);
+      const existingChat = userChats.find(chat => 
         chat.type === 'direct' && 
         chat.members.length === 2 &&
-        chat.members.some(member => member.userId === userId2)
+        chat.members.some(member => member.userId === userId)
       );
 
       if (existingChat) {
         return res.json(existingChat);
       }
 
+      if (await isBlockedBetween(currentUserId, otherUser.id)) {
+        return res.status(403).json({ message: "You can't message this person" });
+      }
+      if (!await canStartDirectChat(req.user!, otherUser)) {
+        return res.status(403).json({ message: `${nameOf(otherUser)} only accepts direct messages from friends` });
+      }
+
       // Create new direct chat
       const chat = await storage.createChat({
         type: 'direct',
-        createdBy: userId1,
+        createdBy: currentUserId,
         name: null
       });
 
-      await storage.addChatMember(chat.id, userId2);
+      await storage.addChatMember(chat.id, userId);
+      realtime.publishToUsers([userId], { type: "member.added", chatId: chat.id, userId });
       
-      const chatWithMembers = await storage.getChatWithMembers(chat.id);
+      const chatWithMembers = await storage.getChatWithMembers(chat.id, currentUserId);
       res.json(chatWithMembers);
     } catch (error) {
       res.status(500).json({ message: "Failed to create direct chat" });
@@ -154,5 +1500,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
+  realtime.attach(httpServer);
+  await storage.assignMissingLeaders();
+  await presence.start();
   return httpServer;
 }
@@ -1,45 +1,352 @@
 import { 
-  users, chats, chatMembers, messages,
-  type User, type InsertUser, 
+  users, userCredentials, chats, chatMembers, messages, messageEdits, messageReactions, threadReads, attachments,
+  queueItems, queueVotes, playHistory, chatInvites, inviteJoins, friendships, userMutes,
+  type User, type InsertUser, type UserStatus, type ProfileUpdate, type PrivacySettings, type AvatarKeys,
+  type Friendship, type FriendshipStatus, type Contact, type Contacts, type UserMute,
   type Chat, type InsertChat, type ChatWithMembers,
-  type ChatMember, type Message, type InsertMessage, type MessageWithSender
+  type ChatMember, type Message, type InsertMessage, type MessageWithSender,
+  type MessagePage, type MessagePageQuery, type MessageEdit,
+  type MessageReaction, type ReactionSummary, type MessageQuote, type ThreadSummary,
+  type Attachment, type InsertAttachment,
+  type MessageSearchQuery, type MessageSearchPage, type MessageSearchResult,
+  type RoomDirectoryQuery, type RoomDirectoryPage, type DirectoryRoom, type DirectorySort,
+  type QueueItem, type InsertQueueItem, type QueueItemWithVotes, type QueueVoteValue, type TrackMetadata,
+  type MemberRole, type GroupSettings, type SystemEvent,
+  type ChatInvite, type InsertChatInvite, type ChatInviteWithJoins, type InviteJoin,
+  type Play, type InsertPlay, type PlayEnding, type PlayWithUser, type PlayHistoryQuery, type PlayHistoryPage, type RoomStats,
+  SEARCH_HIGHLIGHT_START, SEARCH_HIGHLIGHT_END
 } from "@shared/schema";
-import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { nextOwner } from "@shared/group-roles";
+import { db, pool } from "./db";
+import { eq, and, or, ne, gt, gte, lt, lte, isNull, ilike, count, max, asc, desc, inArray, notInArray, sql } from "drizzle-orm";
+import { randomUUID } from "crypto";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+
+const PostgresSessionStore = connectPg(session);
+const MemoryStore = createMemoryStore(session);
+
+// Thrown when a profile update would give two users the same username
+export class UsernameTakenError extends Error {}
+
+// Postgres reports a unique constraint violation with this SQLSTATE
+const UNIQUE_VIOLATION = "23505";
+
+// Both storages return pages in ascending id order; the cursor for the next
+// page is the id at the far edge of the page in the direction of travel.
+function toNextCursor(page: Message[], hasMore: boolean, forward: boolean): number | null {
+  if (!hasMore || page.length === 0) return null;
+  return forward ? page[page.length - 1].id : page[0].id;
+}
+
+// An ILIKE pattern matching `text` anywhere, with wildcards in it taken literally
+function containsPattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, "\\$&")}%`;
+}
+
+// Groups raw reaction rows into per-message, per-emoji summaries, keeping
+// emojis in the order they were first used.
+function summarizeReactions(rows: Pick<MessageReaction, "messageId" | "userId" | "emoji">[]): Map<number, ReactionSummary[]> {
+  const summaries = new Map<number, ReactionSummary[]>();
+  for (const row of rows) {
+    const forMessage = summaries.get(row.messageId) ?? [];
+    let summary = forMessage.find(entry => entry.emoji === row.emoji);
+    if (!summary) {
+      summary = { emoji: row.emoji, count: 0, userIds: [] };
+      forMessage.push(summary);
+    }
+    summary.count++;
+    summary.userIds.push(row.userId);
+    summaries.set(row.messageId, forMessage);
+  }
+  return summaries;
+}
+
+// Attaches reactions, the quoted parent and the thread summary to raw rows.
+// Both storages share this so messages look the same regardless of backend.
+async function decorateMessages(
+  storage: IStorage,
+  rows: (Message & { sender: User })[],
+  viewerId?: number,
+): Promise<MessageWithSender[]> {
+  const ids = rows.map(message => message.id);
+  const parentIds = rows.flatMap(message => message.parentId !== null ? [message.parentId] : []);
+  const rootIds = rows.filter(message => message.threadRootId === null).map(message => message.id);
+
+  const [reactions, quotes, threads, files] = await Promise.all([
+    storage.getReactionSummaries(ids, viewerId),
+    storage.getMessageQuotes(parentIds),
+    storage.getThreadSummaries(rootIds, viewerId),
+    storage.getMessageAttachments(ids),
+  ]);
+
+  return rows.map(message => ({
+    ...message,
+    reactions: reactions.get(message.id) ?? [],
+    parent: message.parentId !== null ? quotes.get(message.parentId) ?? null : null,
+    thread: threads.get(message.id) ?? null,
+    // Deleting a message retracts its files along with the text
+    attachments: message.deletedAt ? [] : files.get(message.id) ?? [],
+  }));
+}
+
+export type UserPresence = Pick<User, "isOnline" | "isAway">;
+
+export type MusicRoomUpdate = Partial<Pick<Chat, "queueLocked" | "djRotation" | "onDeckUserId" | "visibility">>;
+export type PlaybackUpdate = Pick<Chat, "currentSong" | "songUrl" | "currentTrack" | "isPlaying" | "playbackPositionMs" | "playbackStartedAt">;
+
+export type NewMessage = InsertMessage & { senderId: number; track?: TrackMetadata | null; systemEvent?: SystemEvent | null };
+
+// A music room's creator hosts it and a group's creator owns it
+const CREATOR_ROLES: Record<string, MemberRole> = { music: "host", group: "owner" };
+
+// Who takes charge of a room or group that has no host or owner: its creator,
+// or if the creator has left, whoever would have taken over from them (see
+// nextOwner; in a music room, the longest-standing member)
+function missingLeader(chat: Chat, members: ChatMember[]): ChatMember | undefined {
+  const role = CREATOR_ROLES[chat.type];
+  if (!role || members.some(member => member.role === role)) return undefined;
+
+  const creator = members.find(member => member.userId === chat.createdBy);
+  if (creator) return creator;
+  // The creator is gone, so there is nobody leaving to pass over
+  return chat.type === "group"
+    ? nextOwner(members, 0)
+    : [...members].sort((a, b) => a.id - b.id)[0];
+}
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   // Users
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
-  updateUserOnlineStatus(userId: number, isOnline: boolean): Promise<void>;
+  createUser(user: InsertUser, passwordHash: string): Promise<User>;
+  getPasswordHash(userId: number): Promise<string | undefined>;
+  // Also stamps `lastSeen`, so for an offline user it is when they left
+  updateUserPresence(userId: number, presence: UserPresence): Promise<User | undefined>;
+  // Marks everyone offline, e.g. after a restart lost track of open tabs
+  resetPresence(): Promise<void>;
+  updateUserStatus(userId: number, status: UserStatus): Promise<User | undefined>;
+  // Removes custom statuses whose time is up, returning the users they belonged to
+  clearExpiredStatuses(now: Date): Promise<User[]>;
+  updateUserProfile(userId: number, profile: ProfileUpdate): Promise<User | undefined>;
+  // Null removes the avatar. The caller owns the blobs.
+  setUserAvatar(userId: number, avatarKeys: AvatarKeys | null): Promise<User | undefined>;
+  updateUserPrivacy(userId: number, settings: PrivacySettings): Promise<User | undefined>;
   getOnlineUsers(): Promise<User[]>;
+  // Users whose username or display name contains `query`, by username
+  searchUsers(query: string, limit: number): Promise<User[]>;
+
+  // Friends. Rows are per direction; see the friendships table.
+  getFriendship(userId: number, friendId: number): Promise<Friendship | undefined>;
+  setFriendship(userId: number, friendId: number, status: FriendshipStatus): Promise<Friendship>;
+  deleteFriendship(userId: number, friendId: number): Promise<void>;
+  getContacts(userId: number): Promise<Contacts>;
+  getBlockedUserIds(userId: number): Promise<number[]>; // Whom the user blocked
+  getBlockerIds(userId: number): Promise<number[]>; // Who blocked the user
+  setMute(userId: number, mutedUserId: number, muted: boolean): Promise<void>;
 
   // Chats
   getChat(id: number): Promise<Chat | undefined>;
-  getChatWithMembers(id: number): Promise<ChatWithMembers | undefined>;
+  getChatWithMembers(id: number, viewerId?: number): Promise<ChatWithMembers | undefined>;
   getUserChats(userId: number): Promise<ChatWithMembers[]>;
   createChat(chat: InsertChat & { createdBy: number }): Promise<Chat>;
-  addChatMember(chatId: number, userId: number): Promise<void>;
+  addChatMember(chatId: number, userId: number, role?: MemberRole): Promise<void>;
+  removeChatMember(chatId: number, userId: number): Promise<void>;
   getChatMembers(chatId: number): Promise<(ChatMember & { user: User })[]>;
+  getChatMember(chatId: number, userId: number): Promise<ChatMember | undefined>;
+  setMemberRole(chatId: number, userId: number, role: MemberRole): Promise<ChatMember | undefined>;
+  // Rooms and groups from before roles existed have no host or owner; see missingLeader
+  assignMissingLeaders(): Promise<void>;
+  updatePlayback(chatId: number, playback: PlaybackUpdate): Promise<Chat | undefined>;
+  updateMusicRoom(chatId: number, settings: MusicRoomUpdate): Promise<Chat | undefined>;
+  updateGroupSettings(chatId: number, settings: GroupSettings): Promise<Chat | undefined>;
 
-  // Messages
+  // Messages. Given a viewer, messages and reactions from users they blocked
+  // are left out, and neither those nor messages from users they muted count
+  // as unread.
   getMessage(id: number): Promise<Message | undefined>;
-  getChatMessages(chatId: number, limit?: number): Promise<MessageWithSender[]>;
-  createMessage(message: InsertMessage & { senderId: number }): Promise<Message>;
+  getChatMessages(chatId: number, query?: MessagePageQuery, viewerId?: number): Promise<MessagePage>;
+  getMessageWithSender(id: number, viewerId?: number): Promise<MessageWithSender | undefined>;
+  createMessage(message: NewMessage): Promise<Message>;
+  updateMessageContent(id: number, content: string): Promise<Message | undefined>;
+  deleteMessage(id: number): Promise<Message | undefined>;
+  getMessageEdits(messageId: number): Promise<MessageEdit[]>;
+  addReaction(messageId: number, userId: number, emoji: string): Promise<void>;
+  removeReaction(messageId: number, userId: number, emoji: string): Promise<void>;
+  getReactionSummaries(messageIds: number[], viewerId?: number): Promise<Map<number, ReactionSummary[]>>;
+  getMessageQuotes(messageIds: number[]): Promise<Map<number, MessageQuote>>;
+  getThreadSummaries(rootIds: number[], viewerId?: number): Promise<Map<number, ThreadSummary>>;
   getUnreadMessageCount(chatId: number, userId: number): Promise<number>;
+  markChatRead(chatId: number, userId: number, messageId: number): Promise<ChatMember | undefined>;
+  markThreadRead(threadRootId: number, userId: number, messageId: number): Promise<void>;
+
+  // Attachments
+  createAttachment(attachment: InsertAttachment): Promise<Attachment>;
+  getAttachment(id: number): Promise<Attachment | undefined>;
+  linkAttachments(ids: number[], messageId: number): Promise<void>;
+  getMessageAttachments(messageIds: number[]): Promise<Map<number, Attachment[]>>;
+
+  // Search
+  searchMessages(userId: number, query: MessageSearchQuery): Promise<MessageSearchPage>;
+
+  // Room directory
+  // Public rooms of one type, with `isMember` as seen by `viewerId`
+  getRoomDirectory(viewerId: number, query: RoomDirectoryQuery): Promise<RoomDirectoryPage>;
+  // Any group or music room, whatever its visibility; the caller decides who may see it
+  getDirectoryRoom(chatId: number, viewerId: number): Promise<DirectoryRoom | undefined>;
+
+  // Music room queue
+  getQueue(chatId: number, viewerId: number): Promise<QueueItemWithVotes[]>;
+  getQueueItem(id: number): Promise<QueueItem | undefined>;
+  addQueueItem(item: InsertQueueItem): Promise<QueueItem>;
+  removeQueueItem(id: number): Promise<void>;
+  moveQueueItem(id: number, position: number): Promise<void>;
+  setQueueVote(queueItemId: number, userId: number, value: QueueVoteValue): Promise<void>;
+  takeNextQueueItem(chatId: number): Promise<QueueItem | undefined>;
+
+  // Music room play history
+  startPlay(play: InsertPlay): Promise<Play>;
+  endPlay(chatId: number, ending: PlayEnding): Promise<void>; // Closes the room's open play, if any
+  getPlayHistory(chatId: number, query: PlayHistoryQuery): Promise<PlayHistoryPage>;
+  getRoomStats(chatId: number, weeks: number, now?: Date): Promise<RoomStats>;
+
+  // Invite links
+  createInvite(invite: InsertChatInvite): Promise<ChatInvite>;
+  getInviteByToken(token: string): Promise<ChatInvite | undefined>;
+  getChatInvites(chatId: number): Promise<ChatInviteWithJoins[]>; // Newest first
+  revokeInvite(chatId: number, inviteId: number): Promise<ChatInvite | undefined>;
+  // Counts one use of the invite and records who joined through it. False,
+  // without recording anything, once the invite has run out of uses.
+  redeemInvite(inviteId: number, userId: number): Promise<boolean>;
+}
+
+const TOKEN_PATTERN = new RegExp("[\\p{L}\\p{N}]+", "gu");
+const SNIPPET_RADIUS = 60;
+
+// Lower-cased words and numbers, as used by MemStorage's search index
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(TOKEN_PATTERN) ?? []);
+}
+
+// Cuts a window of `content` around the first match and wraps every token
+// starting with one of `terms` in the highlight markers
+function highlightSnippet(content: string, terms: string[]): string {
+  const matches = Array.from(content.matchAll(TOKEN_PATTERN))
+    .filter(match => terms.some(term => match[0].toLowerCase().startsWith(term)));
+  if (matches.length === 0) return content.slice(0, SNIPPET_RADIUS * 2);
+
+  const start = Math.max(0, matches[0].index! - SNIPPET_RADIUS);
+  const end = Math.min(content.length, matches[0].index! + matches[0][0].length + SNIPPET_RADIUS);
+
+  let snippet = start > 0 ? "…" : "";
+  let cursor = start;
+  for (const match of matches) {
+    const matchStart = match.index!;
+    const matchEnd = matchStart + match[0].length;
+    if (matchStart < start || matchEnd > end) continue;
+    snippet += content.slice(cursor, matchStart) + SEARCH_HIGHLIGHT_START + match[0] + SEARCH_HIGHLIGHT_END;
+    cursor = matchEnd;
+  }
+  return snippet + content.slice(cursor, end) + (end < content.length ? "…" : "");
+}
+
+function groupAttachments(rows: Attachment[]): Map<number, Attachment[]> {
+  const grouped = new Map<number, Attachment[]>();
+  for (const row of rows) {
+    if (row.messageId === null) continue;
+    grouped.set(row.messageId, [...(grouped.get(row.messageId) ?? []), row]);
+  }
+  return grouped;
+}
+
+// How the directory is ordered for each sort. Ties go to the newer room.
+const DIRECTORY_ORDERS: Record<DirectorySort, (a: DirectoryRoom, b: DirectoryRoom) => number> = {
+  active: (a, b) => b.lastActivityAt.getTime() - a.lastActivityAt.getTime() || b.id - a.id,
+  members: (a, b) => b.memberCount - a.memberCount || b.id - a.id,
+  newest: (a, b) => b.id - a.id,
+};
+
+// Orders a queue by votes, best first. The sort is stable, so tracks with equal
+// scores keep their current (possibly hand-arranged) order.
+function rankQueue<T extends { score: number }>(items: T[]): T[] {
+  return [...items].sort((a, b) => b.score - a.score);
+}
+
+// Moves `id` to index `position` of the ordered ids, clamped to the ends
+function moveId(ids: number[], id: number, position: number): number[] {
+  const rest = ids.filter(other => other !== id);
+  const index = Math.min(position, rest.length);
+  return [...rest.slice(0, index), id, ...rest.slice(index)];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TOP_STATS_LIMIT = 10;
+
+// Monday 00:00 UTC of the week `date` falls in, like Postgres' date_trunc('week')
+function weekStart(date: Date): number {
+  const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  return day - ((date.getUTCDay() + 6) % 7) * DAY_MS;
+}
+
+// Listening hours for each of the `weeks` weeks up to `now`, oldest first,
+// from milliseconds played keyed by week start
+function weeklyListening(weeks: number, now: Date, playedMs: Map<number, number>): RoomStats["weeklyListening"] {
+  const current = weekStart(now);
+  return Array.from({ length: weeks }, (_, index) => {
+    const start = current - (weeks - 1 - index) * 7 * DAY_MS;
+    return {
+      weekStart: new Date(start).toISOString().slice(0, 10),
+      hours: Math.round((playedMs.get(start) ?? 0) / 36000) / 100,
+    };
+  });
+}
+
+// The `limit` largest counts, ties broken by first appearance
+function topCounts<K>(keys: K[], limit: number): { key: K; plays: number }[] {
+  const counts = new Map<K, number>();
+  keys.forEach(key => counts.set(key, (counts.get(key) ?? 0) + 1));
+  return Array.from(counts, ([key, plays]) => ({ key, plays }))
+    .sort((a, b) => b.plays - a.plays)
+    .slice(0, limit);
 }
 
 export class MemStorage implements IStorage {
+  sessionStore: session.Store = new MemoryStore({ checkPeriod: 86400000 });
+
   private users: Map<number, User> = new Map();
+  private passwordHashes: Map<number, string> = new Map();
   private chats: Map<number, Chat> = new Map();
   private chatMembers: Map<number, ChatMember> = new Map();
   private messages: Map<number, Message> = new Map();
+  private messageEdits: Map<number, MessageEdit> = new Map();
+  private messageReactions: Map<number, MessageReaction> = new Map();
+  private threadReads: Map<string, number> = new Map(); // "rootId:userId" -> last read message id
+  private attachments: Map<number, Attachment> = new Map();
+  private searchIndex: Map<string, Set<number>> = new Map(); // token -> message ids
+  private queueItems: Map<number, QueueItem> = new Map();
+  private queueVotes: Map<string, QueueVoteValue> = new Map(); // "itemId:userId" -> vote
+  private playHistory: Map<number, Play> = new Map();
+  private chatInvites: Map<number, ChatInvite> = new Map();
+  private inviteJoins: Map<number, InviteJoin> = new Map();
+  private friendships: Map<string, Friendship> = new Map(); // "userId:friendId" -> row
+  private userMutes: Map<string, UserMute> = new Map(); // "userId:mutedUserId" -> row
   
   private currentUserId = 1;
   private currentChatId = 1;
   private currentChatMemberId = 1;
   private currentMessageId = 1;
+  private currentMessageEditId = 1;
+  private currentReactionId = 1;
+  private currentAttachmentId = 1;
+  private currentQueueItemId = 1;
+  private currentPlayId = 1;
+  private currentInviteId = 1;
+  private currentInviteJoinId = 1;
+  private currentFriendshipId = 1;
+  private currentUserMuteId = 1;
 
   async getUser(id: number): Promise<User | undefined> {
     return this.users.get(id);
@@ -49,49 +356,189 @@ export class MemStorage implements IStorage {
     return Array.from(this.users.values()).find(user => user.username === username);
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
+  async createUser(insertUser: InsertUser, passwordHash: string): Promise<User> {
     const id = this.currentUserId++;
     const now = new Date();
     const user: User = { 
       ...insertUser, 
       id, 
-      isOnline: true, 
-      lastSeen: now 
+      isOnline: false, 
+      isAway: false,
+      lastSeen: now,
+      availability: "auto",
+      statusText: null,
+      statusEmoji: null,
+      statusExpiresAt: null,
+      displayName: null,
+      bio: null,
+      pronouns: null,
+      avatarKeys: null,
+      avatarUpdatedAt: null,
+      directMessagesFrom: "everyone",
     };
     this.users.set(id, user);
+    this.passwordHashes.set(id, passwordHash);
+    return user;
+  }
+
+  async getPasswordHash(userId: number): Promise<string | undefined> {
+    return this.passwordHashes.get(userId);
+  }
+
+  async updateUserPresence(userId: number, presence: UserPresence): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+    Object.assign(user, presence, { lastSeen: new Date() });
+    return user;
+  }
+
+  async resetPresence(): Promise<void> {
+    this.users.forEach(user => {
+      user.isOnline = false;
+      user.isAway = false;
+    });
+  }
+
+  async updateUserStatus(userId: number, status: UserStatus): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+    Object.assign(user, status);
     return user;
   }
 
-  async updateUserOnlineStatus(userId: number, isOnline: boolean): Promise<void> {
+  async clearExpiredStatuses(now: Date): Promise<User[]> {
+    const expired = Array.from(this.users.values())
+      .filter(user => user.statusExpiresAt !== null && user.statusExpiresAt <= now);
+    expired.forEach(user => Object.assign(user, { statusText: null, statusEmoji: null, statusExpiresAt: null }));
+    return expired;
+  }
+
+  async updateUserProfile(userId: number, profile: ProfileUpdate): Promise<User | undefined> {
     const user = this.users.get(userId);
-    if (user) {
-      user.isOnline = isOnline;
-      user.lastSeen = new Date();
-      this.users.set(userId, user);
+    if (!user) return undefined;
+    const { username } = profile;
+    if (username !== undefined && Array.from(this.users.values()).some(other => other.id !== userId && other.username === username)) {
+      throw new UsernameTakenError("Username already taken");
     }
+    Object.assign(user, profile);
+    return user;
+  }
+
+  async setUserAvatar(userId: number, avatarKeys: AvatarKeys | null): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+    user.avatarKeys = avatarKeys;
+    user.avatarUpdatedAt = avatarKeys ? new Date() : null;
+    return user;
+  }
+
+  async updateUserPrivacy(userId: number, settings: PrivacySettings): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+    Object.assign(user, settings);
+    return user;
   }
 
   async getOnlineUsers(): Promise<User[]> {
     return Array.from(this.users.values()).filter(user => user.isOnline);
   }
 
+  async searchUsers(query: string, limit: number): Promise<User[]> {
+    const needle = query.toLowerCase();
+    return Array.from(this.users.values())
+      .filter(user => [user.username, user.displayName].some(text => text?.toLowerCase().includes(needle)))
+      .sort((a, b) => a.username.localeCompare(b.username))
+      .slice(0, limit);
+  }
+
+  async getFriendship(userId: number, friendId: number): Promise<Friendship | undefined> {
+    return this.friendships.get(`${userId}:${friendId}`);
+  }
+
+  async setFriendship(userId: number, friendId: number, status: FriendshipStatus): Promise<Friendship> {
+    const key = `${userId}:${friendId}`;
+    const now = new Date();
+    const existing = this.friendships.get(key);
+    const friendship: Friendship = existing
+      ? { ...existing, status, updatedAt: now }
+      : { id: this.currentFriendshipId++, userId, friendId, status, createdAt: now, updatedAt: now };
+    this.friendships.set(key, friendship);
+    return friendship;
+  }
+
+  async deleteFriendship(userId: number, friendId: number): Promise<void> {
+    this.friendships.delete(`${userId}:${friendId}`);
+  }
+
+  async getContacts(userId: number): Promise<Contacts> {
+    const rows = Array.from(this.friendships.values()).sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+    const contacts = (matches: Friendship[], otherId: (row: Friendship) => number): Contact[] =>
+      matches.map(row => ({ user: this.users.get(otherId(row))!, since: row.updatedAt })).filter(contact => contact.user);
+
+    return {
+      friends: contacts(rows.filter(row => row.userId === userId && row.status === "accepted"), row => row.friendId),
+      incoming: contacts(rows.filter(row => row.friendId === userId && row.status === "pending"), row => row.userId),
+      outgoing: contacts(rows.filter(row => row.userId === userId && row.status === "pending"), row => row.friendId),
+      blocked: contacts(rows.filter(row => row.userId === userId && row.status === "blocked"), row => row.friendId),
+      muted: Array.from(this.userMutes.values())
+        .filter(mute => mute.userId === userId)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .map(mute => ({ user: this.users.get(mute.mutedUserId)!, since: mute.createdAt }))
+        .filter(contact => contact.user),
+    };
+  }
+
+  async getBlockedUserIds(userId: number): Promise<number[]> {
+    return Array.from(this.blockedIds(userId));
+  }
+
+  async getBlockerIds(userId: number): Promise<number[]> {
+    return Array.from(this.friendships.values())
+      .filter(row => row.friendId === userId && row.status === "blocked")
+      .map(row => row.userId);
+  }
+
+  async setMute(userId: number, mutedUserId: number, muted: boolean): Promise<void> {
+    const key = `${userId}:${mutedUserId}`;
+    if (!muted) {
+      this.userMutes.delete(key);
+    } else if (!this.userMutes.has(key)) {
+      this.userMutes.set(key, { id: this.currentUserMuteId++, userId, mutedUserId, createdAt: new Date() });
+    }
+  }
+
+  private blockedIds(userId: number): Set<number> {
+    return new Set(Array.from(this.friendships.values())
+      .filter(row => row.userId === userId && row.status === "blocked")
+      .map(row => row.friendId));
+  }
+
+  // Senders whose messages never count as unread for the user
+  private silencedIds(userId: number): Set<number> {
+    const silenced = this.blockedIds(userId);
+    this.userMutes.forEach(mute => {
+      if (mute.userId === userId) silenced.add(mute.mutedUserId);
+    });
+    return silenced;
+  }
+
   async getChat(id: number): Promise<Chat | undefined> {
     return this.chats.get(id);
   }
 
-  async getChatWithMembers(id: number): Promise<ChatWithMembers | undefined> {
+  async getChatWithMembers(id: number, viewerId?: number): Promise<ChatWithMembers | undefined> {
     const chat = this.chats.get(id);
     if (!chat) return undefined;
 
     const members = await this.getChatMembers(id);
-    const messages = await this.getChatMessages(id, 1);
+    const { messages } = await this.getChatMessages(id, { limit: 1 }, viewerId);
     const lastMessage = messages[0];
 
     return {
       ...chat,
       members,
       lastMessage,
-      unreadCount: 0
+      unreadCount: viewerId !== undefined ? await this.getUnreadMessageCount(id, viewerId) : 0
     };
   }
 
@@ -100,7 +547,7 @@ export class MemStorage implements IStorage {
       .filter(member => member.userId === userId);
     
     const chats = await Promise.all(
-      userChatMembers.map(member => this.getChatWithMembers(member.chatId))
+      userChatMembers.map(member => this.getChatWithMembers(member.chatId, userId))
     );
 
     return chats.filter(chat => chat !== undefined) as ChatWithMembers[];
@@ -113,27 +560,37 @@ export class MemStorage implements IStorage {
       id, 
       name: chat.name || null,
       type: chat.type,
+      description: null,
+      visibility: "private",
+      linkToken: randomUUID(),
       createdBy: chat.createdBy,
       createdAt: now,
       currentSong: null,
       songUrl: null,
-      isPlaying: false
+      isPlaying: false,
+      playbackPositionMs: 0,
+      playbackStartedAt: null,
+      currentTrack: null,
+      queueLocked: false,
+      djRotation: false,
+      onDeckUserId: null
     };
     this.chats.set(id, newChat);
     
-    // Add creator as member
-    await this.addChatMember(id, chat.createdBy);
+    await this.addChatMember(id, chat.createdBy, CREATOR_ROLES[chat.type]);
     
     return newChat;
   }
 
-  async addChatMember(chatId: number, userId: number): Promise<void> {
+  async addChatMember(chatId: number, userId: number, role: MemberRole = "member"): Promise<void> {
     const id = this.currentChatMemberId++;
     const member: ChatMember = {
       id,
       chatId,
       userId,
-      joinedAt: new Date()
+      joinedAt: new Date(),
+      lastReadMessageId: null,
+      role
     };
     this.chatMembers.set(id, member);
   }
@@ -148,43 +605,588 @@ export class MemStorage implements IStorage {
     })).filter(member => member.user);
   }
 
+  async getChatMember(chatId: number, userId: number): Promise<ChatMember | undefined> {
+    return Array.from(this.chatMembers.values())
+      .find(member => member.chatId === chatId && member.userId === userId);
+  }
+
+  async removeChatMember(chatId: number, userId: number): Promise<void> {
+    const member = await this.getChatMember(chatId, userId);
+    if (member) this.chatMembers.delete(member.id);
+  }
+
+  async updatePlayback(chatId: number, playback: PlaybackUpdate): Promise<Chat | undefined> {
+    const chat = this.chats.get(chatId);
+    if (!chat) return undefined;
+
+    const updated = { ...chat, ...playback };
+    this.chats.set(chatId, updated);
+    return updated;
+  }
+
+  async updateMusicRoom(chatId: number, settings: MusicRoomUpdate): Promise<Chat | undefined> {
+    const chat = this.chats.get(chatId);
+    if (!chat) return undefined;
+
+    const updated = { ...chat, ...settings };
+    this.chats.set(chatId, updated);
+    return updated;
+  }
+
+  async updateGroupSettings(chatId: number, settings: GroupSettings): Promise<Chat | undefined> {
+    const chat = this.chats.get(chatId);
+    if (!chat) return undefined;
+
+    const updated = { ...chat, ...settings };
+    this.chats.set(chatId, updated);
+    return updated;
+  }
+
+  async setMemberRole(chatId: number, userId: number, role: MemberRole): Promise<ChatMember | undefined> {
+    const member = await this.getChatMember(chatId, userId);
+    if (!member) return undefined;
+
+    member.role = role;
+    this.chatMembers.set(member.id, member);
+    return member;
+  }
+
+  async assignMissingLeaders(): Promise<void> {
+    const members = Array.from(this.chatMembers.values());
+    for (const chat of Array.from(this.chats.values())) {
+      const leader = missingLeader(chat, members.filter(member => member.chatId === chat.id));
+      if (leader) leader.role = CREATOR_ROLES[chat.type];
+    }
+  }
+
   async getMessage(id: number): Promise<Message | undefined> {
     return this.messages.get(id);
   }
 
-  async getChatMessages(chatId: number, limit = 50): Promise<MessageWithSender[]> {
-    const chatMessages = Array.from(this.messages.values())
-      .filter(message => message.chatId === chatId)
-      .sort((a, b) => b.sentAt.getTime() - a.sentAt.getTime())
-      .slice(0, limit)
-      .reverse();
+  async getChatMessages(chatId: number, query: MessagePageQuery = {}, viewerId?: number): Promise<MessagePage> {
+    const { thread, before, after, limit = 50 } = query;
+    const blocked = viewerId !== undefined ? this.blockedIds(viewerId) : new Set<number>();
+    const ascending = Array.from(this.messages.values())
+      .filter(message => message.chatId === chatId && !blocked.has(message.senderId))
+      .filter(message => message.threadRootId === (thread ?? null))
+      .filter(message => before === undefined || message.id < before)
+      .filter(message => after === undefined || message.id > after)
+      .sort((a, b) => a.id - b.id);
 
-    return chatMessages.map(message => ({
+    // Walk forward from the cursor for `after`, otherwise back from the newest
+    const page = after !== undefined
+      ? ascending.slice(0, limit)
+      : ascending.slice(Math.max(0, ascending.length - limit));
+    const hasMore = ascending.length > limit;
+
+    const withSenders = page.map(message => ({
       ...message,
       sender: this.users.get(message.senderId)!
     })).filter(message => message.sender);
+    const messages = await decorateMessages(this, withSenders, viewerId);
+
+    return { messages, nextCursor: toNextCursor(page, hasMore, after !== undefined) };
+  }
+
+  async getMessageWithSender(id: number, viewerId?: number): Promise<MessageWithSender | undefined> {
+    const message = this.messages.get(id);
+    const sender = message && this.users.get(message.senderId);
+    if (!message || !sender) return undefined;
+
+    const [decorated] = await decorateMessages(this, [{ ...message, sender }], viewerId);
+    return decorated;
   }
 
-  async createMessage(message: InsertMessage & { senderId: number }): Promise<Message> {
+  async createMessage(message: NewMessage): Promise<Message> {
     const id = this.currentMessageId++;
     const now = new Date();
     const newMessage: Message = { 
       ...message, 
       id, 
-      sentAt: now 
+      sentAt: now,
+      editedAt: null,
+      deletedAt: null,
+      parentId: message.parentId ?? null,
+      threadRootId: message.threadRootId ?? null,
+      track: message.track ?? null,
+      systemEvent: message.systemEvent ?? null
     };
     this.messages.set(id, newMessage);
+    this.indexMessage(id, newMessage.content);
     return newMessage;
   }
 
+  async updateMessageContent(id: number, content: string): Promise<Message | undefined> {
+    const message = this.messages.get(id);
+    if (!message || message.deletedAt) return undefined;
+
+    const now = new Date();
+    const editId = this.currentMessageEditId++;
+    this.messageEdits.set(editId, {
+      id: editId,
+      messageId: id,
+      previousContent: message.content,
+      editedAt: now
+    });
+
+    this.unindexMessage(id, message.content);
+    message.content = content;
+    message.editedAt = now;
+    this.messages.set(id, message);
+    this.indexMessage(id, content);
+    return message;
+  }
+
+  async deleteMessage(id: number): Promise<Message | undefined> {
+    const message = this.messages.get(id);
+    if (!message) return undefined;
+
+    this.unindexMessage(id, message.content);
+    message.content = "";
+    message.track = null;
+    message.deletedAt = message.deletedAt ?? new Date();
+    this.messages.set(id, message);
+    return message;
+  }
+
+  private indexMessage(id: number, content: string) {
+    for (const token of tokenize(content)) {
+      const ids = this.searchIndex.get(token) ?? new Set<number>();
+      ids.add(id);
+      this.searchIndex.set(token, ids);
+    }
+  }
+
+  private unindexMessage(id: number, content: string) {
+    for (const token of tokenize(content)) {
+      const ids = this.searchIndex.get(token);
+      ids?.delete(id);
+      if (ids?.size === 0) this.searchIndex.delete(token);
+    }
+  }
+
+  async getMessageEdits(messageId: number): Promise<MessageEdit[]> {
+    return Array.from(this.messageEdits.values())
+      .filter(edit => edit.messageId === messageId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async addReaction(messageId: number, userId: number, emoji: string): Promise<void> {
+    const exists = Array.from(this.messageReactions.values()).some(reaction =>
+      reaction.messageId === messageId && reaction.userId === userId && reaction.emoji === emoji
+    );
+    if (exists) return;
+
+    const id = this.currentReactionId++;
+    this.messageReactions.set(id, { id, messageId, userId, emoji, createdAt: new Date() });
+  }
+
+  async removeReaction(messageId: number, userId: number, emoji: string): Promise<void> {
+    Array.from(this.messageReactions.values()).forEach(reaction => {
+      if (reaction.messageId === messageId && reaction.userId === userId && reaction.emoji === emoji) {
+        this.messageReactions.delete(reaction.id);
+      }
+    });
+  }
+
+  async getReactionSummaries(messageIds: number[], viewerId?: number): Promise<Map<number, ReactionSummary[]>> {
+    const ids = new Set(messageIds);
+    const blocked = viewerId !== undefined ? this.blockedIds(viewerId) : new Set<number>();
+    const rows = Array.from(this.messageReactions.values())
+      .filter(reaction => ids.has(reaction.messageId) && !blocked.has(reaction.userId))
+      .sort((a, b) => a.id - b.id);
+    return summarizeReactions(rows);
+  }
+
+  async getMessageQuotes(messageIds: number[]): Promise<Map<number, MessageQuote>> {
+    const quotes = new Map<number, MessageQuote>();
+    for (const id of messageIds) {
+      const message = this.messages.get(id);
+      const sender = message && this.users.get(message.senderId);
+      if (message && sender) {
+        quotes.set(id, {
+          id,
+          senderId: message.senderId,
+          content: message.content,
+          deletedAt: message.deletedAt,
+          senderName: sender.displayName || sender.username
+        });
+      }
+    }
+    return quotes;
+  }
+
+  async getThreadSummaries(rootIds: number[], viewerId?: number): Promise<Map<number, ThreadSummary>> {
+    const summaries = new Map<number, ThreadSummary>();
+    const roots = new Set(rootIds);
+    const blocked = viewerId !== undefined ? this.blockedIds(viewerId) : new Set<number>();
+    const silenced = viewerId !== undefined ? this.silencedIds(viewerId) : new Set<number>();
+
+    Array.from(this.messages.values())
+      .filter(message => message.threadRootId !== null && roots.has(message.threadRootId) && !blocked.has(message.senderId))
+      .sort((a, b) => a.id - b.id)
+      .forEach(reply => {
+        const rootId = reply.threadRootId!;
+        const summary = summaries.get(rootId) ?? { replyCount: 0, lastReplyAt: null, unreadCount: 0 };
+        summary.replyCount++;
+        summary.lastReplyAt = reply.sentAt;
+
+        if (viewerId !== undefined && reply.senderId !== viewerId && !silenced.has(reply.senderId)) {
+          const lastRead = this.threadReads.get(`${rootId}:${viewerId}`) ?? 0;
+          if (reply.id > lastRead) summary.unreadCount++;
+        }
+        summaries.set(rootId, summary);
+      });
+
+    return summaries;
+  }
+
   async getUnreadMessageCount(chatId: number, userId: number): Promise<number> {
-    // For simplicity, return 0. In a real app, you'd track read status
-    return 0;
+    const member = await this.getChatMember(chatId, userId);
+    if (!member) return 0;
+
+    // Thread replies are tracked by their own cursors
+    const lastReadMessageId = member.lastReadMessageId ?? 0;
+    const silenced = this.silencedIds(userId);
+    return Array.from(this.messages.values()).filter(message =>
+      message.chatId === chatId &&
+      message.threadRootId === null &&
+      message.senderId !== userId &&
+      !silenced.has(message.senderId) &&
+      message.id > lastReadMessageId
+    ).length;
+  }
+
+  async markThreadRead(threadRootId: number, userId: number, messageId: number): Promise<void> {
+    const key = `${threadRootId}:${userId}`;
+    this.threadReads.set(key, Math.max(this.threadReads.get(key) ?? 0, messageId));
+  }
+
+  async createAttachment(attachment: InsertAttachment): Promise<Attachment> {
+    const id = this.currentAttachmentId++;
+    const newAttachment: Attachment = {
+      ...attachment,
+      id,
+      messageId: attachment.messageId ?? null,
+      createdAt: new Date()
+    };
+    this.attachments.set(id, newAttachment);
+    return newAttachment;
+  }
+
+  async getAttachment(id: number): Promise<Attachment | undefined> {
+    return this.attachments.get(id);
+  }
+
+  async linkAttachments(ids: number[], messageId: number): Promise<void> {
+    for (const id of ids) {
+      const attachment = this.attachments.get(id);
+      if (attachment && attachment.messageId === null) {
+        attachment.messageId = messageId;
+      }
+    }
+  }
+
+  async getMessageAttachments(messageIds: number[]): Promise<Map<number, Attachment[]>> {
+    const ids = new Set(messageIds);
+    const rows = Array.from(this.attachments.values())
+      .filter(attachment => attachment.messageId !== null && ids.has(attachment.messageId))
+      .sort((a, b) => a.id - b.id);
+    return groupAttachments(rows);
+  }
+
+  async searchMessages(userId: number, query: MessageSearchQuery): Promise<MessageSearchPage> {
+    const { q, chatId, senderId, from, to, before, limit } = query;
+    const terms = Array.from(new Set(tokenize(q)));
+    if (terms.length === 0) return { results: [], nextCursor: null };
+
+    // Every term must prefix-match some token in the message
+    let candidates: Set<number> | undefined;
+    for (const term of terms) {
+      const matches = new Set<number>();
+      this.searchIndex.forEach((ids, token) => {
+        if (token.startsWith(term)) ids.forEach(id => matches.add(id));
+      });
+      candidates = candidates
+        ? new Set(Array.from(candidates).filter(id => matches.has(id)))
+        : matches;
+    }
+
+    const memberChatIds = new Set(Array.from(this.chatMembers.values())
+      .filter(member => member.userId === userId)
+      .map(member => member.chatId));
+    const blocked = this.blockedIds(userId);
+
+    const found = Array.from(candidates ?? [])
+      .map(id => this.messages.get(id)!)
+      .filter(message =>
+        memberChatIds.has(message.chatId) &&
+        !message.deletedAt &&
+        !blocked.has(message.senderId) &&
+        (chatId === undefined || message.chatId === chatId) &&
+        (senderId === undefined || message.senderId === senderId) &&
+        (from === undefined || message.sentAt >= from) &&
+        (to === undefined || message.sentAt <= to) &&
+        (before === undefined || message.id < before)
+      )
+      .sort((a, b) => b.id - a.id);
+
+    const page = found.slice(0, limit);
+    const results: MessageSearchResult[] = page.map(message => {
+      const chat = this.chats.get(message.chatId)!;
+      return {
+        ...message,
+        sender: this.users.get(message.senderId)!,
+        chat: { id: chat.id, name: chat.name, type: chat.type },
+        snippet: highlightSnippet(message.content, terms)
+      };
+    });
+
+    return { results, nextCursor: found.length > limit ? page[page.length - 1].id : null };
+  }
+
+  private directoryRoom(chat: Chat, viewerId: number): DirectoryRoom {
+    const members = Array.from(this.chatMembers.values()).filter(member => member.chatId === chat.id);
+    const lastSentAt = Array.from(this.messages.values())
+      .filter(message => message.chatId === chat.id)
+      .reduce<Date | undefined>((latest, message) => !latest || message.sentAt > latest ? message.sentAt : latest, undefined);
+
+    return {
+      id: chat.id,
+      name: chat.name,
+      type: chat.type,
+      description: chat.description,
+      visibility: chat.visibility,
+      currentTrack: chat.currentTrack,
+      memberCount: members.length,
+      lastActivityAt: lastSentAt ?? chat.createdAt,
+      isMember: members.some(member => member.userId === viewerId),
+    };
+  }
+
+  async getRoomDirectory(viewerId: number, query: RoomDirectoryQuery): Promise<RoomDirectoryPage> {
+    const { type, q, sort, offset, limit } = query;
+    const needle = q?.toLowerCase();
+
+    const found = Array.from(this.chats.values())
+      .filter(chat =>
+        chat.type === type &&
+        chat.visibility === "public" &&
+        (!needle || [chat.name, chat.description].some(text => text?.toLowerCase().includes(needle)))
+      )
+      .map(chat => this.directoryRoom(chat, viewerId))
+      .sort(DIRECTORY_ORDERS[sort]);
+
+    return {
+      rooms: found.slice(offset, offset + limit),
+      nextCursor: found.length > offset + limit ? offset + limit : null,
+    };
+  }
+
+  async getDirectoryRoom(chatId: number, viewerId: number): Promise<DirectoryRoom | undefined> {
+    const chat = this.chats.get(chatId);
+    if (!chat || chat.type === "direct") return undefined;
+    return this.directoryRoom(chat, viewerId);
+  }
+
+  async markChatRead(chatId: number, userId: number, messageId: number): Promise<ChatMember | undefined> {
+    const member = await this.getChatMember(chatId, userId);
+    if (!member) return undefined;
+
+    // Read cursors only move forward
+    if (member.lastReadMessageId === null || member.lastReadMessageId < messageId) {
+      member.lastReadMessageId = messageId;
+      this.chatMembers.set(member.id, member);
+    }
+    return member;
+  }
+
+  private orderedQueue(chatId: number): QueueItem[] {
+    return Array.from(this.queueItems.values())
+      .filter(item => item.chatId === chatId)
+      .sort((a, b) => a.position - b.position || a.id - b.id);
+  }
+
+  private queueScore(queueItemId: number): number {
+    let score = 0;
+    this.queueVotes.forEach((value, key) => {
+      if (key.startsWith(`${queueItemId}:`)) score += value;
+    });
+    return score;
+  }
+
+  private writeQueueOrder(ids: number[]) {
+    ids.forEach((id, position) => {
+      const item = this.queueItems.get(id);
+      if (item) item.position = position;
+    });
+  }
+
+  async getQueue(chatId: number, viewerId: number): Promise<QueueItemWithVotes[]> {
+    return this.orderedQueue(chatId).map(item => ({
+      ...item,
+      addedBy: this.users.get(item.addedById)!,
+      score: this.queueScore(item.id),
+      myVote: this.queueVotes.get(`${item.id}:${viewerId}`) ?? 0
+    }));
+  }
+
+  async getQueueItem(id: number): Promise<QueueItem | undefined> {
+    return this.queueItems.get(id);
+  }
+
+  async addQueueItem(item: InsertQueueItem): Promise<QueueItem> {
+    const id = this.currentQueueItemId++;
+    const queue = this.orderedQueue(item.chatId);
+    const newItem: QueueItem = {
+      ...item,
+      id,
+      position: queue.length > 0 ? queue[queue.length - 1].position + 1 : 0,
+      createdAt: new Date()
+    };
+    this.queueItems.set(id, newItem);
+    return newItem;
+  }
+
+  async removeQueueItem(id: number): Promise<void> {
+    this.queueItems.delete(id);
+    Array.from(this.queueVotes.keys())
+      .filter(key => key.startsWith(`${id}:`))
+      .forEach(key => this.queueVotes.delete(key));
+  }
+
+  async moveQueueItem(id: number, position: number): Promise<void> {
+    const item = this.queueItems.get(id);
+    if (!item) return;
+
+    const ids = this.orderedQueue(item.chatId).map(other => other.id);
+    this.writeQueueOrder(moveId(ids, id, position));
+  }
+
+  async setQueueVote(queueItemId: number, userId: number, value: QueueVoteValue): Promise<void> {
+    const item = this.queueItems.get(queueItemId);
+    if (!item) return;
+
+    const key = `${queueItemId}:${userId}`;
+    if (value === 0) {
+      this.queueVotes.delete(key);
+    } else {
+      this.queueVotes.set(key, value);
+    }
+
+    const scored = this.orderedQueue(item.chatId).map(other => ({ id: other.id, score: this.queueScore(other.id) }));
+    this.writeQueueOrder(rankQueue(scored).map(other => other.id));
+  }
+
+  async takeNextQueueItem(chatId: number): Promise<QueueItem | undefined> {
+    const [next] = this.orderedQueue(chatId);
+    if (next) await this.removeQueueItem(next.id);
+    return next;
+  }
+
+  async startPlay(play: InsertPlay): Promise<Play> {
+    const id = this.currentPlayId++;
+    const newPlay: Play = { ...play, id, endedAt: null, playedMs: null, endReason: null };
+    this.playHistory.set(id, newPlay);
+    return newPlay;
+  }
+
+  async endPlay(chatId: number, ending: PlayEnding): Promise<void> {
+    this.playHistory.forEach(play => {
+      if (play.chatId === chatId && play.endedAt === null) Object.assign(play, ending);
+    });
+  }
+
+  // Newest first, so the most recent play of a track comes first
+  private chatPlays(chatId: number): Play[] {
+    return Array.from(this.playHistory.values())
+      .filter(play => play.chatId === chatId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getPlayHistory(chatId: number, query: PlayHistoryQuery): Promise<PlayHistoryPage> {
+    const { queuedBy, from, to, before, limit } = query;
+    const matches = this.chatPlays(chatId).filter(play =>
+      (queuedBy === undefined || play.queuedById === queuedBy) &&
+      (from === undefined || play.startedAt >= from) &&
+      (to === undefined || play.startedAt <= to) &&
+      (before === undefined || play.id < before)
+    );
+
+    const page = matches.slice(0, limit);
+    return {
+      plays: page.map(play => ({ ...play, queuedBy: this.users.get(play.queuedById)! })),
+      nextCursor: matches.length > limit ? page[page.length - 1].id : null,
+    };
+  }
+
+  async getRoomStats(chatId: number, weeks: number, now = new Date()): Promise<RoomStats> {
+    const plays = this.chatPlays(chatId);
+    const latestTrack = new Map<string, TrackMetadata>();
+    const playedMs = new Map<number, number>();
+    for (const play of plays) {
+      if (!latestTrack.has(play.track.url)) latestTrack.set(play.track.url, play.track);
+      const week = weekStart(play.startedAt);
+      playedMs.set(week, (playedMs.get(week) ?? 0) + (play.playedMs ?? 0));
+    }
+
+    return {
+      topTracks: topCounts(plays.map(play => play.track.url), TOP_STATS_LIMIT)
+        .map(({ key, plays }) => ({ track: latestTrack.get(key)!, plays })),
+      topContributors: topCounts(plays.map(play => play.queuedById), TOP_STATS_LIMIT)
+        .map(({ key, plays }) => ({ user: this.users.get(key)!, plays })),
+      weeklyListening: weeklyListening(weeks, now, playedMs),
+    };
+  }
+
+  async createInvite(invite: InsertChatInvite): Promise<ChatInvite> {
+    const id = this.currentInviteId++;
+    const newInvite: ChatInvite = { ...invite, id, createdAt: new Date(), useCount: 0, revokedAt: null };
+    this.chatInvites.set(id, newInvite);
+    return newInvite;
+  }
+
+  async getInviteByToken(token: string): Promise<ChatInvite | undefined> {
+    return Array.from(this.chatInvites.values()).find(invite => invite.token === token);
+  }
+
+  async getChatInvites(chatId: number): Promise<ChatInviteWithJoins[]> {
+    const joins = Array.from(this.inviteJoins.values());
+    return Array.from(this.chatInvites.values())
+      .filter(invite => invite.chatId === chatId)
+      .sort((a, b) => b.id - a.id)
+      .map(invite => ({
+        ...invite,
+        createdBy: this.users.get(invite.createdById)!,
+        joins: joins
+          .filter(join => join.inviteId === invite.id)
+          .map(join => ({ ...join, user: this.users.get(join.userId)! })),
+      }));
+  }
+
+  async revokeInvite(chatId: number, inviteId: number): Promise<ChatInvite | undefined> {
+    const invite = this.chatInvites.get(inviteId);
+    if (!invite || invite.chatId !== chatId) return undefined;
+
+    invite.revokedAt ??= new Date();
+    return invite;
+  }
+
+  async redeemInvite(inviteId: number, userId: number): Promise<boolean> {
+    const invite = this.chatInvites.get(inviteId);
+    if (!invite || (invite.maxUses !== null && invite.useCount >= invite.maxUses)) return false;
+
+    invite.useCount++;
+    const id = this.currentInviteJoinId++;
+    this.inviteJoins.set(id, { id, inviteId, userId, joinedAt: new Date() });
+    return true;
   }
 }
 
 // Database Storage Implementation
 export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store = new PostgresSessionStore({ pool, createTableIfMissing: true });
+
   async getUser(id: number): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
     return user || undefined;
@@ -195,43 +1197,213 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
+  async createUser(insertUser: InsertUser, passwordHash: string): Promise<User> {
     const [user] = await db
       .insert(users)
       .values(insertUser)
       .returning();
+    await db
+      .insert(userCredentials)
+      .values({ userId: user.id, passwordHash });
+    return user;
+  }
+
+  async getPasswordHash(userId: number): Promise<string | undefined> {
+    const [credentials] = await db
+      .select()
+      .from(userCredentials)
+      .where(eq(userCredentials.userId, userId));
+    return credentials?.passwordHash;
+  }
+
+  async updateUserPresence(userId: number, presence: UserPresence): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ ...presence, lastSeen: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
     return user;
   }
 
-  async updateUserOnlineStatus(userId: number, isOnline: boolean): Promise<void> {
+  async resetPresence(): Promise<void> {
     await db
       .update(users)
-      .set({ isOnline, lastSeen: new Date() })
-      .where(eq(users.id, userId));
+      .set({ isOnline: false, isAway: false })
+      .where(eq(users.isOnline, true));
+  }
+
+  async updateUserStatus(userId: number, status: UserStatus): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set(status)
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  async clearExpiredStatuses(now: Date): Promise<User[]> {
+    return db
+      .update(users)
+      .set({ statusText: null, statusEmoji: null, statusExpiresAt: null })
+      .where(lte(users.statusExpiresAt, now))
+      .returning();
+  }
+
+  async updateUserProfile(userId: number, profile: ProfileUpdate): Promise<User | undefined> {
+    try {
+      const [user] = await db
+        .update(users)
+        .set(profile)
+        .where(eq(users.id, userId))
+        .returning();
+      return user;
+    } catch (error) {
+      // Someone else can take the username between the route's check and this update
+      if ((error as { code?: string }).code === UNIQUE_VIOLATION) {
+        throw new UsernameTakenError("Username already taken");
+      }
+      throw error;
+    }
+  }
+
+  async setUserAvatar(userId: number, avatarKeys: AvatarKeys | null): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ avatarKeys, avatarUpdatedAt: avatarKeys ? new Date() : null })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  async updateUserPrivacy(userId: number, settings: PrivacySettings): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set(settings)
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
   }
 
   async getOnlineUsers(): Promise<User[]> {
     return await db.select().from(users).where(eq(users.isOnline, true));
   }
 
+  async searchUsers(query: string, limit: number): Promise<User[]> {
+    const pattern = containsPattern(query);
+    return await db
+      .select()
+      .from(users)
+      .where(or(ilike(users.username, pattern), ilike(users.displayName, pattern)))
+      .orderBy(asc(users.username))
+      .limit(limit);
+  }
+
+  async getFriendship(userId: number, friendId: number): Promise<Friendship | undefined> {
+    const [friendship] = await db
+      .select()
+      .from(friendships)
+      .where(and(eq(friendships.userId, userId), eq(friendships.friendId, friendId)));
+    return friendship || undefined;
+  }
+
+  async setFriendship(userId: number, friendId: number, status: FriendshipStatus): Promise<Friendship> {
+    const [friendship] = await db
+      .insert(friendships)
+      .values({ userId, friendId, status })
+      .onConflictDoUpdate({
+        target: [friendships.userId, friendships.friendId],
+        set: { status, updatedAt: new Date() }
+      })
+      .returning();
+    return friendship;
+  }
+
+  async deleteFriendship(userId: number, friendId: number): Promise<void> {
+    await db
+      .delete(friendships)
+      .where(and(eq(friendships.userId, userId), eq(friendships.friendId, friendId)));
+  }
+
+  async getContacts(userId: number): Promise<Contacts> {
+    const contacts = (own: boolean, status: FriendshipStatus) => db
+      .select({ user: users, since: friendships.updatedAt })
+      .from(friendships)
+      .innerJoin(users, eq(users.id, own ? friendships.friendId : friendships.userId))
+      .where(and(eq(own ? friendships.userId : friendships.friendId, userId), eq(friendships.status, status)))
+      .orderBy(desc(friendships.updatedAt));
+
+    const [friends, incoming, outgoing, blocked, muted] = await Promise.all([
+      contacts(true, "accepted"),
+      contacts(false, "pending"),
+      contacts(true, "pending"),
+      contacts(true, "blocked"),
+      db
+        .select({ user: users, since: userMutes.createdAt })
+        .from(userMutes)
+        .innerJoin(users, eq(users.id, userMutes.mutedUserId))
+        .where(eq(userMutes.userId, userId))
+        .orderBy(desc(userMutes.createdAt)),
+    ]);
+    return { friends, incoming, outgoing, blocked, muted };
+  }
+
+  async getBlockedUserIds(userId: number): Promise<number[]> {
+    const rows = await this.blockedSenderIds(userId);
+    return rows.map(row => row.id);
+  }
+
+  async getBlockerIds(userId: number): Promise<number[]> {
+    const rows = await db
+      .select({ id: friendships.userId })
+      .from(friendships)
+      .where(and(eq(friendships.friendId, userId), eq(friendships.status, "blocked")));
+    return rows.map(row => row.id);
+  }
+
+  async setMute(userId: number, mutedUserId: number, muted: boolean): Promise<void> {
+    if (muted) {
+      await db.insert(userMutes).values({ userId, mutedUserId }).onConflictDoNothing();
+    } else {
+      await db
+        .delete(userMutes)
+        .where(and(eq(userMutes.userId, userId), eq(userMutes.mutedUserId, mutedUserId)));
+    }
+  }
+
+  // Subqueries of the users whose messages `viewerId` doesn't see, or doesn't
+  // count as unread
+  private blockedSenderIds(viewerId: number) {
+    return db
+      .select({ id: friendships.friendId })
+      .from(friendships)
+      .where(and(eq(friendships.userId, viewerId), eq(friendships.status, "blocked")));
+  }
+
+  private mutedSenderIds(viewerId: number) {
+    return db
+      .select({ id: userMutes.mutedUserId })
+      .from(userMutes)
+      .where(eq(userMutes.userId, viewerId));
+  }
+
   async getChat(id: number): Promise<Chat | undefined> {
     const [chat] = await db.select().from(chats).where(eq(chats.id, id));
     return chat || undefined;
   }
 
-  async getChatWithMembers(id: number): Promise<ChatWithMembers | undefined> {
+  async getChatWithMembers(id: number, viewerId?: number): Promise<ChatWithMembers | undefined> {
     const chat = await this.getChat(id);
     if (!chat) return undefined;
 
     const members = await this.getChatMembers(id);
-    const messagesResult = await this.getChatMessages(id, 1);
+    const { messages: messagesResult } = await this.getChatMessages(id, { limit: 1 }, viewerId);
     const lastMessage = messagesResult[0];
 
     return {
       ...chat,
       members,
       lastMessage,
-      unreadCount: 0
+      unreadCount: viewerId !== undefined ? await this.getUnreadMessageCount(id, viewerId) : 0
     };
   }
 
@@ -242,7 +1414,7 @@ export class DatabaseStorage implements IStorage {
       .where(eq(chatMembers.userId, userId));
     
     const chatsWithMembers = await Promise.all(
-      userChatMembers.map(member => this.getChatWithMembers(member.chatId))
+      userChatMembers.map(member => this.getChatWithMembers(member.chatId, userId))
     );
 
     return chatsWithMembers.filter(chat => chat !== undefined) as ChatWithMembers[];
@@ -261,18 +1433,18 @@ export class DatabaseStorage implements IStorage {
       })
       .returning();
     
-    // Add creator as member
-    await this.addChatMember(newChat.id, chat.createdBy);
+    await this.addChatMember(newChat.id, chat.createdBy, CREATOR_ROLES[chat.type]);
     
     return newChat;
   }
 
-  async addChatMember(chatId: number, userId: number): Promise<void> {
+  async addChatMember(chatId: number, userId: number, role: MemberRole = "member"): Promise<void> {
     await db
       .insert(chatMembers)
       .values({
         chatId,
-        userId
+        userId,
+        role
       });
   }
 
@@ -283,6 +1455,8 @@ export class DatabaseStorage implements IStorage {
         chatId: chatMembers.chatId,
         userId: chatMembers.userId,
         joinedAt: chatMembers.joinedAt,
+        lastReadMessageId: chatMembers.lastReadMessageId,
+        role: chatMembers.role,
         user: users
       })
       .from(chatMembers)
@@ -292,31 +1466,131 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
+  async getChatMember(chatId: number, userId: number): Promise<ChatMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(chatMembers)
+      .where(and(eq(chatMembers.chatId, chatId), eq(chatMembers.userId, userId)));
+    return member || undefined;
+  }
+
+  async removeChatMember(chatId: number, userId: number): Promise<void> {
+    await db
+      .delete(chatMembers)
+      .where(and(eq(chatMembers.chatId, chatId), eq(chatMembers.userId, userId)));
+  }
+
+  async updatePlayback(chatId: number, playback: PlaybackUpdate): Promise<Chat | undefined> {
+    const [updated] = await db
+      .update(chats)
+      .set(playback)
+      .where(eq(chats.id, chatId))
+      .returning();
+    return updated || undefined;
+  }
+
+  async updateMusicRoom(chatId: number, settings: MusicRoomUpdate): Promise<Chat | undefined> {
+    const [updated] = await db
+      .update(chats)
+      .set(settings)
+      .where(eq(chats.id, chatId))
+      .returning();
+    return updated || undefined;
+  }
+
+  async updateGroupSettings(chatId: number, settings: GroupSettings): Promise<Chat | undefined> {
+    const [updated] = await db
+      .update(chats)
+      .set(settings)
+      .where(eq(chats.id, chatId))
+      .returning();
+    return updated || undefined;
+  }
+
+  async setMemberRole(chatId: number, userId: number, role: MemberRole): Promise<ChatMember | undefined> {
+    const [updated] = await db
+      .update(chatMembers)
+      .set({ role })
+      .where(and(eq(chatMembers.chatId, chatId), eq(chatMembers.userId, userId)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async assignMissingLeaders(): Promise<void> {
+    const led = db
+      .select({ chatId: chatMembers.chatId })
+      .from(chatMembers)
+      .where(inArray(chatMembers.role, Object.values(CREATOR_ROLES)));
+    const leaderless = await db
+      .select()
+      .from(chats)
+      .where(and(inArray(chats.type, Object.keys(CREATOR_ROLES)), notInArray(chats.id, led)));
+
+    for (const chat of leaderless) {
+      const members = await db.select().from(chatMembers).where(eq(chatMembers.chatId, chat.id));
+      const leader = missingLeader(chat, members);
+      if (leader) await this.setMemberRole(chat.id, leader.userId, CREATOR_ROLES[chat.type]);
+    }
+  }
+
   async getMessage(id: number): Promise<Message | undefined> {
     const [message] = await db.select().from(messages).where(eq(messages.id, id));
     return message || undefined;
   }
 
-  async getChatMessages(chatId: number, limit = 50): Promise<MessageWithSender[]> {
-    const result = await db
+  async getChatMessages(chatId: number, query: MessagePageQuery = {}, viewerId?: number): Promise<MessagePage> {
+    const { thread, before, after, limit = 50 } = query;
+    const forward = after !== undefined;
+
+    // Fetch one extra row to learn whether another page exists
+    const rows = await db
       .select({
         id: messages.id,
         chatId: messages.chatId,
         senderId: messages.senderId,
         content: messages.content,
         sentAt: messages.sentAt,
+        editedAt: messages.editedAt,
+        deletedAt: messages.deletedAt,
+        parentId: messages.parentId,
+        threadRootId: messages.threadRootId,
+        track: messages.track,
+        systemEvent: messages.systemEvent,
         sender: users
       })
       .from(messages)
       .innerJoin(users, eq(messages.senderId, users.id))
-      .where(eq(messages.chatId, chatId))
-      .orderBy(messages.sentAt)
-      .limit(limit);
+      .where(and(
+        eq(messages.chatId, chatId),
+        thread !== undefined ? eq(messages.threadRootId, thread) : isNull(messages.threadRootId),
+        before !== undefined ? lt(messages.id, before) : undefined,
+        after !== undefined ? gt(messages.id, after) : undefined,
+        viewerId !== undefined ? notInArray(messages.senderId, this.blockedSenderIds(viewerId)) : undefined
+      ))
+      .orderBy(forward ? asc(messages.id) : desc(messages.id))
+      .limit(limit + 1);
 
-    return result;
+    const hasMore = rows.length > limit;
+    const page = rows.slice(0, limit);
+    if (!forward) page.reverse();
+
+    const decorated = await decorateMessages(this, page, viewerId);
+    return { messages: decorated, nextCursor: toNextCursor(page, hasMore, forward) };
   }
 
-  async createMessage(message: InsertMessage & { senderId: number }): Promise<Message> {
+  async getMessageWithSender(id: number, viewerId?: number): Promise<MessageWithSender | undefined> {
+    const [row] = await db
+      .select({ message: messages, sender: users })
+      .from(messages)
+      .innerJoin(users, eq(messages.senderId, users.id))
+      .where(eq(messages.id, id));
+    if (!row) return undefined;
+
+    const [decorated] = await decorateMessages(this, [{ ...row.message, sender: row.sender }], viewerId);
+    return decorated;
+  }
+
+  async createMessage(message: NewMessage): Promise<Message> {
     const [newMessage] = await db
       .insert(messages)
       .values(message)
@@ -324,9 +1598,519 @@ export class DatabaseStorage implements IStorage {
     return newMessage;
   }
 
+  async updateMessageContent(id: number, content: string): Promise<Message | undefined> {
+    const message = await this.getMessage(id);
+    if (!message || message.deletedAt) return undefined;
+
+    const now = new Date();
+    await db
+      .insert(messageEdits)
+      .values({ messageId: id, previousContent: message.content, editedAt: now });
+
+    const [updated] = await db
+      .update(messages)
+      .set({ content, editedAt: now })
+      .where(eq(messages.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteMessage(id: number): Promise<Message | undefined> {
+    const message = await this.getMessage(id);
+    if (!message) return undefined;
+
+    const [deleted] = await db
+      .update(messages)
+      .set({ content: "", track: null, deletedAt: message.deletedAt ?? new Date() })
+      .where(eq(messages.id, id))
+      .returning();
+    return deleted;
+  }
+
+  async getMessageEdits(messageId: number): Promise<MessageEdit[]> {
+    return await db
+      .select()
+      .from(messageEdits)
+      .where(eq(messageEdits.messageId, messageId))
+      .orderBy(asc(messageEdits.id));
+  }
+
+  async addReaction(messageId: number, userId: number, emoji: string): Promise<void> {
+    await db
+      .insert(messageReactions)
+      .values({ messageId, userId, emoji })
+      .onConflictDoNothing();
+  }
+
+  async removeReaction(messageId: number, userId: number, emoji: string): Promise<void> {
+    await db
+      .delete(messageReactions)
+      .where(and(
+        eq(messageReactions.messageId, messageId),
+        eq(messageReactions.userId, userId),
+        eq(messageReactions.emoji, emoji)
+      ));
+  }
+
+  async getReactionSummaries(messageIds: number[], viewerId?: number): Promise<Map<number, ReactionSummary[]>> {
+    if (messageIds.length === 0) return new Map();
+
+    const rows = await db
+      .select({
+        messageId: messageReactions.messageId,
+        userId: messageReactions.userId,
+        emoji: messageReactions.emoji
+      })
+      .from(messageReactions)
+      .where(and(
+        inArray(messageReactions.messageId, messageIds),
+        viewerId !== undefined ? notInArray(messageReactions.userId, this.blockedSenderIds(viewerId)) : undefined
+      ))
+      .orderBy(asc(messageReactions.id));
+    return summarizeReactions(rows);
+  }
+
+  async getMessageQuotes(messageIds: number[]): Promise<Map<number, MessageQuote>> {
+    if (messageIds.length === 0) return new Map();
+
+    const rows = await db
+      .select({
+        id: messages.id,
+        senderId: messages.senderId,
+        content: messages.content,
+        deletedAt: messages.deletedAt,
+        senderName: sql<string>`coalesce(${users.displayName}, ${users.username})`
+      })
+      .from(messages)
+      .innerJoin(users, eq(messages.senderId, users.id))
+      .where(inArray(messages.id, messageIds));
+    return new Map(rows.map(row => [row.id, row]));
+  }
+
+  async getThreadSummaries(rootIds: number[], viewerId?: number): Promise<Map<number, ThreadSummary>> {
+    if (rootIds.length === 0) return new Map();
+
+    // Replies from blocked users are left out entirely, from muted ones they
+    // only don't count as unread
+    const unread = viewerId !== undefined
+      ? sql<number>`count(*) filter (where ${and(
+        ne(messages.senderId, viewerId),
+        sql`${messages.id} > coalesce(${threadReads.lastReadMessageId}, 0)`,
+        notInArray(messages.senderId, this.mutedSenderIds(viewerId)),
+      )})`
+      : sql<number>`0`;
+
+    const rows = await db
+      .select({
+        rootId: messages.threadRootId,
+        replyCount: count(),
+        lastReplyAt: max(messages.sentAt),
+        unreadCount: unread.mapWith(Number)
+      })
+      .from(messages)
+      .leftJoin(threadReads, and(
+        eq(threadReads.threadRootId, messages.threadRootId),
+        eq(threadReads.userId, viewerId ?? -1)
+      ))
+      .where(and(
+        inArray(messages.threadRootId, rootIds),
+        viewerId !== undefined ? notInArray(messages.senderId, this.blockedSenderIds(viewerId)) : undefined
+      ))
+      .groupBy(messages.threadRootId);
+
+    return new Map(rows.map(row => [row.rootId!, {
+      replyCount: row.replyCount,
+      lastReplyAt: row.lastReplyAt,
+      unreadCount: row.unreadCount
+    }]));
+  }
+
   async getUnreadMessageCount(chatId: number, userId: number): Promise<number> {
-    // For simplicity, return 0. In a real app, you'd track read status
-    return 0;
+    const member = await this.getChatMember(chatId, userId);
+    if (!member) return 0;
+
+    const [result] = await db
+      .select({ count: count() })
+      .from(messages)
+      .where(and(
+        eq(messages.chatId, chatId),
+        isNull(messages.threadRootId),
+        ne(messages.senderId, userId),
+        gt(messages.id, member.lastReadMessageId ?? 0),
+        notInArray(messages.senderId, this.blockedSenderIds(userId)),
+        notInArray(messages.senderId, this.mutedSenderIds(userId))
+      ));
+    return result?.count ?? 0;
+  }
+
+  async markChatRead(chatId: number, userId: number, messageId: number): Promise<ChatMember | undefined> {
+    // Read cursors only move forward
+    await db
+      .update(chatMembers)
+      .set({ lastReadMessageId: messageId })
+      .where(and(
+        eq(chatMembers.chatId, chatId),
+        eq(chatMembers.userId, userId),
+        or(isNull(chatMembers.lastReadMessageId), lt(chatMembers.lastReadMessageId, messageId))
+      ));
+    return this.getChatMember(chatId, userId);
+  }
+
+  async markThreadRead(threadRootId: number, userId: number, messageId: number): Promise<void> {
+    await db
+      .insert(threadReads)
+      .values({ threadRootId, userId, lastReadMessageId: messageId })
+      .onConflictDoUpdate({
+        target: [threadReads.threadRootId, threadReads.userId],
+        set: { lastReadMessageId: sql`greatest(${threadReads.lastReadMessageId}, ${messageId})` }
+      });
+  }
+
+  async createAttachment(attachment: InsertAttachment): Promise<Attachment> {
+    const [created] = await db.insert(attachments).values(attachment).returning();
+    return created;
+  }
+
+  async getAttachment(id: number): Promise<Attachment | undefined> {
+    const [attachment] = await db.select().from(attachments).where(eq(attachments.id, id));
+    return attachment || undefined;
+  }
+
+  async linkAttachments(ids: number[], messageId: number): Promise<void> {
+    if (ids.length === 0) return;
+    await db
+      .update(attachments)
+      .set({ messageId })
+      .where(and(inArray(attachments.id, ids), isNull(attachments.messageId)));
+  }
+
+  async getMessageAttachments(messageIds: number[]): Promise<Map<number, Attachment[]>> {
+    if (messageIds.length === 0) return new Map();
+
+    const rows = await db
+      .select()
+      .from(attachments)
+      .where(inArray(attachments.messageId, messageIds))
+      .orderBy(asc(attachments.id));
+    return groupAttachments(rows);
+  }
+
+  async searchMessages(userId: number, query: MessageSearchQuery): Promise<MessageSearchPage> {
+    const { q, chatId, senderId, from, to, before, limit } = query;
+    // Same expression as messages_content_search_idx so the index is used
+    const document = sql`to_tsvector('english', ${messages.content})`;
+    const tsQuery = sql`websearch_to_tsquery('english', ${q})`;
+    const headlineOptions =
+      `StartSel=${SEARCH_HIGHLIGHT_START}, StopSel=${SEARCH_HIGHLIGHT_END}, MaxWords=24, MinWords=8, MaxFragments=1`;
+
+    const rows = await db
+      .select({
+        message: messages,
+        sender: users,
+        chat: { id: chats.id, name: chats.name, type: chats.type },
+        snippet: sql<string>`ts_headline('english', ${messages.content}, ${tsQuery}, ${headlineOptions})`
+      })
+      .from(messages)
+      .innerJoin(users, eq(messages.senderId, users.id))
+      .innerJoin(chats, eq(messages.chatId, chats.id))
+      .innerJoin(chatMembers, and(eq(chatMembers.chatId, messages.chatId), eq(chatMembers.userId, userId)))
+      .where(and(
+        sql`${document} @@ ${tsQuery}`,
+        isNull(messages.deletedAt),
+        notInArray(messages.senderId, this.blockedSenderIds(userId)),
+        chatId !== undefined ? eq(messages.chatId, chatId) : undefined,
+        senderId !== undefined ? eq(messages.senderId, senderId) : undefined,
+        from !== undefined ? gte(messages.sentAt, from) : undefined,
+        to !== undefined ? lte(messages.sentAt, to) : undefined,
+        before !== undefined ? lt(messages.id, before) : undefined
+      ))
+      .orderBy(desc(messages.id))
+      .limit(limit + 1);
+
+    const page = rows.slice(0, limit);
+    const results = page.map(row => ({ ...row.message, sender: row.sender, chat: row.chat, snippet: row.snippet }));
+    return { results, nextCursor: rows.length > limit ? page[page.length - 1].message.id : null };
+  }
+
+  private selectDirectoryRooms(viewerId: number) {
+    const lastActivityAt = sql<Date>`coalesce(
+      (select max(${messages.sentAt}) from ${messages} where ${messages.chatId} = ${chats.id}),
+      ${chats.createdAt}
+    )`.mapWith(chats.createdAt);
+    const memberCount = sql<number>`(select count(*) from ${chatMembers} where ${chatMembers.chatId} = ${chats.id})`.mapWith(Number);
+    const isMember = sql<boolean>`exists (
+      select 1 from ${chatMembers} where ${chatMembers.chatId} = ${chats.id} and ${chatMembers.userId} = ${viewerId}
+    )`.mapWith(Boolean);
+
+    const query = db
+      .select({
+        id: chats.id,
+        name: chats.name,
+        type: chats.type,
+        description: chats.description,
+        visibility: chats.visibility,
+        currentTrack: chats.currentTrack,
+        memberCount,
+        lastActivityAt,
+        isMember,
+      })
+      .from(chats)
+      .$dynamic();
+    return { query, memberCount, lastActivityAt };
+  }
+
+  async getRoomDirectory(viewerId: number, query: RoomDirectoryQuery): Promise<RoomDirectoryPage> {
+    const { type, q, sort, offset, limit } = query;
+    const pattern = q ? containsPattern(q) : undefined;
+    const { query: select, memberCount, lastActivityAt } = this.selectDirectoryRooms(viewerId);
+    const order = { active: desc(lastActivityAt), members: desc(memberCount), newest: desc(chats.id) }[sort];
+
+    const rows = await select
+      .where(and(
+        eq(chats.type, type),
+        eq(chats.visibility, "public"),
+        pattern ? or(ilike(chats.name, pattern), ilike(chats.description, pattern)) : undefined
+      ))
+      .orderBy(order, desc(chats.id))
+      .limit(limit + 1)
+      .offset(offset);
+
+    return {
+      rooms: rows.slice(0, limit),
+      nextCursor: rows.length > limit ? offset + limit : null,
+    };
+  }
+
+  async getDirectoryRoom(chatId: number, viewerId: number): Promise<DirectoryRoom | undefined> {
+    const { query } = this.selectDirectoryRooms(viewerId);
+    const [room] = await query.where(and(eq(chats.id, chatId), ne(chats.type, "direct")));
+    return room || undefined;
+  }
+
+  async getQueue(chatId: number, viewerId: number): Promise<QueueItemWithVotes[]> {
+    const rows = await db
+      .select({
+        item: queueItems,
+        addedBy: users,
+        score: sql<number>`coalesce(sum(${queueVotes.value}), 0)::int`,
+        myVote: sql<QueueVoteValue>`coalesce(max(case when ${queueVotes.userId} = ${viewerId} then ${queueVotes.value} end), 0)::int`
+      })
+      .from(queueItems)
+      .innerJoin(users, eq(queueItems.addedById, users.id))
+      .leftJoin(queueVotes, eq(queueVotes.queueItemId, queueItems.id))
+      .where(eq(queueItems.chatId, chatId))
+      .groupBy(queueItems.id, users.id)
+      .orderBy(asc(queueItems.position), asc(queueItems.id));
+
+    return rows.map(row => ({ ...row.item, addedBy: row.addedBy, score: row.score, myVote: row.myVote }));
+  }
+
+  async getQueueItem(id: number): Promise<QueueItem | undefined> {
+    const [item] = await db.select().from(queueItems).where(eq(queueItems.id, id));
+    return item || undefined;
+  }
+
+  async addQueueItem(item: InsertQueueItem): Promise<QueueItem> {
+    const [created] = await db
+      .insert(queueItems)
+      .values({
+        ...item,
+        position: sql`(select coalesce(max(${queueItems.position}) + 1, 0) from ${queueItems} where ${queueItems.chatId} = ${item.chatId})`
+      })
+      .returning();
+    return created;
+  }
+
+  async removeQueueItem(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(queueVotes).where(eq(queueVotes.queueItemId, id));
+      await tx.delete(queueItems).where(eq(queueItems.id, id));
+    });
+  }
+
+  private async writeQueueOrder(ids: number[]) {
+    await db.transaction(async (tx) => {
+      for (let position = 0; position < ids.length; position++) {
+        await tx.update(queueItems).set({ position }).where(eq(queueItems.id, ids[position]));
+      }
+    });
+  }
+
+  async moveQueueItem(id: number, position: number): Promise<void> {
+    const item = await this.getQueueItem(id);
+    if (!item) return;
+
+    const rows = await db
+      .select({ id: queueItems.id })
+      .from(queueItems)
+      .where(eq(queueItems.chatId, item.chatId))
+      .orderBy(asc(queueItems.position), asc(queueItems.id));
+    await this.writeQueueOrder(moveId(rows.map(row => row.id), id, position));
+  }
+
+  async setQueueVote(queueItemId: number, userId: number, value: QueueVoteValue): Promise<void> {
+    const item = await this.getQueueItem(queueItemId);
+    if (!item) return;
+
+    if (value === 0) {
+      await db
+        .delete(queueVotes)
+        .where(and(eq(queueVotes.queueItemId, queueItemId), eq(queueVotes.userId, userId)));
+    } else {
+      await db
+        .insert(queueVotes)
+        .values({ queueItemId, userId, value })
+        .onConflictDoUpdate({ target: [queueVotes.queueItemId, queueVotes.userId], set: { value } });
+    }
+
+    const queue = await this.getQueue(item.chatId, userId);
+    await this.writeQueueOrder(rankQueue(queue).map(other => other.id));
+  }
+
+  async takeNextQueueItem(chatId: number): Promise<QueueItem | undefined> {
+    const [next] = await db
+      .select()
+      .from(queueItems)
+      .where(eq(queueItems.chatId, chatId))
+      .orderBy(asc(queueItems.position), asc(queueItems.id))
+      .limit(1);
+    if (next) await this.removeQueueItem(next.id);
+    return next || undefined;
+  }
+
+  async startPlay(play: InsertPlay): Promise<Play> {
+    const [created] = await db.insert(playHistory).values(play).returning();
+    return created;
+  }
+
+  async endPlay(chatId: number, ending: PlayEnding): Promise<void> {
+    await db
+      .update(playHistory)
+      .set(ending)
+      .where(and(eq(playHistory.chatId, chatId), isNull(playHistory.endedAt)));
+  }
+
+  async getPlayHistory(chatId: number, query: PlayHistoryQuery): Promise<PlayHistoryPage> {
+    const { queuedBy, from, to, before, limit } = query;
+    const conditions = [eq(playHistory.chatId, chatId)];
+    if (queuedBy !== undefined) conditions.push(eq(playHistory.queuedById, queuedBy));
+    if (from) conditions.push(gte(playHistory.startedAt, from));
+    if (to) conditions.push(lte(playHistory.startedAt, to));
+    if (before !== undefined) conditions.push(lt(playHistory.id, before));
+
+    const rows = await db
+      .select({ play: playHistory, queuedBy: users })
+      .from(playHistory)
+      .innerJoin(users, eq(playHistory.queuedById, users.id))
+      .where(and(...conditions))
+      .orderBy(desc(playHistory.id))
+      .limit(limit + 1);
+
+    const page = rows.slice(0, limit);
+    return {
+      plays: page.map((row): PlayWithUser => ({ ...row.play, queuedBy: row.queuedBy })),
+      nextCursor: rows.length > limit ? page[page.length - 1].play.id : null,
+    };
+  }
+
+  async getRoomStats(chatId: number, weeks: number, now = new Date()): Promise<RoomStats> {
+    const plays = count();
+    const since = new Date(weekStart(now) - (weeks - 1) * 7 * DAY_MS);
+    const week = sql<number>`extract(epoch from date_trunc('week', ${playHistory.startedAt})) * 1000`.mapWith(Number);
+
+    const [topTracks, topContributors, weekly] = await Promise.all([
+      db
+        .select({
+          // The track's most recently resolved metadata
+          track: sql<TrackMetadata>`(array_agg(${playHistory.track} order by ${playHistory.startedAt} desc))[1]`,
+          plays
+        })
+        .from(playHistory)
+        .where(eq(playHistory.chatId, chatId))
+        .groupBy(sql`${playHistory.track}->>'url'`)
+        .orderBy(desc(plays))
+        .limit(TOP_STATS_LIMIT),
+      db
+        .select({ user: users, plays })
+        .from(playHistory)
+        .innerJoin(users, eq(playHistory.queuedById, users.id))
+        .where(eq(playHistory.chatId, chatId))
+        .groupBy(users.id)
+        .orderBy(desc(plays))
+        .limit(TOP_STATS_LIMIT),
+      db
+        .select({ week, playedMs: sql<number>`coalesce(sum(${playHistory.playedMs}), 0)`.mapWith(Number) })
+        .from(playHistory)
+        .where(and(eq(playHistory.chatId, chatId), gte(playHistory.startedAt, since)))
+        .groupBy(sql`1`),
+    ]);
+
+    return {
+      topTracks,
+      topContributors,
+      weeklyListening: weeklyListening(weeks, now, new Map(weekly.map(row => [row.week, row.playedMs]))),
+    };
+  }
+
+  async createInvite(invite: InsertChatInvite): Promise<ChatInvite> {
+    const [created] = await db.insert(chatInvites).values(invite).returning();
+    return created;
+  }
+
+  async getInviteByToken(token: string): Promise<ChatInvite | undefined> {
+    const [invite] = await db.select().from(chatInvites).where(eq(chatInvites.token, token));
+    return invite || undefined;
+  }
+
+  async getChatInvites(chatId: number): Promise<ChatInviteWithJoins[]> {
+    const invites = await db
+      .select({ invite: chatInvites, createdBy: users })
+      .from(chatInvites)
+      .innerJoin(users, eq(chatInvites.createdById, users.id))
+      .where(eq(chatInvites.chatId, chatId))
+      .orderBy(desc(chatInvites.id));
+    if (invites.length === 0) return [];
+
+    const joins = await db
+      .select({ join: inviteJoins, user: users })
+      .from(inviteJoins)
+      .innerJoin(users, eq(inviteJoins.userId, users.id))
+      .where(inArray(inviteJoins.inviteId, invites.map(row => row.invite.id)))
+      .orderBy(asc(inviteJoins.id));
+
+    return invites.map(row => ({
+      ...row.invite,
+      createdBy: row.createdBy,
+      joins: joins
+        .filter(join => join.join.inviteId === row.invite.id)
+        .map(join => ({ ...join.join, user: join.user })),
+    }));
+  }
+
+  async revokeInvite(chatId: number, inviteId: number): Promise<ChatInvite | undefined> {
+    const [invite] = await db
+      .update(chatInvites)
+      .set({ revokedAt: sql`coalesce(${chatInvites.revokedAt}, now())` })
+      .where(and(eq(chatInvites.id, inviteId), eq(chatInvites.chatId, chatId)))
+      .returning();
+    return invite || undefined;
+  }
+
+  async redeemInvite(inviteId: number, userId: number): Promise<boolean> {
+    // Counting the use and checking the limit in one statement keeps
+    // concurrent joins from overshooting it
+    const [counted] = await db
+      .update(chatInvites)
+      .set({ useCount: sql`${chatInvites.useCount} + 1` })
+      .where(and(
+        eq(chatInvites.id, inviteId),
+        or(isNull(chatInvites.maxUses), lt(chatInvites.useCount, chatInvites.maxUses))
+      ))
+      .returning();
+    if (!counted) return false;
+
+    await db.insert(inviteJoins).values({ inviteId, userId });
+    return true;
   }
 }
 
@@ -0,0 +1,207 @@
+import type { Readable } from "stream";
+import type { TrackMetadata } from "@shared/schema";
+import { storage } from "./storage";
+import { blobStore } from "./blob-store";
+import { readAudioTags } from "./audio-tags";
+
+export type ResolveContext = {
+  chatId: number; // Room the song is being shared in
+  host?: string; // This server's host, to recognize links to its own uploads
+};
+
+export type ResolvedTrack = Omit<TrackMetadata, "url">;
+
+// Turns links of one kind into track metadata. Returns undefined for URLs the
+// provider does not handle so the next provider can try.
+export interface TrackProvider {
+  resolve(url: URL, context: ResolveContext): Promise<ResolvedTrack | undefined>;
+}
+
+const AUDIO_FILE_PATTERN = /\.(mp3|ogg|oga|opus|wav|m4a|aac|flac)$/i;
+const ATTACHMENT_PATH = /^\/api\/attachments\/(\d+)$/;
+
+function decode(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch (error) {
+    return text;
+  }
+}
+
+function lastPathSegment(url: URL): string | undefined {
+  const segment = url.pathname.split("/").filter(Boolean).pop();
+  return segment ? decode(segment) : undefined;
+}
+
+// "daft-punk" -> "Daft Punk"
+function humanize(slug: string): string {
+  return decode(slug)
+    .replace(/[-_]+/g, " ")
+    .trim()
+    .replace(/(^|\s)(\S)/g, (_match, space, letter) => space + letter.toUpperCase());
+}
+
+function fileTitle(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, "").replace(/_+/g, " ").trim() || fileName;
+}
+
+async function readBlob(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+const YOUTUBE_ID = /^[\w-]{11}$/;
+
+export const youtubeProvider: TrackProvider = {
+  async resolve(url) {
+    const host = url.hostname.replace(/^(www|m|music)\./, "");
+    let id: string | null = null;
+    if (host === "youtu.be") {
+      id = url.pathname.slice(1);
+    } else if (host === "youtube.com" || host === "youtube-nocookie.com") {
+      const [, route, value] = url.pathname.split("/");
+      id = route === "watch" ? url.searchParams.get("v") : ["shorts", "embed", "live"].includes(route) ? value : null;
+    } else {
+      return undefined;
+    }
+
+    if (!id || !YOUTUBE_ID.test(id)) return undefined;
+    return {
+      provider: "youtube",
+      trackId: id,
+      title: "YouTube video",
+      artist: null,
+      durationMs: null,
+      artworkUrl: `https://i.ytimg.com/vi/${id}/hqdefault.jpg`,
+    };
+  },
+};
+
+export const spotifyProvider: TrackProvider = {
+  async resolve(url) {
+    // open.spotify.com/track/<id>, optionally under a locale (/intl-de/track/<id>), or spotify:track:<id>
+    const match = url.protocol === "spotify:"
+      ? url.pathname.match(/^(track|episode):(\w+)$/)
+      : url.hostname === "open.spotify.com"
+        ? url.pathname.match(/^(?:\/intl-[\w-]+)?\/(track|episode)\/(\w+)/)
+        : null;
+    if (!match) return undefined;
+
+    return {
+      provider: "spotify",
+      trackId: match[2],
+      title: match[1] === "episode" ? "Spotify episode" : "Spotify track",
+      artist: null,
+      durationMs: null,
+      artworkUrl: null,
+    };
+  },
+};
+
+export const soundcloudProvider: TrackProvider = {
+  async resolve(url) {
+    if (url.hostname.replace(/^(www|m)\./, "") !== "soundcloud.com") return undefined;
+
+    // soundcloud.com/<artist>/<track>; sets, likes etc. are not single tracks
+    const [artist, track, ...rest] = url.pathname.split("/").filter(Boolean);
+    if (!artist || !track || rest.length > 0 || ["sets", "likes", "tracks", "reposts"].includes(track)) {
+      return undefined;
+    }
+
+    return {
+      provider: "soundcloud",
+      trackId: `${artist}/${track}`,
+      title: humanize(track),
+      artist: humanize(artist),
+      durationMs: null,
+      artworkUrl: null,
+    };
+  },
+};
+
+// Audio files uploaded to the same room, read for their embedded tags. Files
+// from other rooms, unsent uploads and deleted messages are left alone.
+export const uploadedAudioProvider: TrackProvider = {
+  async resolve(url, context) {
+    const match = url.pathname.match(ATTACHMENT_PATH);
+    if (!match || !context.host || url.host !== context.host) return undefined;
+
+    const attachment = await storage.getAttachment(Number(match[1]));
+    if (!attachment || attachment.chatId !== context.chatId || attachment.messageId === null) return undefined;
+    if (!attachment.mimeType.startsWith("audio/")) return undefined;
+
+    const message = await storage.getMessage(attachment.messageId);
+    if (!message || message.deletedAt) return undefined;
+
+    const tags = readAudioTags(await readBlob(blobStore.read(attachment.storageKey)));
+    return {
+      provider: "audio",
+      trackId: String(attachment.id),
+      title: tags.title ?? fileTitle(attachment.fileName),
+      artist: tags.artist,
+      durationMs: tags.durationMs,
+      artworkUrl: null,
+    };
+  },
+};
+
+// Links straight to an audio file elsewhere; only the file name is known
+export const audioFileProvider: TrackProvider = {
+  async resolve(url) {
+    const fileName = lastPathSegment(url);
+    if (!fileName || !AUDIO_FILE_PATTERN.test(fileName)) return undefined;
+
+    return {
+      provider: "audio",
+      trackId: null,
+      title: fileTitle(fileName),
+      artist: null,
+      durationMs: null,
+      artworkUrl: null,
+    };
+  },
+};
+
+// Tries each provider in turn; links no provider recognizes are kept as plain
+// links titled after their last path segment or host.
+export class TrackResolver {
+  constructor(private providers: TrackProvider[]) {}
+
+  // Providers added later take precedence over the built-in ones
+  register(provider: TrackProvider) {
+    this.providers.unshift(provider);
+  }
+
+  async resolve(songUrl: string, context: ResolveContext): Promise<TrackMetadata> {
+    const url = new URL(songUrl);
+    for (const provider of this.providers) {
+      try {
+        const track = await provider.resolve(url, context);
+        if (track) return { url: songUrl, ...track };
+      } catch (error) {
+        // A failing provider (e.g. an unreadable file) falls back to the next one
+      }
+    }
+
+    return {
+      url: songUrl,
+      provider: "link",
+      trackId: null,
+      title: lastPathSegment(url) ?? url.hostname,
+      artist: null,
+      durationMs: null,
+      artworkUrl: null,
+    };
+  }
+}
+
+export const trackResolver = new TrackResolver([
+  youtubeProvider,
+  spotifyProvider,
+  soundcloudProvider,
+  uploadedAudioProvider,
+  audioFileProvider,
+]);
@@ -0,0 +1,44 @@
+import type { ChatMember } from "./schema";
+
+// Who may do what in a group. Shared so the settings sheet offers exactly
+// what the server's chat policy allows.
+
+type GroupMember = Pick<ChatMember, "id" | "userId" | "role">;
+
+const RANKS: Record<string, number> = { owner: 2, admin: 1 };
+const rank = (member: GroupMember) => RANKS[member.role] ?? 0;
+
+export const isOwner = (member: GroupMember | undefined) => member?.role === "owner";
+
+// The owner always counts as an admin
+export const isAdmin = (member: GroupMember | undefined) => member?.role === "owner" || member?.role === "admin";
+
+export const groupRules = {
+  // Rename the group and edit its description
+  manageGroup: (member: GroupMember | undefined) => isAdmin(member),
+  addMember: (member: GroupMember | undefined) => isAdmin(member),
+  // Which members may be removed is decided by canRemoveMember
+  removeMember: (member: GroupMember | undefined) => isAdmin(member),
+  // Promote members to admin and demote them again
+  changeRole: (member: GroupMember | undefined) => isOwner(member),
+  transferOwnership: (member: GroupMember | undefined) => isOwner(member),
+  // Create and revoke invite links
+  manageInvites: (member: GroupMember | undefined) => isAdmin(member),
+};
+
+// Admins may remove plain members; the owner may remove anyone but themselves
+export function canRemoveMember(actor: GroupMember | undefined, target: GroupMember): boolean {
+  return !!actor && actor.userId !== target.userId && isAdmin(actor) && rank(actor) > rank(target);
+}
+
+// Who takes over when the owner leaves: the longest-standing admin, or else
+// the longest-standing member
+export function nextOwner<T extends GroupMember>(members: T[], leavingUserId: number): T | undefined {
+  const remaining = members.filter(member => member.userId !== leavingUserId).sort((a, b) => a.id - b.id);
+  return remaining.find(isAdmin) ?? remaining[0];
+}
+
+// Owner first, then admins, then members, each in the order they joined
+export function groupOrder<T extends GroupMember>(members: T[]): T[] {
+  return [...members].sort((a, b) => rank(b) - rank(a) || a.id - b.id);
+}
@@ -0,0 +1,41 @@
+import type { Chat, ChatMember } from "./schema";
+
+// Who may do what in a music room. Shared so the UI offers exactly what the
+// server's chat policy allows.
+
+type RoomMember = Pick<ChatMember, "id" | "userId" | "role">;
+type RoomSettings = Pick<Chat, "queueLocked" | "djRotation" | "onDeckUserId">;
+
+export const isHost = (member: RoomMember | undefined) => member?.role === "host";
+
+// The host always counts as a DJ
+export const isDj = (member: RoomMember | undefined) => member?.role === "host" || member?.role === "dj";
+
+export const musicRoomRules = {
+  // Play, pause, seek and load songs directly
+  controlPlayback: (member: RoomMember | undefined) => isDj(member),
+  // Add songs to the queue. In DJ rotation only the DJ on deck (or the host)
+  // may; otherwise anyone, unless the host has locked the queue.
+  queueSong: (member: RoomMember | undefined, room: RoomSettings) => {
+    if (!member) return false;
+    if (room.djRotation) return isHost(member) || (isDj(member) && room.onDeckUserId === member.userId);
+    return !room.queueLocked || isDj(member);
+  },
+  voteQueue: (member: RoomMember | undefined, room: RoomSettings) => !!member && (!room.queueLocked || isDj(member)),
+  // Skip, remove and reorder songs, change settings and roles
+  hostRoom: (member: RoomMember | undefined) => isHost(member),
+};
+
+// DJs in turn order: the order they joined the room
+export function rotationOrder<T extends RoomMember>(members: T[]): T[] {
+  return members.filter(isDj).sort((a, b) => a.id - b.id);
+}
+
+// The DJ after `currentUserId` in the rotation, wrapping around
+export function nextOnDeck(members: RoomMember[], currentUserId: number | null): number | null {
+  const djs = rotationOrder(members);
+  if (djs.length === 0) return null;
+
+  const index = djs.findIndex(dj => dj.userId === currentUserId);
+  return djs[(index + 1) % djs.length].userId;
+}
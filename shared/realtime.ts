@@ -0,0 +1,35 @@
+import type { ChatWithMembers, MessageWithSender, PlaybackState, ReactionSummary, User } from "./schema";
+
+export const REALTIME_PATH = "/ws";
+
+// Clients re-announce typing at most this often while the user keeps typing,
+// and drop a typing signal that has not been renewed within the expiry
+export const TYPING_THROTTLE_MS = 3000;
+export const TYPING_EXPIRY_MS = 6000;
+
+// Each open tab sends a presence heartbeat this often. A tab that has neither
+// an open socket nor a heartbeat within the timeout is treated as closed.
+export const PRESENCE_HEARTBEAT_MS = 20000;
+export const PRESENCE_TIMEOUT_MS = 50000;
+// Without input for this long (or while hidden) a tab counts as idle
+export const PRESENCE_IDLE_MS = 5 * 60 * 1000;
+
+// Events pushed from the server to subscribed clients
+export type ServerEvent =
+  | { type: "message.created"; chatId: number; message: MessageWithSender }
+  | { type: "message.updated"; chatId: number; message: MessageWithSender }
+  | { type: "reaction.updated"; chatId: number; messageId: number; reactions: ReactionSummary[] }
+  | { type: "chat.updated"; chatId: number; chat: ChatWithMembers }
+  | { type: "presence.changed"; user: User }
+  // Profile edits: name, bio or avatar
+  | { type: "user.updated"; user: User }
+  // The user's friends or friend requests changed; clients refetch their contacts
+  | { type: "friends.updated" }
+  | { type: "member.added"; chatId: number; userId: number }
+  // Sent only to the member who was removed or left
+  | { type: "member.removed"; chatId: number; userId: number }
+  | { type: "chat.read"; chatId: number; userId: number; lastReadMessageId: number }
+  | { type: "typing.updated"; chatId: number; userId: number; isTyping: boolean }
+  | { type: "playback.updated"; chatId: number; playback: PlaybackState }
+  // Votes are shown per viewer, so clients refetch the queue rather than receive it
+  | { type: "queue.updated"; chatId: number };
@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, unique, index, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -6,18 +7,45 @@ export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   isOnline: boolean("is_online").default(false).notNull(),
+  // Online but idle on every open tab or device
+  isAway: boolean("is_away").default(false).notNull(),
   lastSeen: timestamp("last_seen").defaultNow().notNull(),
+  availability: text("availability").default("auto").notNull(), // 'auto', 'busy' or 'invisible'
+  statusText: text("status_text"),
+  statusEmoji: text("status_emoji"),
+  statusExpiresAt: timestamp("status_expires_at"), // The custom status is cleared after this (see PresenceTracker)
+  displayName: text("display_name"), // Shown instead of the username when set
+  bio: text("bio"),
+  pronouns: text("pronouns"),
+  avatarKeys: jsonb("avatar_keys").$type<AvatarKeys>(), // Blob keys of the resized avatar, per size
+  avatarUpdatedAt: timestamp("avatar_updated_at"),
+  directMessagesFrom: text("direct_messages_from").default("everyone").notNull(), // Who may start a direct chat: 'everyone' or 'friends'
+});
+
+// Kept out of `users` so password hashes never ride along with user objects
+export const userCredentials = pgTable("user_credentials", {
+  userId: integer("user_id").references(() => users.id).primaryKey(),
+  passwordHash: text("password_hash").notNull(),
 });
 
 export const chats = pgTable("chats", {
   id: serial("id").primaryKey(),
   name: text("name"),
   type: text("type").notNull(), // 'direct', 'group', or 'music'
+  description: text("description"), // Groups: shown in the group settings and the room directory
+  visibility: text("visibility").default("private").notNull(), // Groups and music rooms: 'private', 'unlisted' or 'public'
+  linkToken: text("link_token").default(sql`gen_random_uuid()::text`).notNull().unique(), // Secret key of an unlisted room's link
   createdBy: integer("created_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   currentSong: text("current_song"), // For music rooms
   songUrl: text("song_url"), // For music rooms
   isPlaying: boolean("is_playing").default(false), // For music rooms
+  playbackPositionMs: integer("playback_position_ms").default(0).notNull(), // Track position at playbackStartedAt
+  playbackStartedAt: timestamp("playback_started_at"), // Server time the position was last set; playback runs on from here
+  currentTrack: jsonb("current_track").$type<TrackMetadata>(), // Resolved metadata of songUrl
+  queueLocked: boolean("queue_locked").default(false).notNull(), // Music rooms: only the host and DJs may queue and vote
+  djRotation: boolean("dj_rotation").default(false).notNull(), // Music rooms: DJs take turns adding songs
+  onDeckUserId: integer("on_deck_user_id").references(() => users.id), // Whose turn it is while djRotation is on
 });
 
 export const chatMembers = pgTable("chat_members", {
@@ -25,6 +53,8 @@ export const chatMembers = pgTable("chat_members", {
   chatId: integer("chat_id").references(() => chats.id).notNull(),
   userId: integer("user_id").references(() => users.id).notNull(),
   joinedAt: timestamp("joined_at").defaultNow().notNull(),
+  lastReadMessageId: integer("last_read_message_id"), // Read cursor; null until the member reads anything
+  role: text("role").default("member").notNull(), // 'member'; groups also have an 'owner' and 'admin's, music rooms a 'host' and 'dj's
 });
 
 export const messages = pgTable("messages", {
@@ -33,12 +63,156 @@ export const messages = pgTable("messages", {
   senderId: integer("sender_id").references(() => users.id).notNull(),
   content: text("content").notNull(),
   sentAt: timestamp("sent_at").defaultNow().notNull(),
+  editedAt: timestamp("edited_at"),
+  deletedAt: timestamp("deleted_at"), // Soft delete; content is cleared and a tombstone is shown
+  parentId: integer("parent_id").references((): AnyPgColumn => messages.id), // Message quoted by this reply
+  threadRootId: integer("thread_root_id").references((): AnyPgColumn => messages.id), // Set for replies inside a thread
+  track: jsonb("track").$type<TrackMetadata>(), // Set when the message shares a song
+  systemEvent: jsonb("system_event").$type<SystemEvent>(), // Set on timeline notices like "Bob added Carol"; the sender is whoever made the change
+}, (table) => [
+  // Backs full-text search; must match the expression used by searchMessages
+  index("messages_content_search_idx").using("gin", sql`to_tsvector('english', ${table.content})`),
+]);
+
+// Per-user read cursor for each thread they have opened
+export const threadReads = pgTable("thread_reads", {
+  id: serial("id").primaryKey(),
+  threadRootId: integer("thread_root_id").references(() => messages.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  lastReadMessageId: integer("last_read_message_id").notNull(),
+}, (table) => [
+  unique().on(table.threadRootId, table.userId),
+]);
+
+// Previous versions of a message, one row per edit
+export const messageEdits = pgTable("message_edits", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id").references(() => messages.id).notNull(),
+  previousContent: text("previous_content").notNull(),
+  editedAt: timestamp("edited_at").defaultNow().notNull(),
+});
+
+// One row per user per emoji on a message
+export const messageReactions = pgTable("message_reactions", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id").references(() => messages.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  emoji: text("emoji").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.messageId, table.userId, table.emoji),
+]);
+
+// Uploaded files. A row is created on upload and linked to its message when
+// the message is sent; the bytes live in the blob store under `storageKey`.
+export const attachments = pgTable("attachments", {
+  id: serial("id").primaryKey(),
+  chatId: integer("chat_id").references(() => chats.id).notNull(),
+  uploaderId: integer("uploader_id").references(() => users.id).notNull(),
+  messageId: integer("message_id").references(() => messages.id), // Null until sent
+  fileName: text("file_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(), // Bytes
+  checksum: text("checksum").notNull(), // SHA-256, hex
+  storageKey: text("storage_key").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Upcoming tracks of a music room, played in `position` order
+export const queueItems = pgTable("queue_items", {
+  id: serial("id").primaryKey(),
+  chatId: integer("chat_id").references(() => chats.id).notNull(),
+  addedById: integer("added_by_id").references(() => users.id).notNull(),
+  songUrl: text("song_url").notNull(),
+  track: jsonb("track").$type<TrackMetadata>().notNull(),
+  position: integer("position").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One up (+1) or down (-1) vote per user per queued track
+export const queueVotes = pgTable("queue_votes", {
+  id: serial("id").primaryKey(),
+  queueItemId: integer("queue_item_id").references(() => queueItems.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  value: integer("value").notNull(),
+}, (table) => [
+  unique().on(table.queueItemId, table.userId),
+]);
+
+// Tracks a music room has played, one row per play. The row stays open
+// (endedAt null) while the track is the room's current one.
+export const playHistory = pgTable("play_history", {
+  id: serial("id").primaryKey(),
+  chatId: integer("chat_id").references(() => chats.id).notNull(),
+  queuedById: integer("queued_by_id").references(() => users.id).notNull(), // Who queued or loaded the track
+  track: jsonb("track").$type<TrackMetadata>().notNull(),
+  startedAt: timestamp("started_at").notNull(),
+  endedAt: timestamp("ended_at"),
+  playedMs: integer("played_ms"), // How far into the track the room got
+  endReason: text("end_reason"), // 'completed' or 'skipped'
+}, (table) => [
+  index("play_history_chat_idx").on(table.chatId, table.startedAt),
+]);
+
+// Shareable links that let anyone signed in join a group or music room
+export const chatInvites = pgTable("chat_invites", {
+  id: serial("id").primaryKey(),
+  chatId: integer("chat_id").references(() => chats.id).notNull(),
+  token: text("token").notNull().unique(), // Random, URL-safe; the link is /join/<token>
+  createdById: integer("created_by_id").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at"), // Null never expires
+  maxUses: integer("max_uses"), // Null allows any number of joins
+  useCount: integer("use_count").default(0).notNull(),
+  revokedAt: timestamp("revoked_at"),
+});
+
+// How one user stands towards another, one row per direction. A friend
+// request is the requester's 'pending' row; accepting it makes that row
+// 'accepted' and adds the same for the addressee, and declining marks it
+// 'declined'. 'blocked' rows belong to the user who blocked the other.
+export const friendships = pgTable("friendships", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  friendId: integer("friend_id").references(() => users.id).notNull(),
+  status: text("status").notNull(), // 'pending', 'accepted', 'declined' or 'blocked'
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.userId, table.friendId),
+  index("friendships_friend_idx").on(table.friendId, table.status),
+]);
+
+// Users whose messages no longer count as unread for `user_id`. Unlike a
+// block, the muted user can still message them and is never told.
+export const userMutes = pgTable("user_mutes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  mutedUserId: integer("muted_user_id").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.userId, table.mutedUserId),
+]);
+
+// Who joined through which invite, kept even after the invite is revoked
+export const inviteJoins = pgTable("invite_joins", {
+  id: serial("id").primaryKey(),
+  inviteId: integer("invite_id").references(() => chatInvites.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  joinedAt: timestamp("joined_at").defaultNow().notNull(),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
 });
 
+const usernameSchema = z.string().trim().min(1).max(32);
+
+export const credentialsSchema = insertUserSchema.extend({
+  username: usernameSchema,
+  password: z.string().min(6).max(128),
+});
+
 export const insertChatSchema = createInsertSchema(chats).pick({
   name: true,
   type: true,
@@ -47,15 +221,173 @@ export const insertChatSchema = createInsertSchema(chats).pick({
 export const insertMessageSchema = createInsertSchema(messages).pick({
   chatId: true,
   content: true,
+  parentId: true,
+  threadRootId: true,
+});
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+export const ALLOWED_ATTACHMENT_TYPES = [
+  "image/png", "image/jpeg", "image/gif", "image/webp",
+  "audio/mpeg", "audio/ogg", "audio/wav", "audio/flac",
+  "video/mp4",
+  "application/pdf", "application/zip", "text/plain",
+];
+
+// Avatars are cropped square and stored at each of these sizes, in pixels
+export const AVATAR_SIZES = [64, 256] as const;
+export type AvatarSize = typeof AVATAR_SIZES[number];
+export type AvatarKeys = Record<AvatarSize, string>;
+
+export const MAX_AVATAR_BYTES = 5 * 1024 * 1024;
+export const ALLOWED_AVATAR_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+// Empty text clears an optional field
+const optionalText = (max: number) => z.string().trim().max(max).nullable().transform(text => text || null);
+
+export const profileUpdateSchema = z.object({
+  username: usernameSchema,
+  displayName: optionalText(50),
+  bio: optionalText(300),
+  pronouns: optionalText(30),
+}).partial();
+
+export const avatarQuerySchema = z.object({
+  size: z.coerce.number()
+    .refine((size): size is AvatarSize => (AVATAR_SIZES as readonly number[]).includes(size))
+    .default(AVATAR_SIZES[0]),
+});
+
+export const songUrlSchema = z.string().trim().url().max(2048);
+export const MAX_SONG_TITLE_LENGTH = 200;
+export const songTitleSchema = z.string().trim().min(1).max(MAX_SONG_TITLE_LENGTH);
+
+// A message needs text, attachments or a shared song
+export const sendMessageSchema = insertMessageSchema.extend({
+  attachmentIds: z.array(z.number().int().positive()).max(MAX_ATTACHMENTS_PER_MESSAGE).optional(),
+  songUrl: songUrlSchema.optional(),
+}).refine(message => message.content.trim().length > 0 || !!message.attachmentIds?.length || !!message.songUrl, {
+  message: "Message cannot be empty",
+});
+
+export const editMessageSchema = z.object({
+  content: z.string().trim().min(1),
+});
+
+const EMOJI_PATTERN = new RegExp("\\p{Extended_Pictographic}", "u");
+
+export const reactionSchema = z.object({
+  emoji: z.string().min(1).max(16).regex(EMOJI_PATTERN, "Must be an emoji"),
+});
+
+export const typingSchema = z.object({
+  isTyping: z.boolean(),
+});
+
+// `tabId` identifies one open tab or device of the user
+export const presenceHeartbeatSchema = z.object({
+  tabId: z.string().min(1).max(64),
+  active: z.boolean(),
+});
+
+export const presenceLeaveSchema = presenceHeartbeatSchema.pick({ tabId: true });
+
+// What the user chose to show: 'auto' is online or away depending on
+// activity, 'busy' is do-not-disturb and 'invisible' looks offline to others
+export const AVAILABILITIES = ["auto", "busy", "invisible"] as const;
+export type Availability = typeof AVAILABILITIES[number];
+
+export const MAX_STATUS_TEXT_LENGTH = 100;
+
+export const userStatusSchema = z.object({
+  availability: z.enum(AVAILABILITIES),
+  statusText: z.string().trim().max(MAX_STATUS_TEXT_LENGTH).nullable().transform(text => text || null),
+  statusEmoji: z.string().trim().max(16).nullable().transform(emoji => emoji || null),
+  statusExpiresAt: z.coerce.date().nullable(), // Null keeps the status until it is changed
+}).refine(status => !status.statusExpiresAt || status.statusExpiresAt.getTime() > Date.now(), {
+  message: "Expiry must be in the future",
+  path: ["statusExpiresAt"],
+});
+
+// Who may start a direct chat with the user
+export const DIRECT_MESSAGE_SENDERS = ["everyone", "friends"] as const;
+export type DirectMessageSenders = typeof DIRECT_MESSAGE_SENDERS[number];
+
+export const privacySettingsSchema = z.object({
+  directMessagesFrom: z.enum(DIRECT_MESSAGE_SENDERS),
+});
+
+// In a music room a plain member is a listener
+export const MUSIC_ROLES = ["member", "host", "dj"] as const;
+// A group has exactly one owner; ownership is handed over, never assigned
+export const GROUP_ROLES = ["member", "admin", "owner"] as const;
+export const MEMBER_ROLES = [...MUSIC_ROLES, "admin", "owner"] as const;
+export type MusicRole = typeof MUSIC_ROLES[number];
+export type GroupRole = typeof GROUP_ROLES[number];
+export type MemberRole = typeof MEMBER_ROLES[number];
+
+export const memberRoleSchema = z.object({
+  role: z.enum(MUSIC_ROLES), // Giving someone 'host' hands the room over to them
+});
+
+export const groupRoleSchema = z.object({
+  role: z.enum(["member", "admin"]),
+});
+
+export const MAX_GROUP_NAME_LENGTH = 100;
+export const MAX_GROUP_DESCRIPTION_LENGTH = 500;
+
+// Private chats are joined by being added or through an invite link. Anyone
+// with the room's link may join an unlisted one, and public ones are also
+// listed in the room directory.
+export const CHAT_VISIBILITIES = ["private", "unlisted", "public"] as const;
+export type ChatVisibility = typeof CHAT_VISIBILITIES[number];
+
+export const groupSettingsSchema = z.object({
+  name: z.string().trim().min(1).max(MAX_GROUP_NAME_LENGTH),
+  description: optionalText(MAX_GROUP_DESCRIPTION_LENGTH),
+  visibility: z.enum(CHAT_VISIBILITIES),
+}).partial();
+
+export const addMembersSchema = z.object({
+  userIds: z.array(z.number().int().positive()).min(1).max(50),
+});
+
+export const transferOwnershipSchema = z.object({
+  userId: z.number().int().positive(),
+});
+
+// What a system message in the timeline records. `userId` is the member the
+// change was about, if it was not the sender themselves.
+export type SystemEvent = {
+  kind:
+    | "memberAdded" | "memberJoined" | "memberRemoved" | "memberLeft" | "roleChanged" | "ownerChanged"
+    | "renamed" | "descriptionChanged" | "visibilityChanged";
+  userId: number | null;
+};
+
+export const musicRoomSettingsSchema = z.object({
+  queueLocked: z.boolean().optional(),
+  djRotation: z.boolean().optional(),
+  visibility: z.enum(CHAT_VISIBILITIES).optional(),
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type Credentials = z.infer<typeof credentialsSchema>;
 export type User = typeof users.$inferSelect;
+export type UserStatus = z.infer<typeof userStatusSchema>;
+export type ProfileUpdate = z.infer<typeof profileUpdateSchema>;
+export type PrivacySettings = z.infer<typeof privacySettingsSchema>;
+export type GroupSettings = z.infer<typeof groupSettingsSchema>;
 export type InsertChat = z.infer<typeof insertChatSchema>;
 export type Chat = typeof chats.$inferSelect;
 export type ChatMember = typeof chatMembers.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type Message = typeof messages.$inferSelect;
+export type MessageEdit = typeof messageEdits.$inferSelect;
+export type MessageReaction = typeof messageReactions.$inferSelect;
+export type Attachment = typeof attachments.$inferSelect;
+export type InsertAttachment = typeof attachments.$inferInsert;
 
 export type ChatWithMembers = Chat & {
   members: (ChatMember & { user: User })[];
@@ -63,4 +395,297 @@ export type ChatWithMembers = Chat & {
   unreadCount?: number;
 };
 
-export type MessageWithSender = Message & { sender: User };
+// Reactions on one message, grouped by emoji
+export type ReactionSummary = {
+  emoji: string;
+  count: number;
+  userIds: number[];
+};
+
+// The quoted parent shown above a reply
+export type MessageQuote = Pick<Message, "id" | "senderId" | "content" | "deletedAt"> & {
+  senderName: string;
+};
+
+// Replies hanging off a thread root, as seen by one viewer
+export type ThreadSummary = {
+  replyCount: number;
+  lastReplyAt: Date | null;
+  unreadCount: number;
+};
+
+export type MessageWithSender = Message & {
+  sender: User;
+  reactions: ReactionSummary[];
+  parent: MessageQuote | null;
+  thread: ThreadSummary | null;
+  attachments: Attachment[];
+};
+
+// One page of a chat's history in ascending order. `nextCursor` continues in
+// the direction that was requested, or is null when there is nothing more.
+export type MessagePage = {
+  messages: MessageWithSender[];
+  nextCursor: number | null;
+};
+
+export const messagePageQuerySchema = z.object({
+  thread: z.coerce.number().int().positive().optional(), // Root message id; omit for the main timeline
+  before: z.coerce.number().int().positive().optional(),
+  after: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+}).refine(query => query.before === undefined || query.after === undefined, {
+  message: "Use either before or after, not both",
+});
+
+export type MessagePageQuery = z.input<typeof messagePageQuerySchema>;
+
+// Search matches in `snippet` are wrapped in these markers
+export const SEARCH_HIGHLIGHT_START = "\u0002";
+export const SEARCH_HIGHLIGHT_END = "\u0003";
+
+// An inclusive upper bound: a bare date like "2026-10-19" takes in that whole
+// (UTC) day rather than ending at its first moment
+const untilSchema = z.preprocess(
+  value => typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T23:59:59.999Z` : value,
+  z.coerce.date(),
+);
+
+export const messageSearchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  chatId: z.coerce.number().int().positive().optional(),
+  senderId: z.coerce.number().int().positive().optional(),
+  from: z.coerce.date().optional(),
+  to: untilSchema.optional(),
+  before: z.coerce.number().int().positive().optional(), // Continue after this message id
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export type MessageSearchQuery = z.infer<typeof messageSearchQuerySchema>;
+
+export type MessageSearchResult = Message & {
+  sender: User;
+  chat: Pick<Chat, "id" | "name" | "type">;
+  snippet: string;
+};
+
+// Newest matches first; `nextCursor` is passed back as `before`
+export type MessageSearchPage = {
+  results: MessageSearchResult[];
+  nextCursor: number | null;
+};
+
+export type TrackProviderName = "youtube" | "spotify" | "soundcloud" | "audio" | "link";
+
+// What a shared song link resolves to. Fields the provider cannot tell from the
+// URL (or, for uploaded files, from the file's tags) are null.
+export type TrackMetadata = {
+  url: string;
+  provider: TrackProviderName;
+  trackId: string | null; // The provider's id for the track
+  title: string;
+  artist: string | null;
+  durationMs: number | null;
+  artworkUrl: string | null;
+};
+
+// Shared playback of a music room. While playing, the track position is
+// `positionMs` plus the time elapsed since `startedAt` on the server clock.
+export type PlaybackState = {
+  chatId: number;
+  currentSong: string | null;
+  songUrl: string | null;
+  track: TrackMetadata | null;
+  isPlaying: boolean;
+  positionMs: number;
+  startedAt: Date | null;
+  serverTime: Date; // Lets clients estimate their offset from the server clock
+};
+
+const playbackPosition = z.number().int().min(0);
+
+export const playbackActionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("load"),
+    songUrl: songUrlSchema,
+    title: songTitleSchema.optional(),
+  }),
+  z.object({ action: z.literal("play"), positionMs: playbackPosition.optional() }),
+  z.object({ action: z.literal("pause"), positionMs: playbackPosition.optional() }),
+  z.object({ action: z.literal("seek"), positionMs: playbackPosition }),
+  z.object({ action: z.literal("stop") }),
+  // Advance to the next queued track. With `fromSongUrl`, only advances if that
+  // is still the room's track, so every client seeing a track end advances once.
+  z.object({ action: z.literal("next"), fromSongUrl: z.string().nullable().optional() }),
+]);
+
+export type PlaybackAction = z.infer<typeof playbackActionSchema>;
+
+export const addQueueItemSchema = z.object({
+  songUrl: songUrlSchema,
+  title: songTitleSchema.optional(),
+});
+
+export const moveQueueItemSchema = z.object({
+  position: z.number().int().min(0), // Target index in the queue
+});
+
+export const queueVoteSchema = z.object({
+  value: z.union([z.literal(1), z.literal(-1), z.literal(0)]), // 0 withdraws the vote
+});
+
+export type QueueItem = typeof queueItems.$inferSelect;
+export type InsertQueueItem = Pick<QueueItem, "chatId" | "addedById" | "songUrl" | "track">;
+export type QueueVoteValue = z.infer<typeof queueVoteSchema>["value"];
+
+export type QueueItemWithVotes = QueueItem & {
+  addedBy: User;
+  score: number; // Sum of votes
+  myVote: QueueVoteValue; // The viewer's own vote
+};
+
+export type PlayEndReason = "completed" | "skipped";
+export type Play = typeof playHistory.$inferSelect;
+export type InsertPlay = Pick<Play, "chatId" | "queuedById" | "track" | "startedAt">;
+export type PlayEnding = { endedAt: Date; playedMs: number; endReason: PlayEndReason };
+
+export type PlayWithUser = Play & { queuedBy: User };
+
+export const playHistoryQuerySchema = z.object({
+  queuedBy: z.coerce.number().int().positive().optional(), // Only tracks this user queued
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  before: z.coerce.number().int().positive().optional(), // Continue after this play id
+  limit: z.coerce.number().int().min(1).max(100).default(30),
+});
+
+export type PlayHistoryQuery = z.infer<typeof playHistoryQuerySchema>;
+
+// Newest plays first; `nextCursor` is passed back as `before`
+export type PlayHistoryPage = {
+  plays: PlayWithUser[];
+  nextCursor: number | null;
+};
+
+export const roomStatsQuerySchema = z.object({
+  weeks: z.coerce.number().int().min(1).max(52).default(8),
+});
+
+export type RoomStats = {
+  topTracks: { track: TrackMetadata; plays: number }[]; // By track URL
+  topContributors: { user: User; plays: number }[];
+  weeklyListening: { weekStart: string; hours: number }[]; // Oldest week first; weeks start on Monday (UTC)
+};
+
+export const PLAYLIST_FORMATS = ["m3u", "m3u8", "xspf", "json"] as const;
+export type PlaylistFormat = typeof PLAYLIST_FORMATS[number];
+
+export const MAX_PLAYLIST_ENTRIES = 200;
+
+// A playlist of the room's queue, or of what it played (with the history filters)
+export const playlistExportQuerySchema = playHistoryQuerySchema.pick({ queuedBy: true, from: true, to: true }).extend({
+  source: z.enum(["queue", "history"]).default("queue"),
+  format: z.enum(PLAYLIST_FORMATS).default("m3u8"),
+});
+
+export const playlistImportSchema = z.object({
+  content: z.string().min(1).max(100_000), // The playlist file's text
+  format: z.enum(PLAYLIST_FORMATS).optional(), // Detected from the content when omitted
+});
+
+// Why one entry of an imported playlist was left out. `entry` is its 1-based
+// position in the file.
+export type PlaylistEntryError = {
+  entry: number;
+  location: string | null;
+  message: string;
+};
+
+export type PlaylistImportResult = {
+  added: number;
+  errors: PlaylistEntryError[];
+};
+
+export const MAX_INVITE_USES = 1000;
+
+export const createInviteSchema = z.object({
+  expiresAt: z.coerce.date().nullable().default(null),
+  maxUses: z.number().int().min(1).max(MAX_INVITE_USES).nullable().default(null),
+}).refine(invite => !invite.expiresAt || invite.expiresAt.getTime() > Date.now(), {
+  message: "Expiry must be in the future",
+  path: ["expiresAt"],
+});
+
+export type ChatInvite = typeof chatInvites.$inferSelect;
+export type InsertChatInvite = Pick<ChatInvite, "chatId" | "token" | "createdById" | "expiresAt" | "maxUses">;
+export type InviteJoin = typeof inviteJoins.$inferSelect;
+
+// An invite as its chat's admins see it, with who made it and who used it
+export type ChatInviteWithJoins = ChatInvite & {
+  createdBy: User;
+  joins: (InviteJoin & { user: User })[];
+};
+
+// What the /join page shows before someone joins
+export type InvitePreview = {
+  chat: Pick<Chat, "id" | "name" | "type" | "description">;
+  memberCount: number;
+  invitedBy: User;
+  expiresAt: Date | null;
+  isMember: boolean;
+};
+
+export const DIRECTORY_SORTS = ["active", "members", "newest"] as const;
+export type DirectorySort = typeof DIRECTORY_SORTS[number];
+
+export const roomDirectoryQuerySchema = z.object({
+  type: z.enum(["group", "music"]),
+  q: z.string().trim().max(100).optional(), // Matches the name or description
+  sort: z.enum(DIRECTORY_SORTS).default("active"),
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export type RoomDirectoryQuery = z.infer<typeof roomDirectoryQuerySchema>;
+
+// A public or unlisted room as someone outside it sees it. Activity is the
+// last message, or the room's creation while it has none.
+export type DirectoryRoom = Pick<Chat, "id" | "name" | "type" | "description" | "visibility" | "currentTrack"> & {
+  memberCount: number;
+  lastActivityAt: Date;
+  isMember: boolean;
+};
+
+// Rooms move around as they get busy, so `nextCursor` is an offset, passed
+// back as `offset`
+export type RoomDirectoryPage = {
+  rooms: DirectoryRoom[];
+  nextCursor: number | null;
+};
+
+export const FRIENDSHIP_STATUSES = ["pending", "accepted", "declined", "blocked"] as const;
+export type FriendshipStatus = typeof FRIENDSHIP_STATUSES[number];
+export type Friendship = typeof friendships.$inferSelect;
+export type UserMute = typeof userMutes.$inferSelect;
+
+export const userSearchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(50), // Matches the username or display name
+});
+
+// Someone in the user's contact list, and since when (friends since, or
+// asked since for requests)
+export type Contact = {
+  user: User;
+  since: Date;
+};
+
+// Friends include those who are offline; requests are still waiting for an
+// answer. Blocked and muted users are the user's own choices, since when they
+// were blocked or muted. Each list is newest first.
+export type Contacts = {
+  friends: Contact[];
+  incoming: Contact[];
+  outgoing: Contact[];
+  blocked: Contact[];
+  muted: Contact[];
+};